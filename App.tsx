@@ -2,14 +2,50 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { QRCodeConfig, ContentType, DotType, CornerSquareType, CornerDotType, ErrorCorrectionLevel } from './types';
-import { DEFAULT_QR_CODE_CONFIG, DOT_STYLES, CORNER_SQUARE_STYLES, CORNER_DOT_STYLES, TEMPLATES, ERROR_CORRECTION_LEVELS } from './constants';
+import jsQR from 'jsqr';
+import { QRCodeConfig, Theme, UtmParams, WifiData, EmailData, VCardData, SmsData, GeoData, EventData, CryptoData, CryptoNetwork, ContentType, DotType, CornerSquareType, CornerDotType, ErrorCorrectionLevel, GradientFill, GradientType, FinderColors, FinderCorner, StyleSettings, StyleTemplate, BrandKit, BrandLogo, AnalyticsData, AnalyticsRange, AnalyticsRangePreset, HeatPoint, FunnelStep, TimeSeriesPoint, ExportSettings } from './types';
+import { CONTENT_TYPE_LABELS, DEFAULT_QR_CODE_CONFIG, DOT_STYLES, CORNER_SQUARE_STYLES, CORNER_DOT_STYLES, TEMPLATES, ERROR_CORRECTION_LEVELS, DEFAULT_EXPORT_SETTINGS, EMPTY_VCARD_DATA, EMPTY_WIFI_DATA, EMPTY_EMAIL_DATA, EMPTY_SMS_DATA, EMPTY_GEO_DATA, EMPTY_EVENT_DATA, EMPTY_CRYPTO_DATA } from './constants';
 import useLocalStorage from './hooks/useLocalStorage';
+import useUndoHistory from './hooks/useUndoHistory';
+import useLibraryStore from './hooks/useLibraryStore';
+import useScanEvents from './hooks/useScanEvents';
+import useSelfTest from './hooks/useSelfTest';
 import QRCodePreview from './components/QRCodePreview';
 import Library from './components/Library';
+import BatchGenerator from './components/BatchGenerator';
+import PdfExportDialog from './components/PdfExportDialog';
+import ExportDialog from './components/ExportDialog';
+import CapacityIndicator from './components/CapacityIndicator';
+import VCardEditor from './components/VCardEditor';
+import ImageDecoder from './components/ImageDecoder';
+import StyleTemplates from './components/StyleTemplates';
+import BrandKitDialog from './components/BrandKitDialog';
+import BackupDialog from './components/BackupDialog';
+import { buildShortUrl, generateShortCode, upsertDynamicLink } from './services/redirectService';
+import { buildUrlWithUtm, normalizeUrl, stripUtmParams } from './utils/url';
+import {
+    buildCryptoPayload, buildEmailPayload, buildEventPayload, buildGeoPayload, buildPhonePayload, buildSmsPayload,
+    buildVCardPayload, buildWifiPayload, validateCryptoData, validateEventData, validateGeoData, validatePhoneNumber, validateSmsData
+} from './utils/payload';
+import { normalizeWifiAuthentication, WifiAuthentication } from './utils/payloadEncoding';
+import { DetectedPayload } from './utils/payloadDetect';
+import { ExportExtension, resolveExportPixelSize } from './utils/qrExport';
+import { encodeQR } from './utils/qrEncoder';
+import { assessPrintDensity } from './utils/qrCapacity';
+import { chooseErrorCorrection, ErrorCorrectionChoice } from './utils/errorCorrection';
+import { SELF_TEST_VARIANTS } from './utils/selfTest';
+import { FINDER_CORNERS, resolveFinderColors, resolveThemeColors } from './utils/qrOptions';
+import { pickStyle, toStylePatch } from './utils/styleTemplates';
+import { findBrandKitDeviations, kitOptions } from './utils/brandKit';
+import { createGradient, fillColors, MAX_GRADIENT_STOPS, MIN_GRADIENT_STOPS, toCssGradient } from './utils/gradient';
+import { computeAnalytics, previousPeriodStart, resolveAnalyticsRange, toDateInputValue } from './utils/analytics';
+import { copyName } from './utils/library';
+import { BackupData, BackupImportOptions, mergeBackupTemplates, planImport } from './utils/backup';
+import { buildShareUrl, decodeShareLink, encodeShareLink, readShareLinkHash, SharedContent, SharedDesign, toSharedDesign } from './utils/shareLink';
+import { appendRevision, pruneRevisions, RevisionsByCode } from './utils/revisions';
 import { 
     DownloadIcon, SaveIcon, LogoIcon, LinkIcon, TextIcon, WifiIcon, 
-    VCardIcon, EmailIcon, HistoryIcon, AccountIcon,
+    VCardIcon, EmailIcon, SmsIcon, PhoneIcon, GeoIcon, EventIcon, CryptoIcon, HistoryIcon, AccountIcon,
     ChevronUpIcon, ChevronDownIcon, InfoIcon, UploadIcon, RemoveIcon, MaterialIcon, CameraIcon
 } from './components/icons';
 
@@ -17,8 +53,6 @@ const DEFAULT_TRANSPARENT_BG = '#0f172a';
 const LIGHT_TRANSPARENT_BG = '#f1f5f9';
 const LIGHT_SURFACE_ACCENT = '#e2e8f0';
 
-type Theme = 'dark' | 'light';
-
 type RGB = { r: number; g: number; b: number };
 type ReadinessWarning = { id: string; message: string };
 interface ReadinessMetrics {
@@ -31,6 +65,10 @@ interface ReadinessMetrics {
   recommendedPrintWidthIn: number;
   maxDistanceFt: number;
   recommendedPixelSize: number;
+  // Printed size of one module; null while the content is too long to encode.
+  moduleSizeMm: number | null;
+  // The color pairing the contrast figures describe; null when the code has a single foreground and background color.
+  worstPair: { fg: string; bg: string } | null;
 }
 
 interface ReadinessResult {
@@ -38,46 +76,18 @@ interface ReadinessResult {
   metrics: ReadinessMetrics;
 }
 
-type UtmParams = {
-  source: string;
-  medium: string;
-  campaign: string;
-  term: string;
-  content: string;
-};
+type SelfTestState = ReturnType<typeof useSelfTest>;
 
-type HeatPoint = {
-  id: string;
-  label: string;
-  lat: number;
-  lng: number;
-  scans: number;
-  intensity: number;
-};
+type CampaignCosts = { spend: number; revenue: number };
 
-type FunnelStep = {
-  id: string;
-  label: string;
-  value: number;
-  description: string;
-};
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-interface AnalyticsData {
-  period: string;
-  totalScans: number;
-  uniqueVisitors: number;
-  retentionRate: number;
-  topLocations: HeatPoint[];
-  funnel: FunnelStep[];
-  roi: {
-    revenue: number;
-    spend: number;
-    roas: number;
-    costPerAcquisition: number;
-    costPerScan: number;
-  };
-  utmBreakdown: { id: string; label: string; scans: number; share: number }[];
-}
+const ANALYTICS_RANGE_PRESETS: { value: AnalyticsRangePreset; label: string }[] = [
+  { value: '24h', label: '24h' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: 'custom', label: 'Custom' },
+];
 
 const clampHex = (hex: string) => {
   if (hex.startsWith('#') && hex.length === 4) {
@@ -120,57 +130,6 @@ const contrastRatio = (l1: number, l2: number) => {
   return (light + 0.05) / (dark + 0.05);
 };
 
-const hasProtocol = (value: string) => /^[a-zA-Z][a-zA-Z\d+-.]*:/.test(value);
-const looksRelative = (value: string) => value.startsWith('/') || value.startsWith('./') || value.startsWith('../');
-
-const normalizeUrl = (value: string): { normalized: string | null; error: string | null } => {
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return { normalized: null, error: null };
-  }
-  if (looksRelative(trimmed)) {
-    return {
-      normalized: null,
-      error: 'Provide an absolute URL including the protocol (e.g. https://example.com/page).'
-    };
-  }
-  const candidate = hasProtocol(trimmed) ? trimmed : `https://${trimmed}`;
-  try {
-    new URL(candidate);
-    return { normalized: candidate, error: null };
-  } catch {
-    return {
-      normalized: null,
-      error: 'URL looks invalid — double-check the format.'
-    };
-  }
-};
-
-const buildUrlWithUtm = (target: string, params: UtmParams) => {
-  const url = new URL(target);
-  (Object.entries(params) as [keyof typeof params, string][]).forEach(([key, paramValue]) => {
-    const queryKey = `utm_${key}`;
-    if (paramValue) {
-      url.searchParams.set(queryKey, paramValue);
-    } else {
-      url.searchParams.delete(queryKey);
-    }
-  });
-  return url.toString();
-};
-
-const stripUtmParams = (value: string) => {
-  try {
-    const url = new URL(value);
-    ['source', 'medium', 'campaign', 'term', 'content'].forEach(key => {
-      url.searchParams.delete(`utm_${key}`);
-    });
-    return url.toString();
-  } catch {
-    return value;
-  }
-};
-
 const getInitialTheme = (): Theme => {
   if (typeof window !== 'undefined') {
     const stored = window.localStorage.getItem('qr-theme');
@@ -186,26 +145,52 @@ const getInitialTheme = (): Theme => {
 
 const App: React.FC = () => {
   const [theme, setTheme] = useState<Theme>(getInitialTheme);
-  const [currentConfig, setCurrentConfig] = useState<QRCodeConfig>({
+  const [styleTemplates, setStyleTemplates] = useLocalStorage<StyleTemplate[]>('qr-style-templates', []);
+  const [defaultTemplateId, setDefaultTemplateId] = useLocalStorage<string | null>('qr-default-template-id', null);
+  // New codes start from the team default template when one is set.
+  const [initialTemplate] = useState(() => styleTemplates.find(template => template.id === defaultTemplateId));
+  const [currentConfig, setCurrentConfig] = useState<QRCodeConfig>(() => ({
     ...DEFAULT_QR_CODE_CONFIG,
+    ...(initialTemplate ? toStylePatch(initialTemplate.style) : {}),
     id: `qr-${Date.now()}`,
     name: 'New QR Code',
-  });
-  const [savedQRCodes, setSavedQRCodes] = useLocalStorage<QRCodeConfig[]>('qr-codes-library', []);
-  const qrRef = useRef<any | null>(null);
+  }));
+  const library = useLibraryStore();
+  const { codes: savedQRCodes, setCodes: setSavedQRCodes, revisions, setRevisions } = library;
   const [openSections, setOpenSections] = useState({ content: true, templates: true, colors: true, errorCorrection: true, shape: true, finders: false, logo: false, settings: false, readiness: false });
   const [activeContentType, setActiveContentType] = useState<ContentType>('url');
-  const [autoErrorCorrection, setAutoErrorCorrection] = useState(true);
+  // A template's error correction level is a deliberate choice; auto mode would overwrite it.
+  const [autoErrorCorrection, setAutoErrorCorrection] = useState(!initialTemplate);
   const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [isScanModalOpen, setIsScanModalOpen] = useState(false);
-  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isPdfOpen, setIsPdfOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isBrandKitOpen, setIsBrandKitOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [brandKit, setBrandKit] = useLocalStorage<BrandKit | null>('qr-brand-kit', null);
+  const [brandKitEnforced, setBrandKitEnforced] = useLocalStorage('qr-brand-kit-enforced', false);
+  const activeBrandKit = brandKitEnforced ? brandKit : null;
+  const kitPalette = activeBrandKit && activeBrandKit.colors.length > 0 ? activeBrandKit.colors : undefined;
+  const [exportFormat, setExportFormat] = useState<ExportExtension | null>(null);
+  const [exportSettings, setExportSettings] = useLocalStorage<ExportSettings>('qr-export-settings', DEFAULT_EXPORT_SETTINGS);
+  const [analyticsCodeId, setAnalyticsCodeId] = useState<string | null>(null);
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsRange>(() => ({
+    preset: '30d',
+    customFrom: toDateInputValue(Date.now() - 29 * DAY_MS),
+    customTo: toDateInputValue(Date.now()),
+  }));
   const [scanDistanceFt, setScanDistanceFt] = useState(6);
   const [printSizeIn, setPrintSizeIn] = useState(3);
+  const [redirectError, setRedirectError] = useState<string | null>(null);
+  const [campaignCosts, setCampaignCosts] = useState<CampaignCosts>({ spend: 0, revenue: 0 });
+  const [sharedDesign, setSharedDesign] = useState<SharedDesign | null>(null);
+  const [shareNotice, setShareNotice] = useState<{ tone: 'info' | 'warning'; message: string } | null>(null);
   const templatesRef = useRef<HTMLDivElement>(null);
   
   const [baseUrl, setBaseUrl] = useState(DEFAULT_QR_CODE_CONFIG.rawUrl ?? DEFAULT_QR_CODE_CONFIG.data);
   const [autoUtmEnabled, setAutoUtmEnabled] = useState(true);
-  const [utmParams, setUtmParams] = useState({
+  const [utmParams, setUtmParams] = useState<UtmParams>({
     source: 'qr-code',
     medium: 'offline',
     campaign: 'spring-launch',
@@ -213,15 +198,48 @@ const App: React.FC = () => {
     content: 'studio'
   });
   const [textData, setTextData] = useState('');
-  const [wifiData, setWifiData] = useState({ ssid: '', password: '', encryption: 'WPA', isHidden: false });
-  const [emailData, setEmailData] = useState({ address: '', subject: '', body: '' });
-  const [vCardData, setVCardData] = useState({ firstName: '', lastName: '', org: '', phone: '', email: '' });
+  const [wifiData, setWifiData] = useState<WifiData>(EMPTY_WIFI_DATA);
+  const [emailData, setEmailData] = useState<EmailData>(EMPTY_EMAIL_DATA);
+  const [vCardData, setVCardData] = useState<VCardData>(EMPTY_VCARD_DATA);
+  const [smsData, setSmsData] = useState<SmsData>(EMPTY_SMS_DATA);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [geoData, setGeoData] = useState<GeoData>(EMPTY_GEO_DATA);
+  const [eventData, setEventData] = useState<EventData>(EMPTY_EVENT_DATA);
+  const [cryptoData, setCryptoData] = useState<CryptoData>(EMPTY_CRYPTO_DATA);
+  const selfTest = useSelfTest(currentConfig, theme);
+  // Null while the content is too long to encode at the chosen level.
+  const qrSymbol = useMemo(() => {
+    try {
+      return encodeQR(currentConfig.data, currentConfig.errorCorrectionLevel);
+    } catch {
+      return null;
+    }
+  }, [currentConfig.data, currentConfig.errorCorrectionLevel]);
+  // Modules per side, quiet zone excluded.
+  const moduleCount = qrSymbol?.size ?? 0;
+
+  const brandKitDeviations = useMemo(
+    () => (activeBrandKit ? findBrandKitDeviations(currentConfig, activeBrandKit) : []),
+    [activeBrandKit, currentConfig]
+  );
+
   const readiness = useMemo<ReadinessResult>(() => {
     const fallbackBg = theme === 'light' ? LIGHT_TRANSPARENT_BG : DEFAULT_TRANSPARENT_BG;
     const resolvedBg = currentConfig.bgColor === 'transparent' ? fallbackBg : currentConfig.bgColor;
     const fgColor = currentConfig.fgColor ?? '#000000';
-    const fgLum = relativeLuminance(fgColor);
-    const bgLum = relativeLuminance(resolvedBg);
+    // With gradients and eye colors every foreground color can sit next to every background stop, so judge the weakest pairing.
+    const eyeColors = currentConfig.cornersGradient
+      ? fillColors(currentConfig.cornersGradient, fgColor)
+      : [currentConfig.eyeOuterColor ?? fgColor, currentConfig.eyeInnerColor ?? fgColor];
+    const cornerOverrides = FINDER_CORNERS
+      .flatMap(({ id }) => [currentConfig.eyeCornerColors?.[id]?.outer, currentConfig.eyeCornerColors?.[id]?.inner])
+      .filter((color): color is string => Boolean(color));
+    const fgColors = Array.from(new Set([...fillColors(currentConfig.dotsGradient, fgColor), ...eyeColors, ...cornerOverrides]));
+    const bgColors = fillColors(currentConfig.bgGradient, resolvedBg);
+    const pairs = fgColors.flatMap(fg => bgColors.map(bg => ({ fg, bg, fgLum: relativeLuminance(fg), bgLum: relativeLuminance(bg) })));
+    const relativeDifference = ({ fgLum, bgLum }: { fgLum: number; bgLum: number }) => Math.abs(fgLum - bgLum) / Math.max(fgLum, bgLum, 0.0001);
+    const worstPair = pairs.reduce((worst, pair) => (relativeDifference(pair) < relativeDifference(worst) ? pair : worst));
+    const { fgLum, bgLum } = worstPair;
     const lumDiff = Math.abs(fgLum - bgLum);
     const maxLum = Math.max(fgLum, bgLum, 0.0001);
     const relativeDiff = maxLum === 0 ? 0 : lumDiff / maxLum;
@@ -229,8 +247,13 @@ const App: React.FC = () => {
     const contrastPercent = Math.round(relativeDiff * 100);
     const meetsContrast = relativeDiff >= 0.4;
     const isInverted = fgLum > bgLum;
-    const recommendedPrintWidthIn = Number(((scanDistanceFt * 12) / 10).toFixed(2));
-    const maxDistanceFt = Number(((printSizeIn / 12) * 10).toFixed(2));
+    // The 10:1 rule holds for small codes; denser versions need larger modules than it allows for.
+    const density = qrSymbol
+      ? assessPrintDensity({ modules: qrSymbol.size, quietZoneModules: exportSettings.quietZoneModules, printSizeIn, scanDistanceFt })
+      : null;
+    const tenToOneWidthIn = (scanDistanceFt * 12) / 10;
+    const recommendedPrintWidthIn = Number(Math.max(tenToOneWidthIn, density?.minPrintSizeIn ?? 0).toFixed(2));
+    const maxDistanceFt = Number(Math.min((printSizeIn / 12) * 10, density?.maxScanDistanceFt ?? Infinity).toFixed(2));
     const sizeOk = printSizeIn >= recommendedPrintWidthIn || printSizeIn === 0;
     const recommendedPixelSize = Math.max(256, Math.round(printSizeIn * 300));
     const warnings: ReadinessWarning[] = [];
@@ -238,7 +261,9 @@ const App: React.FC = () => {
     if (!meetsContrast) {
       warnings.push({
         id: 'contrast',
-        message: `Contrast is ${contrastPercent}% — increase the difference to at least 40%.`
+        message: pairs.length > 1
+          ? `Contrast between ${worstPair.fg.toUpperCase()} and ${worstPair.bg.toUpperCase()} is ${contrastPercent}% — every dot, eye and background color pairing needs at least 40%.`
+          : `Contrast is ${contrastPercent}% — increase the difference to at least 40%.`
       });
     }
 
@@ -249,10 +274,29 @@ const App: React.FC = () => {
       });
     }
 
+    if (!qrSymbol) {
+      warnings.push({
+        id: 'capacity',
+        message: `The content is too long for a QR code at error correction level ${currentConfig.errorCorrectionLevel}. Shorten it, use a dynamic short link or lower the level.`
+      });
+    }
+
     if (!sizeOk && printSizeIn > 0) {
+      warnings.push(qrSymbol && density?.limitsPrinting
+        ? {
+          id: 'density',
+          message: `Version ${qrSymbol.version} packs ${qrSymbol.size}×${qrSymbol.size} modules into ${printSizeIn}", so each is ${density.moduleMm.toFixed(2)}mm — under the ${density.requiredModuleMm.toFixed(2)}mm needed at ${scanDistanceFt}ft. Print at least ${recommendedPrintWidthIn}" wide or shorten the content.`
+        }
+        : {
+          id: 'size',
+          message: `At ${scanDistanceFt}ft, print at least ${recommendedPrintWidthIn}" wide to follow the 10:1 rule.`
+        });
+    }
+
+    if (activeBrandKit && brandKitDeviations.length > 0) {
       warnings.push({
-        id: 'size',
-        message: `At ${scanDistanceFt}ft, print at least ${recommendedPrintWidthIn}" wide to follow the 10:1 rule.`
+        id: 'brand-kit',
+        message: `Off-brand for "${activeBrandKit.name}": ${brandKitDeviations.join('; ')}.`
       });
     }
 
@@ -274,10 +318,12 @@ const App: React.FC = () => {
         sizeOk,
         recommendedPrintWidthIn,
         maxDistanceFt,
-        recommendedPixelSize
+        recommendedPixelSize,
+        moduleSizeMm: density ? Number(density.moduleMm.toFixed(2)) : null,
+        worstPair: pairs.length > 1 ? { fg: worstPair.fg, bg: worstPair.bg } : null
       }
     };
-  }, [currentConfig.bgColor, currentConfig.fgColor, printSizeIn, scanDistanceFt, theme]);
+  }, [currentConfig.bgColor, currentConfig.fgColor, currentConfig.dotsGradient, currentConfig.cornersGradient, currentConfig.bgGradient, currentConfig.eyeOuterColor, currentConfig.eyeInnerColor, currentConfig.eyeCornerColors, currentConfig.errorCorrectionLevel, qrSymbol, exportSettings.quietZoneModules, activeBrandKit, brandKitDeviations, printSizeIn, scanDistanceFt, theme]);
 
   const urlValidation = useMemo(() => normalizeUrl(baseUrl), [baseUrl]);
 
@@ -286,44 +332,42 @@ const App: React.FC = () => {
     return autoUtmEnabled ? buildUrlWithUtm(urlValidation.normalized, utmParams) : urlValidation.normalized;
   }, [autoUtmEnabled, utmParams, urlValidation.normalized]);
 
-  const analyticsInsights = useMemo<AnalyticsData>(() => {
-    const funnelSteps: FunnelStep[] = [
-      { id: 'scans', label: 'Scans', value: 8420, description: 'Total QR scans captured in-platform.' },
-      { id: 'landings', label: 'Landing Sessions', value: 5680, description: 'Sessions passed to the destination page.' },
-      { id: 'signups', label: 'Leads Captured', value: 1625, description: 'Form submissions attributed to the QR experience.' },
-      { id: 'purchases', label: 'Conversions', value: 486, description: 'Orders recorded from tracked sessions.' },
-    ];
-    const roi = {
-      revenue: 28400,
-      spend: 6200,
-      roas: Number((28400 / 6200).toFixed(2)),
-      costPerAcquisition: Number((6200 / 486).toFixed(2)),
-      costPerScan: Number((6200 / 8420).toFixed(2)),
-    };
-    const utmSources = [
-      { id: 'print', label: 'qr-code / print-collateral', scans: 3920 },
-      { id: 'events', label: 'qr-code / events', scans: 2280 },
-      { id: 'packaging', label: 'qr-code / packaging', scans: 1280 },
-      { id: 'email', label: 'email / re-engagement', scans: 940 },
-    ];
-    const total = utmSources.reduce((sum, item) => sum + item.scans, 0) || 1;
-    return {
-      period: 'Last 30 days',
-      totalScans: funnelSteps[0]?.value ?? 0,
-      uniqueVisitors: 6235,
-      retentionRate: 0.38,
-      topLocations: [
-        { id: 'nyc', label: 'New York, US', lat: 40.7128, lng: -74.006, scans: 1420, intensity: 0.95 },
-        { id: 'la', label: 'Los Angeles, US', lat: 34.0522, lng: -118.2437, scans: 980, intensity: 0.82 },
-        { id: 'lon', label: 'London, UK', lat: 51.5072, lng: -0.1276, scans: 720, intensity: 0.75 },
-        { id: 'tok', label: 'Tokyo, JP', lat: 35.6762, lng: 139.6503, scans: 610, intensity: 0.7 },
-        { id: 'sao', label: 'Sao Paulo, BR', lat: -23.5505, lng: -46.6333, scans: 430, intensity: 0.6 },
-      ],
-      funnel: funnelSteps,
-      roi,
-      utmBreakdown: utmSources.map(item => ({ ...item, share: Number((item.scans / total).toFixed(2)) })),
-    };
-  }, []);
+  // Like normalizeUrl: an untouched form yields neither a payload nor an error.
+  const structuredContent = useMemo((): { payload: string | null; error: string | null } => {
+    const encode = (isEmpty: boolean, error: string | null, build: () => string) =>
+      isEmpty ? { payload: null, error: null } : error ? { payload: null, error } : { payload: build(), error: null };
+    switch (activeContentType) {
+        case 'sms': return encode(!smsData.phone.trim(), validateSmsData(smsData), () => buildSmsPayload(smsData));
+        case 'phone': return encode(!phoneNumber.trim(), validatePhoneNumber(phoneNumber), () => buildPhonePayload(phoneNumber));
+        case 'geo': return encode(!geoData.latitude.trim() && !geoData.longitude.trim(), validateGeoData(geoData), () => buildGeoPayload(geoData));
+        case 'event': return encode(!eventData.title.trim() && !eventData.start, validateEventData(eventData), () => buildEventPayload(eventData));
+        case 'crypto': return encode(!cryptoData.address.trim(), validateCryptoData(cryptoData), () => buildCryptoPayload(cryptoData));
+        default: return { payload: null, error: null };
+    }
+  }, [activeContentType, smsData, phoneNumber, geoData, eventData, cryptoData]);
+
+  // Scans are only recorded for dynamic codes that have been saved (and therefore registered).
+  const analyticsCode = savedQRCodes.find(qr => qr.id === analyticsCodeId) ?? null;
+  const resolvedAnalyticsRange = useMemo(
+    () => resolveAnalyticsRange(analyticsRange),
+    // Re-resolve when the dashboard is reopened so relative ranges end "now".
+    [analyticsRange, analyticsCodeId]
+  );
+  const scanEvents = useScanEvents(
+    analyticsCode?.isDynamic ? analyticsCode.id : null,
+    previousPeriodStart(resolvedAnalyticsRange),
+    resolvedAnalyticsRange.to
+  );
+  const analyticsNotice = !analyticsCode
+    ? 'Save this code first, then enable Dynamic QR Code to start recording scans.'
+    : !analyticsCode.isDynamic
+      ? 'This code is static. Enable Dynamic QR Code and save it to start recording scans.'
+      : scanEvents.error;
+
+  const analyticsInsights = useMemo<AnalyticsData>(
+    () => computeAnalytics(scanEvents.events, { range: resolvedAnalyticsRange, ...campaignCosts }),
+    [scanEvents.events, resolvedAnalyticsRange, campaignCosts]
+  );
   
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
@@ -340,6 +384,105 @@ const App: React.FC = () => {
     setCurrentConfig(prev => ({ ...prev, [key]: value }));
   }, []);
 
+  // Undo covers the style only: content is derived from the form fields, which keep their own native undo.
+  const currentStyle = useMemo(() => pickStyle(currentConfig), [currentConfig]);
+  // While auto error correction is on the level follows the content, so its changes are not undo steps and
+  // undo never restores a level auto would immediately disagree with.
+  const undoableStyle = useMemo<Partial<StyleSettings>>(() => {
+    if (!autoErrorCorrection) return currentStyle;
+    const { errorCorrectionLevel: _autoLevel, ...style } = currentStyle;
+    return style;
+  }, [currentStyle, autoErrorCorrection]);
+  const applyUndoStyle = useCallback((style: Partial<StyleSettings>) => {
+    setCurrentConfig(prev => ({
+      ...prev,
+      ...toStylePatch({ ...pickStyle(prev), ...style }),
+      ...(autoErrorCorrection && { errorCorrectionLevel: prev.errorCorrectionLevel }),
+    }));
+  }, [autoErrorCorrection]);
+  const styleHistory = useUndoHistory(undoableStyle, applyUndoStyle, currentConfig.id);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      const target = event.target;
+      // Leave text fields to the browser so typing can be undone character by character.
+      if (target instanceof HTMLTextAreaElement || (target instanceof HTMLInputElement && !['color', 'range', 'checkbox', 'radio', 'button', 'file'].includes(target.type))) return;
+      event.preventDefault();
+      if (key === 'y' || event.shiftKey) styleHistory.redo();
+      else styleHistory.undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [styleHistory.undo, styleHistory.redo]);
+
+  // Share links open on load and when one is pasted into a tab that is already open.
+  useEffect(() => {
+    const openShareLink = async () => {
+      const encoded = readShareLinkHash(window.location.hash);
+      if (!encoded) return;
+      // Drop the hash so a reload does not undo edits made since.
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      try {
+        setSharedDesign(await decodeShareLink(encoded));
+      } catch (error) {
+        console.error(error);
+        setShareNotice({ tone: 'warning', message: error instanceof Error ? error.message : 'This share link could not be opened.' });
+      }
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
+
+  // A shared design opens as a new, unsaved code; the content effect below rebuilds its data from the restored form.
+  useEffect(() => {
+    if (!sharedDesign) return;
+    const { name, content, style, brandLogo } = sharedDesign;
+    const logo = brandLogo ? brandKit?.logos.find(entry => entry.id === brandLogo.id) : undefined;
+    setActiveContentType(content.type);
+    switch (content.type) {
+        case 'url':
+            setBaseUrl(content.baseUrl);
+            setAutoUtmEnabled(content.autoUtm);
+            setUtmParams(content.utm);
+            break;
+        case 'text': setTextData(content.text); break;
+        case 'phone': setPhoneNumber(content.phone); break;
+        case 'wifi': setWifiData(content.wifi); break;
+        case 'email': setEmailData(content.email); break;
+        case 'vcard': setVCardData(content.vcard); break;
+        case 'sms': setSmsData(content.sms); break;
+        case 'geo': setGeoData(content.geo); break;
+        case 'event': setEventData(content.event); break;
+        case 'crypto': setCryptoData(content.crypto); break;
+    }
+    setCurrentConfig(prev => ({
+      ...DEFAULT_QR_CODE_CONFIG,
+      ...toStylePatch({ ...style, image: logo?.image }),
+      id: `qr-${Date.now()}`,
+      name,
+      contentType: content.type,
+      data: prev.data,
+    }));
+    // The link carries a deliberate error correction level, like a template does.
+    setAutoErrorCorrection(false);
+    setRedirectError(null);
+    setShareNotice(
+      brandLogo && !logo
+        ? { tone: 'warning', message: `Opened "${name}". Its logo "${brandLogo.name}" is in a brand kit you do not have, so it was left out.` }
+        : { tone: 'info', message: `Opened the shared design "${name}". Save it to keep it in your library.` }
+    );
+    setSharedDesign(null);
+  }, [sharedDesign]);
+
+  // Revisions of deleted codes are dropped with them.
+  useEffect(() => {
+    setRevisions(prev => pruneRevisions(prev, savedQRCodes));
+  }, [savedQRCodes, setRevisions]);
+
   useEffect(() => {
     let newData = '';
     switch (activeContentType) {
@@ -348,40 +491,66 @@ const App: React.FC = () => {
             break;
         }
         case 'text': newData = textData; break;
-        case 'wifi':
-            const { ssid, password, encryption, isHidden } = wifiData;
-            newData = `WIFI:T:${encryption};S:${ssid};P:${password};H:${isHidden};;`;
-            break;
-        case 'email':
-            const { address, subject, body } = emailData;
-            newData = `mailto:${address}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-            break;
-        case 'vcard':
-            const { firstName, lastName, org, phone, email } = vCardData;
-            newData = `BEGIN:VCARD\nVERSION:3.0\nN:${lastName};${firstName}\nFN:${firstName} ${lastName}\nORG:${org}\nTEL:${phone}\nEMAIL:${email}\nEND:VCARD`;
+        case 'wifi': newData = buildWifiPayload(wifiData); break;
+        case 'email': newData = buildEmailPayload(emailData); break;
+        case 'vcard': newData = buildVCardPayload(vCardData); break;
+        case 'sms':
+        case 'phone':
+        case 'geo':
+        case 'event':
+        case 'crypto':
+            newData = structuredContent.payload ?? '';
             break;
     }
     const trimmedRawUrl = baseUrl.trim();
-    setCurrentConfig(prev => ({ ...prev, data: newData || ' ', contentType: activeContentType, rawUrl: trimmedRawUrl }));
-  }, [activeContentType, baseUrl, textData, wifiData, emailData, vCardData, utmPreview]);
+    setCurrentConfig(prev => {
+        const next = { ...prev, data: newData || ' ', contentType: activeContentType, rawUrl: trimmedRawUrl, destination: undefined };
+        // Dynamic URL codes encode a stable short link; the real destination lives on the redirect service.
+        if (prev.isDynamic && activeContentType === 'url' && newData) {
+            const shortCode = prev.shortCode ?? generateShortCode();
+            return { ...next, data: buildShortUrl(shortCode), shortCode, destination: newData };
+        }
+        return next;
+    });
+  }, [activeContentType, baseUrl, textData, wifiData, emailData, vCardData, structuredContent, utmPreview, currentConfig.isDynamic]);
+
+  const errorCorrectionChoice = useMemo(() => chooseErrorCorrection({
+    payload: currentConfig.data,
+    hasLogo: Boolean(currentConfig.image),
+    printSizeIn,
+    scanDistanceFt,
+    quietZoneModules: exportSettings.quietZoneModules,
+  }), [currentConfig.data, currentConfig.image, printSizeIn, scanDistanceFt, exportSettings.quietZoneModules]);
 
   useEffect(() => {
     if (autoErrorCorrection) {
-        updateConfig('errorCorrectionLevel', currentConfig.image ? 'H' : 'M');
+        updateConfig('errorCorrectionLevel', errorCorrectionChoice.level);
     }
-  }, [currentConfig.image, autoErrorCorrection, updateConfig]);
+  }, [errorCorrectionChoice.level, autoErrorCorrection, updateConfig]);
 
-  const handleSave = () => {
+  const handleSave = async () => {
     const existingIndex = savedQRCodes.findIndex(qr => qr.id === currentConfig.id);
-    let name = currentConfig.name;
+    const existing = existingIndex !== -1 ? savedQRCodes[existingIndex] : undefined;
+    // Names are edited in the library, so a stored name beats the one loaded into the editor.
+    let name = existing?.name ?? currentConfig.name;
     if (name === 'New QR Code' || !name) {
         switch(currentConfig.contentType) {
-            case 'url': name = currentConfig.data.replace(/^(https?:\/\/)?(www\.)?/, '').split('/')[0] || 'URL Code'; break;
+            case 'url': name = (currentConfig.destination ?? currentConfig.data).replace(/^(https?:\/\/)?(www\.)?/, '').split('/')[0] || 'URL Code'; break;
             case 'text': name = currentConfig.data.substring(0, 20) || 'Text Code'; if(currentConfig.data.length > 20) name += '...'; break;
             default: name = `${currentConfig.contentType.charAt(0).toUpperCase() + currentConfig.contentType.slice(1)} Code`;
         }
     }
-    const codeToSave = { ...currentConfig, name, rawUrl: baseUrl.trim() };
+    const now = new Date().toISOString();
+    // Folder and tags may have changed in the library since this code was loaded; the stored values win.
+    const codeToSave: QRCodeConfig = {
+      ...currentConfig,
+      name,
+      rawUrl: baseUrl.trim(),
+      folder: existing ? existing.folder : currentConfig.folder,
+      tags: existing ? existing.tags : currentConfig.tags,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
     if (existingIndex !== -1) {
       const updatedCodes = [...savedQRCodes];
       updatedCodes[existingIndex] = codeToSave;
@@ -389,15 +558,25 @@ const App: React.FC = () => {
     } else {
       setSavedQRCodes(prev => [...prev, codeToSave]);
     }
+    // Codes saved before history existed get their stored version recorded first, so the first edit can still be undone.
+    setRevisions(prev => appendRevision(existing && !prev[existing.id] ? appendRevision(prev, existing) : prev, codeToSave));
     setCurrentConfig(codeToSave);
+    await syncDynamicLink(codeToSave);
   };
 
-  const handleDownload = (extension: 'svg' | 'png' | 'jpeg') => {
-    if (qrRef.current) {
-      qrRef.current.download({ name: 'qr-code', extension });
+  const syncDynamicLink = async (code: QRCodeConfig) => {
+    if (!code.isDynamic || !code.shortCode || !code.destination) return;
+    try {
+        await upsertDynamicLink({ shortCode: code.shortCode, codeId: code.id, destination: code.destination });
+        setRedirectError(null);
+    } catch (error) {
+        console.error(error);
+        setRedirectError(`Saved locally, but the redirect was not updated: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
+  const exportPixelSize = resolveExportPixelSize(exportSettings, printSizeIn);
+
   const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -416,44 +595,213 @@ const App: React.FC = () => {
     setCurrentConfig(prev => ({...prev, ...config}));
   }
 
+  const applyStyleTemplate = (template: StyleTemplate) => {
+    setCurrentConfig(prev => ({ ...prev, ...toStylePatch(template.style) }));
+    setAutoErrorCorrection(false);
+  };
+
   const toggleSection = (section: keyof typeof openSections) => {
     setOpenSections(prev => ({ ...prev, [section]: !prev[section] }));
   }
 
   const handleLoadQRCode = (id: string) => {
     const codeToLoad = savedQRCodes.find(qr => qr.id === id);
-    if (codeToLoad) {
-        setCurrentConfig(codeToLoad);
-        setIsLibraryOpen(false);
-        if (codeToLoad.contentType === 'url') {
-            const storedRaw = codeToLoad.rawUrl?.trim();
+    if (codeToLoad) loadIntoEditor(codeToLoad);
+  };
+
+  const loadIntoEditor = (codeToLoad: QRCodeConfig) => {
+    setCurrentConfig(codeToLoad);
+    setIsLibraryOpen(false);
+    setRedirectError(null);
+    if (codeToLoad.contentType === 'url') {
+        const storedRaw = codeToLoad.rawUrl?.trim();
+        const target = codeToLoad.destination ?? codeToLoad.data;
+        try {
+            const url = new URL(target);
+            const nextParams: UtmParams = {
+                source: url.searchParams.get('utm_source') || utmParams.source,
+                medium: url.searchParams.get('utm_medium') || utmParams.medium,
+                campaign: url.searchParams.get('utm_campaign') || utmParams.campaign,
+                term: url.searchParams.get('utm_term') || utmParams.term,
+                content: url.searchParams.get('utm_content') || utmParams.content,
+            };
+            setUtmParams(nextParams);
+            const containsUtm = Array.from(url.searchParams.keys()).some(key => key.startsWith('utm_'));
+            setAutoUtmEnabled(prev => containsUtm || prev);
+        } catch {
+            // If the stored data cannot be parsed we fall back to previous params.
+        }
+
+        if (storedRaw) {
+            setBaseUrl(storedRaw);
+        } else {
+            setBaseUrl(stripUtmParams(target));
+        }
+    }
+  };
+
+  // Copies sit next to the original. A dynamic copy gets its own short code so the two can point at different destinations.
+  const handleDuplicateQRCode = async (id: string) => {
+    const original = savedQRCodes.find(qr => qr.id === id);
+    if (!original) return;
+    const now = new Date().toISOString();
+    const shortCode = original.isDynamic ? generateShortCode() : undefined;
+    const copy: QRCodeConfig = {
+      ...original,
+      id: `qr-${Date.now()}`,
+      name: copyName(original.name, savedQRCodes),
+      data: shortCode ? buildShortUrl(shortCode) : original.data,
+      shortCode,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setSavedQRCodes(prev => {
+      const index = prev.findIndex(qr => qr.id === id);
+      return index === -1 ? [...prev, copy] : [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+    if (shortCode && copy.destination) {
+      await upsertDynamicLink({ shortCode, codeId: copy.id, destination: copy.destination });
+    }
+  };
+
+  const currentSharedContent = (): SharedContent => {
+    switch (activeContentType) {
+        case 'url': return { type: 'url', baseUrl, autoUtm: autoUtmEnabled, utm: utmParams };
+        case 'text': return { type: 'text', text: textData };
+        case 'phone': return { type: 'phone', phone: phoneNumber };
+        case 'wifi': return { type: 'wifi', wifi: wifiData };
+        case 'email': return { type: 'email', email: emailData };
+        case 'vcard': return { type: 'vcard', vcard: vCardData };
+        case 'sms': return { type: 'sms', sms: smsData };
+        case 'geo': return { type: 'geo', geo: geoData };
+        case 'event': return { type: 'event', event: eventData };
+        case 'crypto': return { type: 'crypto', crypto: cryptoData };
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    try {
+      const { design, logoOmitted } = toSharedDesign(currentConfig.name, currentSharedContent(), currentStyle, brandKit);
+      await navigator.clipboard.writeText(buildShareUrl(await encodeShareLink(design), window.location));
+      setShareNotice(
+        logoOmitted
+          ? { tone: 'warning', message: 'Link copied without the logo. Only brand kit logos can travel in a link; share the logo file separately.' }
+          : { tone: 'info', message: 'Link copied. Anyone opening it gets this exact design in their editor.' }
+      );
+    } catch (error) {
+      console.error(error);
+      setShareNotice({ tone: 'warning', message: `The share link could not be copied: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  };
+
+  const getBackupData = (): BackupData => ({
+    codes: savedQRCodes,
+    revisions,
+    templates: styleTemplates,
+    defaultTemplateId,
+    brandKit,
+    settings: { theme, exportSettings, brandKitEnforced },
+  });
+
+  const handleImportBackup = async (backup: BackupData, options: BackupImportOptions) => {
+    const plan = planImport({ codes: savedQRCodes, revisions }, backup, options.strategy);
+    setSavedQRCodes(plan.codes);
+    setRevisions(plan.revisions);
+    if (options.includeTemplates) {
+      setStyleTemplates(mergeBackupTemplates(styleTemplates, backup.templates, options.strategy));
+      if (backup.defaultTemplateId && (!defaultTemplateId || options.strategy === 'overwrite')) setDefaultTemplateId(backup.defaultTemplateId);
+    }
+    if (options.includeBrandKit && backup.brandKit) setBrandKit(backup.brandKit);
+    if (options.includeSettings) {
+      setTheme(backup.settings.theme);
+      setExportSettings(backup.settings.exportSettings);
+      setBrandKitEnforced(backup.settings.brandKitEnforced);
+    }
+    // Imported dynamic codes only scan to their destination once the redirect service knows their short link.
+    const failed: string[] = [];
+    for (const code of plan.dynamicCodesToRegister) {
+      if (!code.shortCode || !code.destination) continue;
+      try {
+        await upsertDynamicLink({ shortCode: code.shortCode, codeId: code.id, destination: code.destination });
+      } catch (error) {
+        console.error(error);
+        failed.push(code.name);
+      }
+    }
+    const warning = failed.length > 0
+      ? `Imported, but the redirects for ${failed.join(', ')} could not be registered. Save them from the editor to try again.`
+      : undefined;
+    return { plan, warning };
+  };
+
+  // Restoring is itself a save: the library entry takes the old content and style, the history gains a new
+  // revision, and the restored version opens in the editor. Name, folder and tags stay as they are now.
+  const handleRestoreRevision = (codeId: string, revisionId: string) => {
+    const code = savedQRCodes.find(qr => qr.id === codeId);
+    const revision = revisions[codeId]?.find(entry => entry.id === revisionId);
+    if (!code || !revision) return;
+    const restored: QRCodeConfig = {
+      ...revision.config,
+      id: code.id,
+      name: code.name,
+      folder: code.folder,
+      tags: code.tags,
+      createdAt: code.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    setSavedQRCodes(prev => prev.map(qr => (qr.id === codeId ? restored : qr)));
+    setRevisions(prev => appendRevision(prev, restored));
+    loadIntoEditor(restored);
+    syncDynamicLink(restored);
+  };
+
+  // Prefills the matching form from a code decoded out of an uploaded or pasted image.
+  const handleImportDecoded = (detected: DetectedPayload) => {
+    setActiveContentType(detected.type);
+    setRedirectError(null);
+    switch (detected.type) {
+        case 'url': {
             try {
-                const url = new URL(codeToLoad.data);
-                const nextParams: UtmParams = {
-                    source: url.searchParams.get('utm_source') || utmParams.source,
-                    medium: url.searchParams.get('utm_medium') || utmParams.medium,
-                    campaign: url.searchParams.get('utm_campaign') || utmParams.campaign,
-                    term: url.searchParams.get('utm_term') || utmParams.term,
-                    content: url.searchParams.get('utm_content') || utmParams.content,
-                };
-                setUtmParams(nextParams);
+                const url = new URL(detected.data);
                 const containsUtm = Array.from(url.searchParams.keys()).some(key => key.startsWith('utm_'));
-                setAutoUtmEnabled(prev => containsUtm || prev);
+                if (containsUtm) {
+                    setUtmParams({
+                        source: url.searchParams.get('utm_source') ?? '',
+                        medium: url.searchParams.get('utm_medium') ?? '',
+                        campaign: url.searchParams.get('utm_campaign') ?? '',
+                        term: url.searchParams.get('utm_term') ?? '',
+                        content: url.searchParams.get('utm_content') ?? '',
+                    });
+                }
+                setAutoUtmEnabled(containsUtm);
+                setBaseUrl(containsUtm ? stripUtmParams(detected.data) : detected.data);
             } catch {
-                // If the stored data cannot be parsed we fall back to previous params.
-            }
-
-            if (storedRaw) {
-                setBaseUrl(storedRaw);
-            } else {
-                setBaseUrl(stripUtmParams(codeToLoad.data));
+                setAutoUtmEnabled(false);
+                setBaseUrl(detected.data);
             }
+            break;
         }
+        case 'text': setTextData(detected.data); break;
+        case 'wifi': setWifiData(detected.data); break;
+        case 'email': setEmailData(detected.data); break;
+        case 'vcard': setVCardData(detected.data); break;
+        case 'sms': setSmsData(detected.data); break;
+        case 'phone': setPhoneNumber(detected.data); break;
+        case 'geo': setGeoData(detected.data); break;
+        case 'event': setEventData(detected.data); break;
+        case 'crypto': setCryptoData(detected.data); break;
     }
-  };
-
-  const handleDeleteQRCode = (id: string) => {
-      setSavedQRCodes(prev => prev.filter(qr => qr.id !== id));
+    // Like a shared design, the import opens as a new, unsaved code in the current style: saving must not
+    // overwrite the code that was open, or repoint its printed short link at the imported content.
+    setCurrentConfig(prev => ({
+      ...DEFAULT_QR_CODE_CONFIG,
+      ...toStylePatch(pickStyle(prev)),
+      id: `qr-${Date.now()}`,
+      name: 'Imported QR Code',
+      contentType: detected.type,
+      data: prev.data,
+    }));
+    setShareNotice({ tone: 'info', message: `Opened the scanned ${CONTENT_TYPE_LABELS[detected.type].toLowerCase()} as a new code. Save it to keep it in your library.` });
   };
 
   return (
@@ -461,12 +809,23 @@ const App: React.FC = () => {
         <div className="w-full lg:w-3/5 p-6 lg:p-8 overflow-y-auto space-y-6 scrollbar-thin">
             <Header
                 onHistoryClick={() => setIsLibraryOpen(true)}
+                onBatchClick={() => setIsBatchOpen(true)}
+                onImportClick={() => setIsImportOpen(true)}
+                onBrandKitClick={() => setIsBrandKitOpen(true)}
+                onBackupClick={() => setIsBackupOpen(true)}
+                isBrandKitActive={activeBrandKit !== null}
                 onToggleTheme={toggleTheme}
                 theme={theme}
             />
             <ContentTypeTabs activeType={activeContentType} onTypeChange={setActiveContentType} />
             <GlassCard title="Content" isOpen={openSections.content} setIsOpen={() => toggleSection('content')} isCollapsible>
-                <DynamicQRControl isDynamic={currentConfig.isDynamic} onChange={(val) => updateConfig('isDynamic', val)} />
+                <DynamicQRControl
+                    isDynamic={currentConfig.isDynamic}
+                    onChange={(val) => updateConfig('isDynamic', val)}
+                    isSupported={activeContentType === 'url'}
+                    shortUrl={currentConfig.destination ? currentConfig.data : undefined}
+                    error={redirectError}
+                />
                 <div className="mt-4">
                     <AnimatePresence mode="wait">
                         <motion.div key={activeContentType} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} transition={{ duration: 0.2 }} className="space-y-4">
@@ -491,9 +850,29 @@ const App: React.FC = () => {
                                 </div>
                             )}
                             {activeContentType === 'text' && <FormTextarea label="Text" id="text" value={textData} onChange={e => setTextData(e.target.value)} placeholder="Enter your text" />}
-                            {activeContentType === 'wifi' && <div className="space-y-4"> <FormInput label="Network SSID" id="wifi-ssid" value={wifiData.ssid} onChange={e => setWifiData(d => ({...d, ssid: e.target.value}))} /> <FormInput label="Password" id="wifi-password" type="password" value={wifiData.password} onChange={e => setWifiData(d => ({...d, password: e.target.value}))} /> <FormInput label="Encryption" id="wifi-encryption" value={wifiData.encryption} onChange={e => setWifiData(d => ({...d, encryption: e.target.value}))} /> <FormCheckbox label="Hidden Network" id="wifi-hidden" checked={wifiData.isHidden} onChange={e => setWifiData(d => ({...d, isHidden: e.target.checked}))} /> </div>}
+                            {activeContentType === 'wifi' && <div className="space-y-4"> <FormInput label="Network SSID" id="wifi-ssid" value={wifiData.ssid} onChange={e => setWifiData(d => ({...d, ssid: e.target.value}))} /> <FormInput label="Password" id="wifi-password" type="password" value={wifiData.password} onChange={e => setWifiData(d => ({...d, password: e.target.value}))} /> <SegmentedControl label="Security" options={WIFI_SECURITY_OPTIONS} value={normalizeWifiAuthentication(wifiData.encryption)} onChange={encryption => setWifiData(d => ({...d, encryption}))} /> <FormCheckbox label="Hidden Network" id="wifi-hidden" checked={wifiData.isHidden} onChange={e => setWifiData(d => ({...d, isHidden: e.target.checked}))} /> </div>}
                             {activeContentType === 'email' && <div className="space-y-4"> <FormInput label="Email Address" id="email-address" type="email" value={emailData.address} onChange={e => setEmailData(d => ({...d, address: e.target.value}))} placeholder="recipient@example.com" /> <FormInput label="Subject" id="email-subject" value={emailData.subject} onChange={e => setEmailData(d => ({...d, subject: e.target.value}))} /> <FormTextarea label="Body" id="email-body" value={emailData.body} onChange={e => setEmailData(d => ({...d, body: e.target.value}))} rows={4} /> </div>}
-                            {activeContentType === 'vcard' && <div className="grid grid-cols-1 sm:grid-cols-2 gap-4"> <FormInput label="First Name" id="vcard-fn" value={vCardData.firstName} onChange={e => setVCardData(d => ({...d, firstName: e.target.value}))} /> <FormInput label="Last Name" id="vcard-ln" value={vCardData.lastName} onChange={e => setVCardData(d => ({...d, lastName: e.target.value}))} /> <div className="sm:col-span-2"> <FormInput label="Organization" id="vcard-org" value={vCardData.org} onChange={e => setVCardData(d => ({...d, org: e.target.value}))} /> </div> <FormInput label="Phone" id="vcard-phone" type="tel" value={vCardData.phone} onChange={e => setVCardData(d => ({...d, phone: e.target.value}))} /> <FormInput label="Email" id="vcard-email" type="email" value={vCardData.email} onChange={e => setVCardData(d => ({...d, email: e.target.value}))} /> </div>}
+                            {activeContentType === 'vcard' && <VCardEditor data={vCardData} onChange={setVCardData} payload={currentConfig.data} errorCorrectionLevel={currentConfig.errorCorrectionLevel} />}
+                            {activeContentType === 'sms' && (
+                                <div className="space-y-4">
+                                    <FormInput label="Phone Number" id="sms-phone" type="tel" value={smsData.phone} onChange={e => setSmsData(d => ({...d, phone: e.target.value}))} placeholder="+1 555 123 4567" />
+                                    <FormTextarea label="Message" id="sms-message" value={smsData.message} onChange={e => setSmsData(d => ({...d, message: e.target.value}))} rows={3} placeholder="Prefilled text (optional)" />
+                                </div>
+                            )}
+                            {activeContentType === 'phone' && <FormInput label="Phone Number" id="phone-number" type="tel" value={phoneNumber} onChange={e => setPhoneNumber(e.target.value)} placeholder="+1 555 123 4567" />}
+                            {activeContentType === 'geo' && (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <FormInput label="Latitude" id="geo-lat" inputMode="decimal" value={geoData.latitude} onChange={e => setGeoData(d => ({...d, latitude: e.target.value}))} placeholder="40.7128" />
+                                    <FormInput label="Longitude" id="geo-lng" inputMode="decimal" value={geoData.longitude} onChange={e => setGeoData(d => ({...d, longitude: e.target.value}))} placeholder="-74.0060" />
+                                </div>
+                            )}
+                            {activeContentType === 'event' && <EventForm data={eventData} onChange={setEventData} />}
+                            {activeContentType === 'crypto' && <CryptoForm data={cryptoData} onChange={setCryptoData} />}
+                            {structuredContent.error && (
+                                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">
+                                    {structuredContent.error}
+                                </div>
+                            )}
                         </motion.div>
                     </AnimatePresence>
                 </div>
@@ -508,6 +887,14 @@ const App: React.FC = () => {
                             </button>
                         ))}
                     </div>
+                    <StyleTemplates
+                        templates={styleTemplates}
+                        onTemplatesChange={setStyleTemplates}
+                        defaultTemplateId={defaultTemplateId}
+                        onDefaultChange={setDefaultTemplateId}
+                        currentStyle={currentStyle}
+                        onApply={applyStyleTemplate}
+                    />
                 </GlassCard>
             </div>
             
@@ -515,15 +902,21 @@ const App: React.FC = () => {
                 <ColorControls
                     fgColor={currentConfig.fgColor}
                     bgColor={currentConfig.bgColor}
+                    dotsGradient={currentConfig.dotsGradient}
+                    cornersGradient={currentConfig.cornersGradient}
+                    bgGradient={currentConfig.bgGradient}
                     onFgColorChange={(c) => updateConfig('fgColor', c)}
                     onBgColorChange={(c) => updateConfig('bgColor', c)}
+                    onGradientChange={(target, fill) => updateConfig(target, fill)}
                     theme={theme}
+                    palette={kitPalette}
+                    allowTransparent={!activeBrandKit || activeBrandKit.allowTransparentBackground}
                 />
             </GlassCard>
 
             <GlassCard title="Error Correction" isOpen={openSections.errorCorrection} setIsOpen={() => toggleSection('errorCorrection')} isCollapsible>
                 <div className="space-y-4">
-                    <ErrorCorrectionExplanation />
+                    <ErrorCorrectionExplanation choice={errorCorrectionChoice} currentLevel={currentConfig.errorCorrectionLevel} isAuto={autoErrorCorrection} hasLogo={Boolean(currentConfig.image)} />
                     <AutoOptimizeToggle enabled={autoErrorCorrection} onChange={setAutoErrorCorrection} />
                     <SegmentedControl
                         label="Level"
@@ -533,11 +926,11 @@ const App: React.FC = () => {
                         disabled={autoErrorCorrection}
                     />
                     <AnimatePresence>
-                        {currentConfig.image && (currentConfig.errorCorrectionLevel === 'L' || currentConfig.errorCorrectionLevel === 'M') && !autoErrorCorrection && (
+                        {currentConfig.image && !autoErrorCorrection && ERROR_CORRECTION_LEVELS.findIndex(level => level.value === currentConfig.errorCorrectionLevel) < ERROR_CORRECTION_LEVELS.findIndex(level => level.value === errorCorrectionChoice.level) && (
                             <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }}>
                                 <div className="p-3 text-sm bg-yellow-500/10 text-yellow-300 border border-yellow-500/20 rounded-lg flex items-start gap-2">
                                     <InfoIcon className="!text-base mt-0.5 flex-shrink-0" />
-                                    <span>With a logo, a 'High' error correction level is recommended to ensure scannability.</span>
+                                    <span>At this level the logo is drawn smaller to stay recoverable. Auto-Optimize would use {ERROR_CORRECTION_LEVELS.find(level => level.value === errorCorrectionChoice.level)?.label} for this logo and content.</span>
                                 </div>
                             </motion.div>
                         )}
@@ -548,7 +941,7 @@ const App: React.FC = () => {
             <GlassCard title="Shape & Style" isOpen={openSections.shape} setIsOpen={() => toggleSection('shape')} isCollapsible>
                 <VisualSegmentedControl
                     label="Dot Style"
-                    options={DOT_STYLES}
+                    options={kitOptions(DOT_STYLES, activeBrandKit?.dotTypes)}
                     value={currentConfig.dotType}
                     onChange={(v) => updateConfig('dotType', v as DotType)}
                     gridCols="grid-cols-1 sm:grid-cols-2"
@@ -563,14 +956,14 @@ const App: React.FC = () => {
                 <FinderPatternPreview
                     outer={currentConfig.cornerSquareType}
                     inner={currentConfig.cornerDotType}
-                    fgColor={currentConfig.fgColor}
+                    colors={resolveFinderColors(currentConfig, theme)}
                     bgColor={currentConfig.bgColor}
                     theme={theme}
                 />
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                     <VisualSegmentedControl
                         label="Outer Eye"
-                        options={CORNER_SQUARE_STYLES}
+                        options={kitOptions(CORNER_SQUARE_STYLES, activeBrandKit?.cornerSquareTypes)}
                         value={currentConfig.cornerSquareType}
                         onChange={(v) => updateConfig('cornerSquareType', v as CornerSquareType)}
                         gridCols="grid-cols-1 sm:grid-cols-2"
@@ -585,7 +978,7 @@ const App: React.FC = () => {
                     />
                     <VisualSegmentedControl
                         label="Inner Eye"
-                        options={CORNER_DOT_STYLES}
+                        options={kitOptions(CORNER_DOT_STYLES, activeBrandKit?.cornerDotTypes)}
                         value={currentConfig.cornerDotType}
                         onChange={(v) => updateConfig('cornerDotType', v as CornerDotType)}
                         gridCols="grid-cols-1 sm:grid-cols-2"
@@ -599,17 +992,27 @@ const App: React.FC = () => {
                         )}
                     />
                 </div>
+                <FinderColorControls
+                    config={currentConfig}
+                    fallbackColor={resolveThemeColors(currentConfig.fgColor, currentConfig.bgColor, theme).resolvedFgColor}
+                    onChange={updateConfig}
+                    palette={kitPalette}
+                />
             </GlassCard>
 
             <GlassCard title="Logo" isOpen={openSections.logo} setIsOpen={() => toggleSection('logo')} isCollapsible>
-                <LogoUpload image={currentConfig.image} onUpload={handleLogoUpload} onRemove={() => updateConfig('image', undefined)} />
+                {activeBrandKit && activeBrandKit.logos.length > 0 ? (
+                    <KitLogoPicker image={currentConfig.image} logos={activeBrandKit.logos} onSelect={image => updateConfig('image', image)} onRemove={() => updateConfig('image', undefined)} />
+                ) : (
+                    <LogoUpload image={currentConfig.image} onUpload={handleLogoUpload} onRemove={() => updateConfig('image', undefined)} />
+                )}
             </GlassCard>
             <GlassCard title="Settings" isOpen={openSections.settings} setIsOpen={() => toggleSection('settings')} isCollapsible>
                 <div className="space-y-3 text-sm text-gray-300">
                     <p className="text-gray-400">Access analytics and advanced tracking utilities.</p>
                     <button
                         type="button"
-                        onClick={() => setIsAnalyticsOpen(true)}
+                        onClick={() => setAnalyticsCodeId(currentConfig.id)}
                         className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-indigo-400/30 bg-indigo-500/10 text-indigo-200 hover:bg-indigo-500/20 transition-colors"
                     >
                         <MaterialIcon name="dashboard" className="!text-base" />
@@ -622,19 +1025,41 @@ const App: React.FC = () => {
             <div className="w-full max-w-sm">
                 <div className="flex items-center justify-between mb-4">
                     <h2 className="text-lg font-semibold">Live Preview</h2>
-                    <p className="text-xs text-gray-400">Updates automatically</p>
+                    <div className="flex items-center gap-1">
+                        <button onClick={styleHistory.undo} disabled={!styleHistory.canUndo} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors" aria-label="Undo style change" title="Undo (Ctrl+Z)">
+                            <MaterialIcon name="undo" className="!text-lg" />
+                        </button>
+                        <button onClick={styleHistory.redo} disabled={!styleHistory.canRedo} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors" aria-label="Redo style change" title="Redo (Ctrl+Shift+Z)">
+                            <MaterialIcon name="redo" className="!text-lg" />
+                        </button>
+                        <button onClick={handleCopyShareLink} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors" aria-label="Copy share link" title="Copy a link to this design">
+                            <MaterialIcon name="share" className="!text-lg" />
+                        </button>
+                    </div>
                 </div>
+                {shareNotice && (
+                    <div
+                        role={shareNotice.tone === 'warning' ? 'alert' : 'status'}
+                        className={`mb-4 flex items-start gap-2 text-xs rounded-lg px-3 py-2 border ${shareNotice.tone === 'warning' ? 'text-amber-200 bg-amber-500/10 border-amber-400/20' : 'text-indigo-200 bg-indigo-500/10 border-indigo-400/20'}`}
+                    >
+                        <span className="flex-1">{shareNotice.message}</span>
+                        <button onClick={() => setShareNotice(null)} className="opacity-70 hover:opacity-100" aria-label="Dismiss share notice">
+                            <RemoveIcon />
+                        </button>
+                    </div>
+                )}
                 <div className="glass-card border rounded-2xl backdrop-blur-xl flex justify-center items-center mb-6 shadow-lg p-6 aspect-square">
                     <motion.div key={currentConfig.id + JSON.stringify(currentConfig)} initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} transition={{ duration: 0.3 }} className="rounded-lg">
-                        <QRCodePreview config={currentConfig} qrRef={qrRef} theme={theme} />
+                        <QRCodePreview config={currentConfig} theme={theme} />
                     </motion.div>
                 </div>
                 <div className="glass-card border rounded-2xl backdrop-blur-xl mb-6 text-sm p-4">
                     <h3 className="font-semibold mb-3">QR Code Details</h3>
                     <div className="space-y-2">
                         <div className="flex justify-between"><span className="text-gray-400">Type:</span> <span className="font-medium capitalize">{currentConfig.contentType}</span></div>
-                        <div className="flex justify-between"><span className="text-gray-400">Size:</span> <span className="font-medium">256x256px</span></div>
-                        <ScanabilityIndicator fgColor={currentConfig.fgColor} bgColor={currentConfig.bgColor} theme={theme} />
+                        <div className="flex justify-between"><span className="text-gray-400">Size:</span> <span className="font-medium">{exportPixelSize}x{exportPixelSize}px @ {exportSettings.dpi} DPI</span></div>
+                        <CapacityIndicator payload={currentConfig.data} level={currentConfig.errorCorrectionLevel} />
+                        <ScanabilityIndicator fgColor={readiness.metrics.worstPair?.fg ?? currentConfig.fgColor} bgColor={readiness.metrics.worstPair?.bg ?? currentConfig.bgColor} theme={theme} />
                     </div>
                 </div>
                 <div className="mb-6">
@@ -646,6 +1071,7 @@ const App: React.FC = () => {
                     >
                         <ScanReadinessCard
                             readiness={readiness}
+                            selfTest={selfTest}
                             scanDistanceFt={scanDistanceFt}
                             onScanDistanceChange={setScanDistanceFt}
                             printSizeIn={printSizeIn}
@@ -654,15 +1080,24 @@ const App: React.FC = () => {
                         />
                     </GlassCard>
                 </div>
-                <div className="grid grid-cols-4 gap-3 mt-2">
-                    <ActionButton onClick={() => handleDownload('png')} icon={<DownloadIcon />} text="PNG" isPrimary />
-                    <ActionButton onClick={() => handleDownload('jpeg')} text="JPEG" />
-                    <ActionButton onClick={() => handleDownload('svg')} text="SVG" />
+                <div className="grid grid-cols-5 gap-3 mt-2">
+                    <ActionButton onClick={() => setExportFormat('png')} icon={<DownloadIcon />} text="PNG" isPrimary />
+                    <ActionButton onClick={() => setExportFormat('jpeg')} text="JPEG" />
+                    <ActionButton onClick={() => setExportFormat('svg')} text="SVG" />
+                    <ActionButton onClick={() => setIsPdfOpen(true)} text="PDF" />
                     <ActionButton onClick={() => setIsScanModalOpen(true)} icon={<CameraIcon />} text="Test" />
                 </div>
                 <button onClick={handleSave} className="theme-button theme-button-primary mt-4 w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium rounded-xl transition-colors">
                     <SaveIcon /> <span>Save QR Code</span>
                 </button>
+                {library.error && (
+                    <div role="alert" className="mt-3 flex items-start gap-2 text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">
+                        <span className="flex-1">{library.error}</span>
+                        <button onClick={library.dismissError} className="text-amber-200/70 hover:text-amber-100" aria-label="Dismiss storage error">
+                            <RemoveIcon />
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
 
@@ -670,8 +1105,66 @@ const App: React.FC = () => {
             isOpen={isLibraryOpen}
             onClose={() => setIsLibraryOpen(false)}
             savedQRCodes={savedQRCodes}
+            isLoading={library.isLoading}
+            onCodesChange={setSavedQRCodes}
             onLoad={handleLoadQRCode}
-            onDelete={handleDeleteQRCode}
+            onDuplicate={handleDuplicateQRCode}
+            revisions={revisions}
+            onRestoreRevision={handleRestoreRevision}
+            onViewAnalytics={(id) => {
+                setIsLibraryOpen(false);
+                setAnalyticsCodeId(id);
+            }}
+            theme={theme}
+            printSizeIn={printSizeIn}
+        />
+        <BatchGenerator
+            isOpen={isBatchOpen}
+            onClose={() => setIsBatchOpen(false)}
+            styleConfig={currentConfig}
+            theme={theme}
+            printSizeIn={printSizeIn}
+        />
+        <ExportDialog
+            isOpen={exportFormat !== null}
+            onClose={() => setExportFormat(null)}
+            config={currentConfig}
+            theme={theme}
+            initialFormat={exportFormat ?? 'png'}
+            settings={exportSettings}
+            onSettingsChange={setExportSettings}
+            printSizeIn={printSizeIn}
+            onPrintSizeChange={setPrintSizeIn}
+            moduleCount={moduleCount}
+        />
+        <PdfExportDialog
+            isOpen={isPdfOpen}
+            onClose={() => setIsPdfOpen(false)}
+            codes={[currentConfig]}
+            printSizeIn={printSizeIn}
+            fileName={currentConfig.name}
+        />
+        <BrandKitDialog
+            isOpen={isBrandKitOpen}
+            onClose={() => setIsBrandKitOpen(false)}
+            kit={brandKit}
+            onKitChange={setBrandKit}
+            enforced={brandKitEnforced}
+            onEnforcedChange={setBrandKitEnforced}
+            currentConfig={currentConfig}
+        />
+        <BackupDialog
+            isOpen={isBackupOpen}
+            onClose={() => setIsBackupOpen(false)}
+            codes={savedQRCodes}
+            isLibraryLoading={library.isLoading}
+            getBackupData={getBackupData}
+            onImport={handleImportBackup}
+        />
+        <ImageDecoder
+            isOpen={isImportOpen}
+            onClose={() => setIsImportOpen(false)}
+            onApply={handleImportDecoded}
         />
         <ScanPreviewModal
             isOpen={isScanModalOpen}
@@ -679,9 +1172,16 @@ const App: React.FC = () => {
             expectedData={currentConfig.data}
         />
         <AnalyticsModal
-            isOpen={isAnalyticsOpen}
-            onClose={() => setIsAnalyticsOpen(false)}
+            isOpen={analyticsCodeId !== null}
+            onClose={() => setAnalyticsCodeId(null)}
+            codeName={analyticsCode?.name ?? currentConfig.name}
+            range={analyticsRange}
+            onRangeChange={setAnalyticsRange}
             data={analyticsInsights}
+            isLoading={scanEvents.isLoading}
+            notice={analyticsNotice}
+            costs={campaignCosts}
+            onCostsChange={setCampaignCosts}
         />
     </div>
   );
@@ -691,9 +1191,14 @@ const App: React.FC = () => {
 
 const Header: React.FC<{
     onHistoryClick: () => void;
+    onBatchClick: () => void;
+    onImportClick: () => void;
+    onBrandKitClick: () => void;
+    onBackupClick: () => void;
+    isBrandKitActive: boolean;
     onToggleTheme: () => void;
     theme: Theme;
-}> = ({ onHistoryClick, onToggleTheme, theme }) => (
+}> = ({ onHistoryClick, onBatchClick, onImportClick, onBrandKitClick, onBackupClick, isBrandKitActive, onToggleTheme, theme }) => (
     <header className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
             <LogoIcon />
@@ -706,6 +1211,10 @@ const Header: React.FC<{
             <GlassButton onClick={onToggleTheme} aria-label="Toggle theme">
                 <MaterialIcon name={theme === 'light' ? 'dark_mode' : 'light_mode'} />
             </GlassButton>
+            <GlassButton onClick={onBatchClick} aria-label="Batch generate from CSV"><MaterialIcon name="dataset" /></GlassButton>
+            <GlassButton onClick={onImportClick} aria-label="Import QR code from image"><MaterialIcon name="qr_code_scanner" /></GlassButton>
+            <GlassButton onClick={onBrandKitClick} aria-label="Brand kit" className={isBrandKitActive ? 'text-indigo-300' : ''}><MaterialIcon name={isBrandKitActive ? 'verified' : 'palette'} /></GlassButton>
+            <GlassButton onClick={onBackupClick} aria-label="Backup and restore"><MaterialIcon name="settings_backup_restore" /></GlassButton>
             <GlassButton onClick={onHistoryClick} aria-label="Open history"><HistoryIcon /></GlassButton>
             <GlassButton aria-label="Account"><AccountIcon /></GlassButton>
         </div>
@@ -746,42 +1255,73 @@ const LibraryModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
     savedQRCodes: QRCodeConfig[];
+    isLoading: boolean;
+    onCodesChange: React.Dispatch<React.SetStateAction<QRCodeConfig[]>>;
     onLoad: (id: string) => void;
-    onDelete: (id: string) => void;
-}> = ({ isOpen, onClose, savedQRCodes, onLoad, onDelete }) => (
-    <AnimatePresence>
-        {isOpen && (
-            <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                exit={{ opacity: 0 }}
-                transition={{ duration: 0.3 }}
-                className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
-                onClick={onClose}
-            >
-                <motion.div
-                    initial={{ opacity: 0, scale: 0.95, y: 20 }}
-                    animate={{ opacity: 1, scale: 1, y: 0 }}
-                    exit={{ opacity: 0, scale: 0.95, y: 20 }}
-                    transition={{ duration: 0.2, ease: 'easeOut' }}
-                    className="w-full max-w-md bg-gray-900/80 backdrop-blur-lg border border-gray-700/50 rounded-2xl shadow-2xl flex flex-col"
-                    style={{ maxHeight: '80vh' }}
-                    onClick={e => e.stopPropagation()}
-                >
-                    <div className="flex justify-between items-center p-4 border-b border-white/10 flex-shrink-0">
-                        <h2 className="text-lg font-semibold text-white">My QR Codes</h2>
-                        <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-white/10 transition-colors">
-                            <MaterialIcon name="close" />
-                        </button>
-                    </div>
-                    <div className="p-4 overflow-y-auto">
-                        <Library savedQRCodes={savedQRCodes} onLoad={onLoad} onDelete={onDelete} />
-                    </div>
-                </motion.div>
-            </motion.div>
-        )}
-    </AnimatePresence>
-);
+    onDuplicate: (id: string) => Promise<void>;
+    onViewAnalytics: (id: string) => void;
+    revisions: RevisionsByCode;
+    onRestoreRevision: (codeId: string, revisionId: string) => void;
+    theme: Theme;
+    printSizeIn: number;
+}> = ({ isOpen, onClose, savedQRCodes, isLoading, onCodesChange, onLoad, onDuplicate, onViewAnalytics, revisions, onRestoreRevision, theme, printSizeIn }) => {
+    const [pdfCodes, setPdfCodes] = useState<QRCodeConfig[] | null>(null);
+
+    return (
+        <>
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        transition={{ duration: 0.3 }}
+                        className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+                        onClick={onClose}
+                    >
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                            animate={{ opacity: 1, scale: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                            transition={{ duration: 0.2, ease: 'easeOut' }}
+                            className="w-full max-w-2xl bg-gray-900/80 backdrop-blur-lg border border-gray-700/50 rounded-2xl shadow-2xl flex flex-col"
+                            style={{ maxHeight: '85vh' }}
+                            onClick={e => e.stopPropagation()}
+                        >
+                            <div className="flex justify-between items-center p-4 border-b border-white/10 flex-shrink-0">
+                                <h2 className="text-lg font-semibold text-white">My QR Codes</h2>
+                                <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:bg-white/10 transition-colors">
+                                    <MaterialIcon name="close" />
+                                </button>
+                            </div>
+                            <div className="p-4 overflow-y-auto">
+                                <Library
+                                    savedQRCodes={savedQRCodes}
+                                    isLoading={isLoading}
+                                    onCodesChange={onCodesChange}
+                                    onLoad={onLoad}
+                                    onDuplicate={onDuplicate}
+                                    onViewAnalytics={onViewAnalytics}
+                                    revisions={revisions}
+                                    onRestoreRevision={onRestoreRevision}
+                                    onExportPdf={setPdfCodes}
+                                    theme={theme}
+                                />
+                            </div>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+            <PdfExportDialog
+                isOpen={isOpen && pdfCodes !== null}
+                onClose={() => setPdfCodes(null)}
+                codes={pdfCodes ?? []}
+                printSizeIn={printSizeIn}
+                fileName="qr-library"
+            />
+        </>
+    );
+};
 
 const ScanPreviewModal: React.FC<{
     isOpen: boolean;
@@ -986,7 +1526,18 @@ const ScanPreviewModal: React.FC<{
     );
 };
 
-const AnalyticsModal: React.FC<{ isOpen: boolean; onClose: () => void; data: AnalyticsData; }> = ({ isOpen, onClose, data }) => (
+const AnalyticsModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    codeName: string;
+    range: AnalyticsRange;
+    onRangeChange: (range: AnalyticsRange) => void;
+    data: AnalyticsData;
+    isLoading: boolean;
+    notice: string | null;
+    costs: CampaignCosts;
+    onCostsChange: (costs: CampaignCosts) => void;
+}> = ({ isOpen, onClose, codeName, range, onRangeChange, data, isLoading, notice, costs, onCostsChange }) => (
     <AnimatePresence>
         {isOpen && (
             <motion.div
@@ -1005,15 +1556,21 @@ const AnalyticsModal: React.FC<{ isOpen: boolean; onClose: () => void; data: Ana
                 >
                     <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 text-sm text-gray-300">
                         <div>
-                            <p className="text-base font-semibold text-white">Analytics Dashboard</p>
-                            <p className="text-xs text-gray-400">Track scans, conversions, and ROI. Connect GA4 or a marketing platform when ready.</p>
+                            <p className="text-base font-semibold text-white">Analytics · {codeName}</p>
+                            <p className="text-xs text-gray-400">{isLoading ? 'Loading scan events…' : 'Scans recorded by the redirect service for this code.'}</p>
                         </div>
                         <button onClick={onClose} className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors">
                             <MaterialIcon name="close" />
                         </button>
                     </div>
                     <div className="p-6 overflow-y-auto max-h-[calc(90vh-4.5rem)]">
-                        <AnalyticsPanel data={data} />
+                        <AnalyticsRangePicker range={range} onChange={onRangeChange} />
+                        {notice && (
+                            <div className="mb-4 text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">
+                                {notice}
+                            </div>
+                        )}
+                        <AnalyticsPanel data={data} costs={costs} onCostsChange={onCostsChange} />
                     </div>
                 </motion.div>
             </motion.div>
@@ -1022,11 +1579,11 @@ const AnalyticsModal: React.FC<{ isOpen: boolean; onClose: () => void; data: Ana
 );
 
 
-const contentTypes: { id: ContentType, label: string, icon: React.ReactNode }[] = [ { id: 'url', label: 'URL', icon: <LinkIcon /> }, { id: 'text', label: 'Text', icon: <TextIcon /> }, { id: 'wifi', label: 'WiFi', icon: <WifiIcon /> }, { id: 'vcard', label: 'vCard', icon: <VCardIcon /> }, { id: 'email', label: 'Email', icon: <EmailIcon /> },]
+const contentTypes: { id: ContentType, label: string, icon: React.ReactNode }[] = [ { id: 'url', label: 'URL', icon: <LinkIcon /> }, { id: 'text', label: 'Text', icon: <TextIcon /> }, { id: 'wifi', label: 'WiFi', icon: <WifiIcon /> }, { id: 'vcard', label: 'vCard', icon: <VCardIcon /> }, { id: 'email', label: 'Email', icon: <EmailIcon /> }, { id: 'sms', label: 'SMS', icon: <SmsIcon /> }, { id: 'phone', label: 'Phone', icon: <PhoneIcon /> }, { id: 'geo', label: 'Location', icon: <GeoIcon /> }, { id: 'event', label: 'Event', icon: <EventIcon /> }, { id: 'crypto', label: 'Crypto', icon: <CryptoIcon /> },]
 const ContentTypeTabs: React.FC<{activeType: ContentType; onTypeChange: (type: ContentType) => void;}> = ({ activeType, onTypeChange }) => (
-    <div className="flex space-x-1 p-1 rounded-xl bg-white/5 backdrop-blur-xl border border-white/10">
+    <div className="grid grid-cols-3 sm:grid-cols-5 gap-1 p-1 rounded-xl bg-white/5 backdrop-blur-xl border border-white/10">
         {contentTypes.map(({ id, label, icon }) => (
-            <button key={id} onClick={() => onTypeChange(id)} className={`relative flex-1 flex items-center justify-center space-x-2 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${ activeType !== id ? 'text-gray-300 hover:bg-white/10' : 'text-black'}`}>
+            <button key={id} onClick={() => onTypeChange(id)} className={`relative flex items-center justify-center space-x-2 py-2 px-3 rounded-lg text-sm font-medium transition-colors ${ activeType !== id ? 'text-gray-300 hover:bg-white/10' : 'text-black'}`}>
                 {activeType === id && <motion.div layoutId="active-content-type" className="absolute inset-0 bg-[#F3F3F3] rounded-lg shadow-sm" />}
                 <span className="relative z-10">{icon}</span>
                 <span className="relative z-10">{label}</span>
@@ -1035,23 +1592,99 @@ const ContentTypeTabs: React.FC<{activeType: ContentType; onTypeChange: (type: C
     </div>
 );
 
-const DynamicQRControl: React.FC<{isDynamic: boolean; onChange: (isDynamic: boolean) => void;}> = ({ isDynamic, onChange }) => (
-    <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-            <div>
-                <h4 className="font-semibold text-white">Dynamic QR Code</h4>
-                <p className="text-sm text-gray-400">Track scans and update content later.</p>
-            </div>
-            <div className="relative group">
-                <InfoIcon />
-                <div className="absolute bottom-full mb-2 w-64 p-2 text-xs bg-gray-900 border border-gray-700 rounded-md text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none -translate-x-1/2 left-1/2 z-10">
-                    Dynamic codes allow you to change the destination URL and track scan analytics. Static codes are fixed and cannot be changed after creation.
+const DynamicQRControl: React.FC<{
+    isDynamic: boolean;
+    onChange: (isDynamic: boolean) => void;
+    isSupported: boolean;
+    shortUrl?: string;
+    error?: string | null;
+}> = ({ isDynamic, onChange, isSupported, shortUrl, error }) => (
+    <div className="space-y-3">
+        <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+                <div>
+                    <h4 className="font-semibold text-white">Dynamic QR Code</h4>
+                    <p className="text-sm text-gray-400">Track scans and update content later.</p>
+                </div>
+                <div className="relative group">
+                    <InfoIcon />
+                    <div className="absolute bottom-full mb-2 w-64 p-2 text-xs bg-gray-900 border border-gray-700 rounded-md text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none -translate-x-1/2 left-1/2 z-10">
+                        Dynamic codes allow you to change the destination URL and track scan analytics. Static codes are fixed and cannot be changed after creation.
+                    </div>
                 </div>
             </div>
+            <button onClick={() => onChange(!isDynamic)} className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${isDynamic ? 'bg-indigo-500' : 'bg-white/10'}`}>
+                <motion.span layout className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform m-1 ${isDynamic ? 'translate-x-5' : 'translate-x-0'}`} />
+            </button>
         </div>
-        <button onClick={() => onChange(!isDynamic)} className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${isDynamic ? 'bg-indigo-500' : 'bg-white/10'}`}>
-            <motion.span layout className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform m-1 ${isDynamic ? 'translate-x-5' : 'translate-x-0'}`} />
-        </button>
+        {isDynamic && !isSupported && (
+            <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">
+                Redirects only work for URL codes — this code is encoded statically.
+            </div>
+        )}
+        {isDynamic && isSupported && shortUrl && (
+            <div className="p-2 rounded-lg bg-indigo-500/10 border border-indigo-500/20 text-[0.7rem] text-indigo-100 break-all">
+                <span className="text-gray-400">Encodes:</span>
+                <span className="ml-2 text-white">{shortUrl}</span>
+                <p className="mt-1 text-gray-400">The destination is registered on the redirect service when you save.</p>
+            </div>
+        )}
+        {error && (
+            <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">
+                {error}
+            </div>
+        )}
+    </div>
+);
+
+const EventForm: React.FC<{ data: EventData; onChange: React.Dispatch<React.SetStateAction<EventData>> }> = ({ data, onChange }) => {
+    // All-day events use date inputs; keep the date part when toggling so the user does not lose it.
+    const toggleAllDay = (allDay: boolean) => onChange(d => ({
+        ...d,
+        allDay,
+        start: allDay ? d.start.slice(0, 10) : d.start && `${d.start.slice(0, 10)}T09:00`,
+        end: allDay ? d.end.slice(0, 10) : d.end && `${d.end.slice(0, 10)}T10:00`,
+    }));
+    const inputType = data.allDay ? 'date' : 'datetime-local';
+    return (
+        <div className="space-y-4">
+            <FormInput label="Title" id="event-title" value={data.title} onChange={e => onChange(d => ({...d, title: e.target.value}))} placeholder="Product launch" />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormInput label="Starts" id="event-start" type={inputType} value={data.start} onChange={e => onChange(d => ({...d, start: e.target.value}))} />
+                <FormInput label="Ends" id="event-end" type={inputType} value={data.end} onChange={e => onChange(d => ({...d, end: e.target.value}))} />
+            </div>
+            <FormCheckbox label="All-day event" id="event-all-day" checked={data.allDay} onChange={e => toggleAllDay(e.target.checked)} />
+            <FormInput label="Location" id="event-location" value={data.location} onChange={e => onChange(d => ({...d, location: e.target.value}))} />
+            <FormTextarea label="Description" id="event-description" value={data.description} onChange={e => onChange(d => ({...d, description: e.target.value}))} rows={3} />
+            {!data.allDay && <p className="text-xs text-gray-400">Times are saved in UTC and shown in each scanner's own time zone.</p>}
+        </div>
+    );
+};
+
+const WIFI_SECURITY_OPTIONS: { value: WifiAuthentication; label: string; description: string }[] = [
+    { value: 'WPA', label: 'WPA/WPA2/WPA3', description: 'Most networks' },
+    { value: 'WEP', label: 'WEP', description: 'Legacy' },
+    { value: 'nopass', label: 'None', description: 'Open network' },
+];
+
+const CRYPTO_NETWORKS: { value: CryptoNetwork; label: string; description: string }[] = [
+    { value: 'bitcoin', label: 'Bitcoin', description: 'BIP 21 payment URI' },
+    { value: 'ethereum', label: 'Ethereum', description: 'EIP-681 payment request' },
+];
+
+const CryptoForm: React.FC<{ data: CryptoData; onChange: React.Dispatch<React.SetStateAction<CryptoData>> }> = ({ data, onChange }) => (
+    <div className="space-y-4">
+        <SegmentedControl label="Network" options={CRYPTO_NETWORKS} value={data.network} onChange={network => onChange(d => ({...d, network}))} />
+        <FormInput label="Wallet Address" id="crypto-address" value={data.address} onChange={e => onChange(d => ({...d, address: e.target.value}))} placeholder={data.network === 'bitcoin' ? 'bc1q…' : '0x…'} spellCheck={false} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormInput label={`Amount (${data.network === 'bitcoin' ? 'BTC' : 'ETH'}, optional)`} id="crypto-amount" inputMode="decimal" value={data.amount} onChange={e => onChange(d => ({...d, amount: e.target.value}))} placeholder="0.01" />
+            {data.network === 'ethereum'
+                ? <FormInput label="Chain ID (optional)" id="crypto-chain" inputMode="numeric" value={data.chainId} onChange={e => onChange(d => ({...d, chainId: e.target.value}))} placeholder="1 (mainnet)" />
+                : <FormInput label="Label (optional)" id="crypto-label" value={data.label} onChange={e => onChange(d => ({...d, label: e.target.value}))} placeholder="Store name" />}
+        </div>
+        {data.network === 'bitcoin' && (
+            <FormInput label="Message (optional)" id="crypto-message" value={data.message} onChange={e => onChange(d => ({...d, message: e.target.value}))} placeholder="Order #1234" />
+        )}
     </div>
 );
 
@@ -1076,30 +1709,195 @@ const FormCheckbox: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { lab
     </div>
 );
 
-const ColorControls: React.FC<{ fgColor: string; bgColor: string; onFgColorChange: (c: string) => void; onBgColorChange: (c: string) => void; theme: Theme; }> = ({ fgColor, bgColor, onFgColorChange, onBgColorChange, theme }) => (
-    <div className="flex space-x-4">
-        <ColorInput label="Foreground" color={fgColor} onChange={onFgColorChange} theme={theme} />
-        <ColorInput label="Background" color={bgColor} onChange={onBgColorChange} theme={theme} />
-    </div>
-);
+type GradientTarget = 'dotsGradient' | 'cornersGradient' | 'bgGradient';
+
+const ColorControls: React.FC<{
+    fgColor: string;
+    bgColor: string;
+    dotsGradient?: GradientFill;
+    cornersGradient?: GradientFill;
+    bgGradient?: GradientFill;
+    onFgColorChange: (c: string) => void;
+    onBgColorChange: (c: string) => void;
+    onGradientChange: (target: GradientTarget, fill: GradientFill | undefined) => void;
+    theme: Theme;
+    // Set when a brand kit is enforced: every picker offers only these colors.
+    palette?: string[];
+    allowTransparent?: boolean;
+}> = ({ fgColor, bgColor, dotsGradient, cornersGradient, bgGradient, onFgColorChange, onBgColorChange, onGradientChange, theme, palette, allowTransparent = true }) => {
+    const solidBg = bgColor === 'transparent' ? '#FFFFFF' : bgColor;
+    const stopDefaults = (from: string, to: string): [string, string] => (palette ? [palette[0], palette[1] ?? palette[0]] : [from, to]);
+    return (
+        <div className="space-y-4">
+            <div className="flex space-x-4">
+                <ColorInput label="Foreground" color={fgColor} onChange={onFgColorChange} theme={theme} palette={palette} allowTransparent={allowTransparent} />
+                <ColorInput label="Background" color={bgColor} onChange={onBgColorChange} theme={theme} palette={palette} allowTransparent={allowTransparent} />
+            </div>
+            <GradientControl label="Dots" fill={dotsGradient} defaultStops={stopDefaults(fgColor, '#4338CA')} palette={palette} onChange={fill => onGradientChange('dotsGradient', fill)} />
+            <GradientControl label="Eyes" fill={cornersGradient} defaultStops={stopDefaults(fgColor, '#4338CA')} palette={palette} onChange={fill => onGradientChange('cornersGradient', fill)} />
+            <GradientControl label="Background" fill={bgGradient} defaultStops={stopDefaults(solidBg, '#E0E7FF')} palette={palette} onChange={fill => onGradientChange('bgGradient', fill)} />
+        </div>
+    );
+};
+
+const SwatchPicker: React.FC<{ color: string; onChange: (c: string) => void; label: string; palette?: string[]; className?: string; }> = ({ color, onChange, label, palette, className = 'w-6 h-6' }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    if (!palette) {
+        return (
+            <label className={`relative shrink-0 rounded-md border border-white/10 cursor-pointer ${className}`} style={{ backgroundColor: color }}>
+                <input
+                    type="color"
+                    value={color}
+                    onChange={e => onChange(e.target.value)}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                    aria-label={`${label} color`}
+                />
+            </label>
+        );
+    }
+    return (
+        <div className="relative shrink-0">
+            <button type="button" onClick={() => setIsOpen(open => !open)} className={`block rounded-md border border-white/10 ${className}`} style={{ backgroundColor: color }} aria-label={`${label} color`} />
+            {isOpen && (
+                <div className="absolute z-20 top-full left-0 mt-1 w-40 p-2 flex flex-wrap gap-1.5 rounded-lg bg-[#0b1324] border border-white/10 shadow-xl">
+                    {palette.map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            title={option.toUpperCase()}
+                            onClick={() => {
+                                onChange(option);
+                                setIsOpen(false);
+                            }}
+                            className={`w-6 h-6 rounded-md border border-white/10 ${option.toLowerCase() === color.toLowerCase() ? 'ring-2 ring-indigo-400' : ''}`}
+                            style={{ backgroundColor: option }}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const GRADIENT_MODES: { value: GradientType | 'solid'; label: string }[] = [
+    { value: 'solid', label: 'Solid' },
+    { value: 'linear', label: 'Linear' },
+    { value: 'radial', label: 'Radial' },
+];
+
+const GradientControl: React.FC<{ label: string; fill?: GradientFill; defaultStops: [string, string]; palette?: string[]; onChange: (fill: GradientFill | undefined) => void; }> = ({ label, fill, defaultStops, palette, onChange }) => {
+    const mode = fill?.type ?? 'solid';
+    const setMode = (value: GradientType | 'solid') => {
+        if (value === 'solid') onChange(undefined);
+        else onChange(fill ? { ...fill, type: value } : createGradient(value, defaultStops[0], defaultStops[1]));
+    };
+    const updateStop = (index: number, patch: Partial<GradientFill['colorStops'][number]>) => {
+        if (!fill) return;
+        onChange({ ...fill, colorStops: fill.colorStops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)) });
+    };
+    const addStop = () => {
+        if (!fill) return;
+        const last = fill.colorStops[fill.colorStops.length - 1];
+        onChange({ ...fill, colorStops: [...fill.colorStops, { offset: 0.5, color: last.color }] });
+    };
+
+    return (
+        <div className="p-3 rounded-lg bg-black/20 border border-white/10 space-y-3">
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-400">{label}</span>
+                <div className="flex gap-1">
+                    {GRADIENT_MODES.map(option => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => setMode(option.value)}
+                            className={`px-2.5 py-1 rounded-md text-xs transition-colors ${mode === option.value ? 'bg-indigo-500 text-white font-semibold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {fill && (
+                <>
+                    <div className="h-6 rounded-md border border-white/10" style={{ backgroundImage: toCssGradient(fill) }} />
+                    {fill.colorStops.map((stop, index) => (
+                        <div key={index} className="flex items-center gap-3">
+                            <SwatchPicker color={stop.color} onChange={color => updateStop(index, { color })} label={`${label} stop ${index + 1}`} palette={palette} />
+                            <span className="w-20 text-xs font-mono text-gray-300">{stop.color.toUpperCase()}</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={Math.round(stop.offset * 100)}
+                                onChange={e => updateStop(index, { offset: parseInt(e.target.value, 10) / 100 })}
+                                className="flex-1 accent-indigo-500"
+                                aria-label={`${label} stop ${index + 1} position`}
+                            />
+                            <span className="w-10 text-right text-xs text-gray-400">{Math.round(stop.offset * 100)}%</span>
+                            <button
+                                type="button"
+                                onClick={() => onChange({ ...fill, colorStops: fill.colorStops.filter((_, i) => i !== index) })}
+                                disabled={fill.colorStops.length <= MIN_GRADIENT_STOPS}
+                                className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                                aria-label={`Remove ${label} stop ${index + 1}`}
+                            >
+                                <RemoveIcon />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between gap-4">
+                        {fill.type === 'linear' ? (
+                            <label className="flex flex-1 items-center gap-3 text-xs text-gray-400">
+                                Rotation
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={360}
+                                    step={15}
+                                    value={fill.rotation}
+                                    onChange={e => onChange({ ...fill, rotation: parseInt(e.target.value, 10) })}
+                                    className="flex-1 accent-indigo-500"
+                                />
+                                <span className="w-10 text-right">{fill.rotation}°</span>
+                            </label>
+                        ) : <span />}
+                        {fill.colorStops.length < MAX_GRADIENT_STOPS && (
+                            <button type="button" onClick={addStop} className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200">
+                                <MaterialIcon name="add" className="!text-base" />
+                                Add stop
+                            </button>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
 
-const ColorInput: React.FC<{ label: string; color: string; onChange: (c: string) => void; theme: Theme; }> = ({ label, color, onChange, theme }) => {
+const ColorInput: React.FC<{ label: string; color: string; onChange: (c: string) => void; theme: Theme; palette?: string[]; allowTransparent?: boolean; }> = ({ label, color, onChange, theme, palette, allowTransparent = true }) => {
     const transparentBg = theme === 'light' ? LIGHT_SURFACE_ACCENT : '#1a233b';
     const inputValue = color === 'transparent' ? transparentBg : color;
     return (
         <div className="flex-1">
             <span className="text-xs text-gray-400">{label}</span>
             <div className="flex items-center space-x-2 mt-1 w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 relative">
-                <input
-                    type="color"
-                    value={inputValue}
-                    onChange={e => onChange(e.target.value)}
-                    className="absolute w-6 h-6 rounded-md opacity-0 cursor-pointer"
-                    aria-label={`${label} color picker`}
-                />
-                <div style={{backgroundColor: color === 'transparent' ? transparentBg : color}} className={`w-6 h-6 rounded-md border border-white/10 ${color === 'transparent' ? 'bg-transparent-grid' : ''}`}></div>
+                {palette ? (
+                    <SwatchPicker color={inputValue} onChange={onChange} label={label} palette={palette} />
+                ) : (
+                    <>
+                        <input
+                            type="color"
+                            value={inputValue}
+                            onChange={e => onChange(e.target.value)}
+                            className="absolute w-6 h-6 rounded-md opacity-0 cursor-pointer"
+                            aria-label={`${label} color picker`}
+                        />
+                        <div style={{backgroundColor: color === 'transparent' ? transparentBg : color}} className={`w-6 h-6 rounded-md border border-white/10 ${color === 'transparent' ? 'bg-transparent-grid' : ''}`}></div>
+                    </>
+                )}
                 <span className="text-sm font-mono text-gray-300 flex-1">{color === 'transparent' ? 'TRANSPARENT' : color.toUpperCase()}</span>
-                {color !== 'transparent' && (
+                {color !== 'transparent' && allowTransparent && (
                     <button
                         type="button"
                         onClick={() => onChange('transparent')}
@@ -1312,13 +2110,12 @@ const CornerStylePreview: React.FC<{
 const FinderPatternPreview: React.FC<{
     outer: CornerSquareType;
     inner: CornerDotType;
-    fgColor: string;
+    colors: Record<FinderCorner, Required<FinderColors>>;
     bgColor: string;
     theme: Theme;
-}> = ({ outer, inner, fgColor, bgColor, theme }) => {
+}> = ({ outer, inner, colors, bgColor, theme }) => {
     const fallbackBg = theme === 'light' ? LIGHT_TRANSPARENT_BG : DEFAULT_TRANSPARENT_BG;
     const resolvedBg = bgColor === 'transparent' ? fallbackBg : bgColor;
-    const cells = [0, 1, 2];
     const cardBg = theme === 'light' ? 'rgba(255,255,255,0.98)' : 'rgba(15,23,42,0.85)';
     const borderColor = theme === 'light' ? 'rgba(148, 163, 184, 0.45)' : 'rgba(148, 163, 184, 0.25)';
 
@@ -1326,40 +2123,42 @@ const FinderPatternPreview: React.FC<{
         <div className="flex flex-col gap-3 mb-4">
             <p className="text-xs text-gray-400">Preview how the finder eyes render with your current color palette.</p>
             <div className="flex items-center justify-between gap-4">
-                {cells.map((cell) => (
-                    <div
-                        key={cell}
-                        className="relative w-20 h-20 rounded-2xl flex items-center justify-center"
-                        style={{ backgroundColor: cardBg, border: `1px solid ${borderColor}` }}
-                    >
+                {FINDER_CORNERS.map(({ id, label }) => (
+                    <div key={id} className="flex flex-col items-center gap-1">
                         <div
-                            className="flex items-center justify-center"
-                            style={{
-                                width: '78%',
-                                height: '78%',
-                                backgroundColor: fgColor,
-                                borderRadius: cornerOuterRadius[outer],
-                            }}
+                            className="relative w-20 h-20 rounded-2xl flex items-center justify-center"
+                            style={{ backgroundColor: cardBg, border: `1px solid ${borderColor}` }}
                         >
                             <div
                                 className="flex items-center justify-center"
                                 style={{
-                                    width: '48%',
-                                    height: '48%',
-                                    backgroundColor: resolvedBg,
-                                    borderRadius: outer === 'dot' ? '999px' : outer === 'extra-rounded' ? '14px' : '6px',
+                                    width: '78%',
+                                    height: '78%',
+                                    backgroundColor: colors[id].outer,
+                                    borderRadius: cornerOuterRadius[outer],
                                 }}
                             >
                                 <div
+                                    className="flex items-center justify-center"
                                     style={{
-                                        width: '60%',
-                                        height: '60%',
-                                        backgroundColor: fgColor,
-                                        borderRadius: cornerInnerRadius[inner],
+                                        width: '48%',
+                                        height: '48%',
+                                        backgroundColor: resolvedBg,
+                                        borderRadius: outer === 'dot' ? '999px' : outer === 'extra-rounded' ? '14px' : '6px',
                                     }}
-                                />
+                                >
+                                    <div
+                                        style={{
+                                            width: '60%',
+                                            height: '60%',
+                                            backgroundColor: colors[id].inner,
+                                            borderRadius: cornerInnerRadius[inner],
+                                        }}
+                                    />
+                                </div>
                             </div>
                         </div>
+                        <span className="text-[10px] uppercase tracking-wide text-gray-500">{label}</span>
                     </div>
                 ))}
             </div>
@@ -1367,16 +2166,115 @@ const FinderPatternPreview: React.FC<{
     );
 };
 
+const EyeColorInput: React.FC<{ label: string; value?: string; fallback: string; palette?: string[]; onChange: (color: string | undefined) => void; }> = ({ label, value, fallback, palette, onChange }) => (
+    <div className="flex items-center gap-2">
+        <SwatchPicker color={value ?? fallback} onChange={onChange} label={label} palette={palette} className="w-7 h-7" />
+        <div className="flex-1 min-w-0">
+            <span className="block text-xs text-gray-400">{label}</span>
+            <span className="block text-xs font-mono text-gray-300">{value ? value.toUpperCase() : 'Inherited'}</span>
+        </div>
+        {value && (
+            <button type="button" onClick={() => onChange(undefined)} className="text-xs text-indigo-300 hover:text-indigo-200 transition-colors">
+                Reset
+            </button>
+        )}
+    </div>
+);
+
+const FinderColorControls: React.FC<{
+    config: QRCodeConfig;
+    // What eyes render with when no eye color is set (the foreground, adjusted for transparent backgrounds).
+    fallbackColor: string;
+    onChange: <K extends keyof QRCodeConfig>(key: K, value: QRCodeConfig[K]) => void;
+    palette?: string[];
+}> = ({ config, fallbackColor, onChange, palette }) => {
+    const outerBase = config.eyeOuterColor ?? fallbackColor;
+    const innerBase = config.eyeInnerColor ?? fallbackColor;
+
+    const setCornerColor = (corner: FinderCorner, part: keyof FinderColors, color: string | undefined) => {
+        const next: Partial<Record<FinderCorner, FinderColors>> = { ...config.eyeCornerColors, [corner]: { ...config.eyeCornerColors?.[corner], [part]: color } };
+        // Drop emptied corners so saved codes do not accumulate blank overrides.
+        FINDER_CORNERS.forEach(({ id }) => {
+            if (!next[id]?.outer && !next[id]?.inner) delete next[id];
+        });
+        onChange('eyeCornerColors', Object.keys(next).length > 0 ? next : undefined);
+    };
+
+    return (
+        <div className="mt-6 space-y-4">
+            <div>
+                <h4 className="text-sm font-medium text-gray-300 mb-2">Eye Colors</h4>
+                {config.cornersGradient && (
+                    <p className="mb-2 text-xs text-gray-400">An eye gradient is set under Colors and takes precedence over these; per-corner colors still apply.</p>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                    <EyeColorInput label="Outer" value={config.eyeOuterColor} fallback={fallbackColor} palette={palette} onChange={color => onChange('eyeOuterColor', color)} />
+                    <EyeColorInput label="Inner" value={config.eyeInnerColor} fallback={fallbackColor} palette={palette} onChange={color => onChange('eyeInnerColor', color)} />
+                </div>
+            </div>
+            <div className="space-y-3">
+                <h4 className="text-xs uppercase tracking-wide text-gray-400">Per-corner overrides</h4>
+                {FINDER_CORNERS.map(({ id, label }) => (
+                    <div key={id} className="grid grid-cols-[6rem_1fr_1fr] items-center gap-4">
+                        <span className="text-xs text-gray-300">{label}</span>
+                        <EyeColorInput label="Outer" value={config.eyeCornerColors?.[id]?.outer} fallback={outerBase} palette={palette} onChange={color => setCornerColor(id, 'outer', color)} />
+                        <EyeColorInput label="Inner" value={config.eyeCornerColors?.[id]?.inner} fallback={innerBase} palette={palette} onChange={color => setCornerColor(id, 'inner', color)} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const SelfTestPanel: React.FC<{ selfTest: SelfTestState }> = ({ selfTest }) => {
+    const { result, isRunning, error } = selfTest;
+    const failed = result?.variants.filter(variant => !variant.passed) ?? [];
+    const invertedOnly = result?.variants.some(variant => variant.invertedOnly) ?? false;
+    return (
+        <div className="p-3 rounded-lg bg-black/20 border border-white/5 text-xs text-gray-300 space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-gray-400 uppercase tracking-wide">Decode self-test</span>
+                {isRunning && <span className="text-gray-500">Testing…</span>}
+            </div>
+            {error && <p className="text-yellow-200">{error}</p>}
+            {!result && !error && !isRunning && <p className="text-gray-500">Add content to test decoding.</p>}
+            {result && (
+                <div className="grid grid-cols-2 gap-2">
+                    {result.variants.map(variant => {
+                        const hint = SELF_TEST_VARIANTS.find(item => item.id === variant.id)?.hint;
+                        return (
+                            <div key={variant.id} title={hint} className={`flex items-center justify-between gap-2 px-2 py-1.5 rounded-md border ${variant.passed ? 'border-green-400/20 bg-green-500/10 text-green-200' : 'border-red-400/30 bg-red-500/10 text-red-200'}`}>
+                                <span>{variant.label}</span>
+                                <MaterialIcon name={variant.passed ? 'check' : 'close'} className="!text-base" />
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            {failed.length > 0 && (
+                <p className="text-yellow-200">
+                    {failed.some(variant => variant.id === 'original')
+                        ? 'The code does not decode as rendered. Check colors, logo size and error correction.'
+                        : `Fails under ${failed.map(variant => variant.label.toLowerCase()).join(', ')}. Raise contrast or error correction, or shrink the logo.`}
+                </p>
+            )}
+            {invertedOnly && <p className="text-yellow-200">Only decodes when inverted (light on dark); some scanner apps cannot read it.</p>}
+        </div>
+    );
+};
+
 const ScanReadinessCard: React.FC<{
     readiness: ReadinessResult;
+    selfTest: SelfTestState;
     scanDistanceFt: number;
     onScanDistanceChange: (value: number) => void;
     printSizeIn: number;
     onPrintSizeChange: (value: number) => void;
     onOpenScanner: () => void;
-}> = ({ readiness, scanDistanceFt, onScanDistanceChange, printSizeIn, onPrintSizeChange, onOpenScanner }) => {
+}> = ({ readiness, selfTest, scanDistanceFt, onScanDistanceChange, printSizeIn, onPrintSizeChange, onOpenScanner }) => {
     const { warnings, metrics } = readiness;
-    const isReady = warnings.length === 0;
+    const selfTestPassed = !selfTest.result || selfTest.result.variants.every(variant => variant.passed && !variant.invertedOnly);
+    const isReady = warnings.length === 0 && selfTestPassed;
 
     const handleDistanceChange = (value: string) => {
         const next = Number(value);
@@ -1403,6 +2301,9 @@ const ScanReadinessCard: React.FC<{
                     <div>
                         <p className="text-xs text-gray-400 uppercase tracking-wide">Contrast</p>
                         <p className="text-sm text-white font-medium">{metrics.contrastPercent}% diff · {metrics.contrastRatio}:1</p>
+                        {metrics.worstPair && (
+                            <p className="text-xs text-gray-400">Weakest pair: {metrics.worstPair.fg.toUpperCase()} on {metrics.worstPair.bg.toUpperCase()}</p>
+                        )}
                     </div>
                     <MaterialIcon name={metrics.meetsContrast ? 'check_circle' : 'warning'} className={`!text-xl ${metrics.meetsContrast ? 'text-green-400' : 'text-yellow-300'}`} />
                 </div>
@@ -1439,11 +2340,18 @@ const ScanReadinessCard: React.FC<{
                         <span>Min width for {scanDistanceFt}ft</span>
                         <span className="font-medium text-white">{metrics.recommendedPrintWidthIn}"</span>
                     </div>
+                    {metrics.moduleSizeMm !== null && (
+                        <div className="flex items-center justify-between">
+                            <span>Module size at {printSizeIn}"</span>
+                            <span className="font-medium text-white">{metrics.moduleSizeMm}mm</span>
+                        </div>
+                    )}
                     <div className="flex items-center justify-between">
                         <span>Recommended export size</span>
                         <span className="font-medium text-white">{metrics.recommendedPixelSize}px</span>
                     </div>
                 </div>
+                <SelfTestPanel selfTest={selfTest} />
             </div>
             <div className="mt-3 space-y-2">
                 {warnings.map(warning => (
@@ -1470,10 +2378,15 @@ const ScanReadinessCard: React.FC<{
     );
 };
 
-const AnalyticsPanel: React.FC<{ data: AnalyticsData; }> = ({ data }) => {
-    const stats = [
-        { label: 'Total scans', value: data.totalScans.toLocaleString() },
-        { label: 'Unique visitors', value: data.uniqueVisitors.toLocaleString() },
+const AnalyticsPanel: React.FC<{ data: AnalyticsData; costs: CampaignCosts; onCostsChange: (costs: CampaignCosts) => void; }> = ({ data, costs, onCostsChange }) => {
+    const handleCostChange = (key: keyof CampaignCosts, value: string) => {
+        const next = Number(value);
+        onCostsChange({ ...costs, [key]: Number.isFinite(next) ? Math.max(0, next) : 0 });
+    };
+
+    const stats: { label: string; value: string; change?: number | null; previous?: number }[] = [
+        { label: 'Total scans', value: data.totalScans.toLocaleString(), change: data.comparison.scansChange, previous: data.comparison.previousTotalScans },
+        { label: 'Unique visitors', value: data.uniqueVisitors.toLocaleString(), change: data.comparison.visitorsChange, previous: data.comparison.previousUniqueVisitors },
         { label: 'Retention', value: `${Math.round(data.retentionRate * 100)}%` },
         { label: 'ROAS', value: `${data.roi.roas.toFixed(2)}x` },
     ];
@@ -1498,10 +2411,15 @@ const AnalyticsPanel: React.FC<{ data: AnalyticsData; }> = ({ data }) => {
                     <div key={stat.label} className="p-3 rounded-lg bg-black/20 border border-white/5">
                         <p className="uppercase tracking-wide text-[0.65rem] text-gray-500">{stat.label}</p>
                         <p className="text-lg font-semibold text-white">{stat.value}</p>
+                        {stat.previous !== undefined && <PeriodChange change={stat.change ?? null} previous={stat.previous} />}
                     </div>
                 ))}
             </div>
             <div className="space-y-3">
+                <div className="p-3 rounded-lg bg-black/20 border border-white/5">
+                    <h4 className="text-xs uppercase tracking-wide text-gray-400 mb-2">Scans over time</h4>
+                    <ScanTimeSeriesChart points={data.timeSeries} />
+                </div>
                 <div>
                     <h4 className="text-xs uppercase tracking-wide text-gray-400 mb-2">Scan hotspots</h4>
                     <HeatMap points={data.topLocations} />
@@ -1513,13 +2431,28 @@ const AnalyticsPanel: React.FC<{ data: AnalyticsData; }> = ({ data }) => {
                     </div>
                     <div className="p-3 rounded-lg bg-black/20 border border-white/5 space-y-2">
                         <h4 className="text-xs uppercase tracking-wide text-gray-400">ROI snapshot</h4>
+                        <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+                            {(['spend', 'revenue'] as const).map(key => (
+                                <label key={key} className="capitalize">
+                                    {key} ($)
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={50}
+                                        value={costs[key]}
+                                        onChange={e => handleCostChange(key, e.target.value)}
+                                        className="mt-1 w-full bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500 outline-none"
+                                    />
+                                </label>
+                            ))}
+                        </div>
                         <div className="grid grid-cols-2 gap-2 text-xs text-gray-300">
                             <StatPair label="Revenue" value={`$${data.roi.revenue.toLocaleString()}`} tone="positive" />
                             <StatPair label="Spend" value={`$${data.roi.spend.toLocaleString()}`} />
-                            <StatPair label="Cost / acquisition" value={`$${data.roi.costPerAcquisition.toFixed(2)}`} />
+                            <StatPair label="Cost / visitor" value={`$${data.roi.costPerAcquisition.toFixed(2)}`} />
                             <StatPair label="Cost / scan" value={`$${data.roi.costPerScan.toFixed(2)}`} />
                         </div>
-                        <p className="text-[0.65rem] text-gray-500">Feed conversions via webhook or Google Analytics Measurement Protocol to replace these mock metrics with live numbers.</p>
+                        <p className="text-[0.65rem] text-gray-500">Enter campaign spend and attributed revenue; scan counts come from recorded events.</p>
                     </div>
                 </div>
                 <div className="p-3 rounded-lg bg-black/20 border border-white/5">
@@ -1536,6 +2469,89 @@ const AnalyticsPanel: React.FC<{ data: AnalyticsData; }> = ({ data }) => {
     );
 };
 
+const AnalyticsRangePicker: React.FC<{ range: AnalyticsRange; onChange: (range: AnalyticsRange) => void; }> = ({ range, onChange }) => (
+    <div className="mb-4 flex flex-wrap items-end gap-3 text-xs text-gray-300">
+        <div className="flex p-1 rounded-lg bg-white/5 border border-white/10">
+            {ANALYTICS_RANGE_PRESETS.map(option => (
+                <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => onChange({ ...range, preset: option.value })}
+                    className={`px-3 py-1.5 rounded-md transition-colors ${range.preset === option.value ? 'bg-indigo-500 text-white font-semibold' : 'text-gray-300 hover:bg-white/10'}`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+        {range.preset === 'custom' && (
+            <div className="flex items-end gap-2">
+                <label className="text-gray-400">
+                    From
+                    <input
+                        type="date"
+                        value={range.customFrom}
+                        max={range.customTo}
+                        onChange={e => onChange({ ...range, customFrom: e.target.value })}
+                        className="mt-1 block bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-white focus:ring-2 focus:ring-indigo-500/50 outline-none"
+                    />
+                </label>
+                <label className="text-gray-400">
+                    To
+                    <input
+                        type="date"
+                        value={range.customTo}
+                        min={range.customFrom}
+                        onChange={e => onChange({ ...range, customTo: e.target.value })}
+                        className="mt-1 block bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-white focus:ring-2 focus:ring-indigo-500/50 outline-none"
+                    />
+                </label>
+            </div>
+        )}
+    </div>
+);
+
+const PeriodChange: React.FC<{ change: number | null; previous: number }> = ({ change, previous }) => {
+    if (change === null) {
+        return <p className="text-[0.65rem] text-gray-500">No data in previous period</p>;
+    }
+    const tone = change > 0 ? 'text-green-300' : change < 0 ? 'text-red-300' : 'text-gray-400';
+    return (
+        <p className={`text-[0.65rem] ${tone}`}>
+            {change > 0 ? '+' : ''}{Math.round(change * 100)}% vs previous period ({previous.toLocaleString()})
+        </p>
+    );
+};
+
+const ScanTimeSeriesChart: React.FC<{ points: TimeSeriesPoint[] }> = ({ points }) => {
+    const max = Math.max(1, ...points.map(point => point.scans));
+    // Label roughly six buckets so dense ranges (30 days, 24 hours) stay legible.
+    const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+    return (
+        <div>
+            <div className="flex items-end gap-[2px] h-32">
+                {points.map(point => (
+                    <div key={point.start} className="group relative flex-1 h-full flex items-end">
+                        <div
+                            className="w-full rounded-t bg-gradient-to-t from-indigo-500 to-sky-400"
+                            style={{ height: `${point.scans === 0 ? 0 : Math.max(4, (point.scans / max) * 100)}%` }}
+                        />
+                        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-1 rounded bg-gray-900 border border-gray-700 text-[0.65rem] text-gray-200 whitespace-nowrap opacity-0 group-hover:opacity-100 pointer-events-none z-10">
+                            {point.label} · {point.scans.toLocaleString()} scans
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-[2px] mt-1 text-[0.6rem] text-gray-500">
+                {points.map((point, index) => (
+                    <span key={point.start} className="flex-1 text-center whitespace-nowrap overflow-visible">
+                        {index % labelEvery === 0 ? point.label : ''}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 const StatPair: React.FC<{ label: string; value: string; tone?: 'positive' | 'neutral' }> = ({ label, value, tone = 'neutral' }) => (
     <div className={`p-2 rounded-md ${tone === 'positive' ? 'bg-green-500/10 border border-green-400/20' : 'bg-white/5 border border-white/10'}`}>
         <p className="text-[0.65rem] uppercase tracking-wide text-gray-500">{label}</p>
@@ -1558,6 +2574,9 @@ const HeatMap: React.FC<{ points: HeatPoint[] }> = ({ points }) => {
             }}
         >
             <div className="absolute inset-0 opacity-20 bg-[radial-gradient(circle,rgba(255,255,255,0.08)_1px,transparent_1px)] [background-size:24px_24px]" />
+            {points.length === 0 && (
+                <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">No located scans yet.</div>
+            )}
             {points.map(point => {
                 const position = latLngToPosition(point.lat, point.lng);
                 const size = 16 + point.intensity * 26;
@@ -1619,6 +2638,7 @@ const ConversionFunnel: React.FC<{ steps: FunnelStep[] }> = ({ steps }) => {
 
 const UtmBreakdownList: React.FC<{ items: AnalyticsData['utmBreakdown'] }> = ({ items }) => (
     <div className="space-y-2 text-xs text-gray-300">
+        {items.length === 0 && <p className="text-gray-500">No scans in this period.</p>}
         {items.map(item => (
             <div key={item.id}>
                 <div className="flex items-center justify-between">
@@ -1636,9 +2656,26 @@ const UtmBreakdownList: React.FC<{ items: AnalyticsData['utmBreakdown'] }> = ({
     </div>
 );
 
-const ErrorCorrectionExplanation: React.FC = () => (
-    <div className="text-sm text-gray-400">
+const ErrorCorrectionExplanation: React.FC<{ choice: ErrorCorrectionChoice; currentLevel: ErrorCorrectionLevel; isAuto: boolean; hasLogo: boolean; }> = ({ choice, currentLevel, isAuto, hasLogo }) => (
+    <div className="text-sm text-gray-400 space-y-3">
         <p>This adds redundant data, allowing the code to be scanned even if partially damaged or obscured (e.g., by a logo).</p>
+        {isAuto && (
+            <div className="text-xs text-indigo-200 bg-indigo-500/10 border border-indigo-400/20 rounded-lg px-3 py-2">{choice.reason}</div>
+        )}
+        <div className="grid grid-cols-4 gap-2 text-xs">
+            {choice.options.map(option => (
+                <div key={option.level} className={`p-2 rounded-lg text-center ${option.level === currentLevel ? 'bg-indigo-500/20 text-white' : 'bg-white/5'}`}>
+                    <p className="font-semibold">{option.level}</p>
+                    <p>{option.version === null ? 'Too long' : `Version ${option.version}`}</p>
+                    {hasLogo && option.version !== null && (
+                        <p title={`The logo covers ${(option.logoShare * 100).toFixed(1)}% of the code; level ${option.level} recovers up to ${Math.round(option.recoveryBudget * 100)}%.`}>
+                            Logo {(option.logoShare * 100).toFixed(1)}%
+                        </p>
+                    )}
+                    {option.version !== null && !option.printable && <p className="text-amber-300">Too dense</p>}
+                </div>
+            ))}
+        </div>
     </div>
 );
 
@@ -1745,6 +2782,23 @@ const FinderPatternExplanation = () => (
     </div>
 );
 
+const KitLogoPicker: React.FC<{ image?: string; logos: BrandLogo[]; onSelect: (image: string) => void; onRemove: () => void; }> = ({ image, logos, onSelect, onRemove }) => {
+    const tileClass = (active: boolean) => `w-20 h-20 rounded-lg flex items-center justify-center border transition-colors ${active ? 'border-indigo-400/70 bg-indigo-500/20' : 'border-white/10 bg-black/20 hover:bg-white/10'}`;
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-gray-400">Your brand kit limits logos to these.</p>
+            <div className="flex flex-wrap gap-3">
+                <button type="button" onClick={onRemove} className={`${tileClass(!image)} text-xs text-gray-400`}>None</button>
+                {logos.map(logo => (
+                    <button key={logo.id} type="button" onClick={() => onSelect(logo.image)} className={tileClass(image === logo.image)} title={logo.name}>
+                        <img src={logo.image} alt={logo.name} className="max-w-[85%] max-h-[85%] object-contain rounded-md" />
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 const LogoUpload: React.FC<{image?: string; onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void; onRemove: () => void;}> = ({ image, onUpload, onRemove }) => (
     <div className="flex items-center space-x-4">
         <div className="w-20 h-20 rounded-lg bg-black/20 border border-white/10 flex items-center justify-center flex-shrink-0">
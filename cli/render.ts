@@ -0,0 +1,112 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { QRCodeConfig, Theme } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_QR_CODE_CONFIG } from '../constants';
+import { BACKUP_FILE_FORMAT, parseBackup, parseCodeConfig } from '../utils/backup';
+import { MAX_EXPORT_PX, MIN_EXPORT_PX } from '../utils/qrExport';
+import { uniqueFileNames } from '../utils/zip';
+import { renderSvg, svgToPng } from './renderer';
+
+const USAGE = `Renders QR codes to SVG and PNG files without a browser.
+
+Usage: npm run render -- <input> [options]
+
+<input> is a QRCodeConfig JSON object, an array of them, or a library backup (.json or .zip).
+Use - to read from stdin. Configs may leave out style fields; the app defaults fill them in.
+
+Options:
+  -o, --out <dir>          Output directory (default: current directory)
+  -f, --format <list>      svg, png or svg,png (default: svg,png)
+  -s, --size <px>          Image width and height in pixels (default: ${DEFAULT_EXPORT_SETTINGS.pixelSize})
+  -q, --quiet-zone <n>     Quiet zone in modules (default: ${DEFAULT_EXPORT_SETTINGS.quietZoneModules})
+  -t, --theme <theme>      light or dark; decides how transparent backgrounds render (default: light)
+  -c, --code <id|name>     Only render this code from a list or backup; repeatable
+  -h, --help               Show this help`;
+
+const readInput = async (input: string) => {
+  if (input !== '-') return fs.readFile(input);
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+const loadCodes = async (bytes: Buffer): Promise<QRCodeConfig[]> => {
+  // ZIPs can only be backups; hand them over whole so logo files resolve.
+  if (bytes.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    return (await parseBackup(new Blob([bytes]))).codes;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(bytes.toString('utf8'));
+  } catch {
+    throw new Error('The input is neither valid JSON nor a ZIP backup.');
+  }
+  if (typeof raw === 'object' && raw !== null && (raw as { format?: unknown }).format === BACKUP_FILE_FORMAT) {
+    return (await parseBackup(new Blob([bytes]))).codes;
+  }
+  const entries = Array.isArray(raw) ? raw : [raw];
+  return entries.map((entry, index) =>
+    parseCodeConfig({ ...DEFAULT_QR_CODE_CONFIG, id: `code-${index + 1}`, name: `qr-code-${index + 1}`, ...(entry as object) }, `Code ${index + 1}`)
+  );
+};
+
+const readNumber = (value: string, option: string, min: number, max: number) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) throw new Error(`--${option} must be a whole number from ${min} to ${max}.`);
+  return number;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: '.' },
+      format: { type: 'string', short: 'f', default: 'svg,png' },
+      size: { type: 'string', short: 's', default: String(DEFAULT_EXPORT_SETTINGS.pixelSize) },
+      'quiet-zone': { type: 'string', short: 'q', default: String(DEFAULT_EXPORT_SETTINGS.quietZoneModules) },
+      theme: { type: 'string', short: 't', default: 'light' },
+      code: { type: 'string', short: 'c', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const formats = values.format.split(',').map(format => format.trim().toLowerCase());
+  if (formats.length === 0 || formats.some(format => format !== 'svg' && format !== 'png')) throw new Error('--format must be svg, png or svg,png.');
+  if (values.theme !== 'light' && values.theme !== 'dark') throw new Error('--theme must be light or dark.');
+  const options = {
+    size: readNumber(values.size, 'size', MIN_EXPORT_PX, MAX_EXPORT_PX),
+    quietZoneModules: readNumber(values['quiet-zone'], 'quiet-zone', 0, 20),
+    theme: values.theme as Theme,
+  };
+
+  let codes = await loadCodes(await readInput(positionals[0]));
+  if (values.code) {
+    const wanted = values.code;
+    const missing = wanted.filter(key => !codes.some(code => code.id === key || code.name === key));
+    if (missing.length > 0) throw new Error(`No code with the id or name ${missing.map(key => `"${key}"`).join(', ')}.`);
+    codes = codes.filter(code => wanted.includes(code.id) || wanted.includes(code.name));
+  }
+  if (codes.length === 0) throw new Error('The input has no codes to render.');
+
+  await fs.mkdir(values.out, { recursive: true });
+  const fileNames = new Map(formats.map(format => [format, uniqueFileNames(codes.map(code => code.name), format)]));
+  for (const [index, code] of codes.entries()) {
+    const svg = renderSvg(code, options);
+    for (const format of formats) {
+      const file = path.join(values.out, fileNames.get(format)![index]);
+      await fs.writeFile(file, format === 'svg' ? svg : svgToPng(svg, options.size));
+      console.log(file);
+    }
+  }
+};
+
+main().catch(error => {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
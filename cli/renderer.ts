@@ -0,0 +1,16 @@
+import { Resvg } from '@resvg/resvg-js';
+import { QRCodeConfig, Theme } from '../types';
+import { renderQRCodeSvg } from '../utils/qrRenderer';
+
+export interface RenderOptions {
+  size: number;
+  theme: Theme;
+  quietZoneModules: number;
+}
+
+// The same encoder and renderer as the app, which need no DOM.
+export const renderSvg = (config: QRCodeConfig, options: RenderOptions): string => renderQRCodeSvg(config, options);
+
+// Rasterises the rendered SVG rather than re-drawing it, so PNGs match the SVG module for module.
+export const svgToPng = (svg: string, size: number): Buffer =>
+  new Resvg(svg, { fitTo: { mode: 'width', value: size } }).render().asPng();
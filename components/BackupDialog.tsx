@@ -0,0 +1,265 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { QRCodeConfig } from '../types';
+import { BackupData, BackupImportOptions, CONFLICT_STRATEGIES, ConflictStrategy, createBackupJson, createBackupZip, ImportPlan, parseBackup } from '../utils/backup';
+import { downloadBlob } from '../utils/qrExport';
+import { MaterialIcon } from './icons';
+
+interface BackupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The library as it stands, used to count conflicts before importing.
+  codes: QRCodeConfig[];
+  // Exporting before the library has loaded would leave saved codes out of the backup.
+  isLibraryLoading: boolean;
+  getBackupData: () => BackupData;
+  // Resolves once the import is applied; the warning reports parts that could not be completed, such as redirects.
+  onImport: (backup: BackupData, options: BackupImportOptions) => Promise<{ plan: ImportPlan; warning?: string }>;
+}
+
+const checkboxClass = 'h-4 w-4 rounded border-gray-600 text-indigo-600 focus:ring-indigo-600 bg-gray-900/50';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const describePlan = (plan: ImportPlan) =>
+  [
+    plan.added && `${plural(plan.added, 'code')} added`,
+    plan.replaced && `${plan.replaced} replaced`,
+    plan.copied && `${plan.copied} kept as copies`,
+    plan.skipped && `${plan.skipped} skipped`,
+  ]
+    .filter(Boolean)
+    .join(', ') || 'No codes imported';
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ isOpen, onClose, codes, isLibraryLoading, getBackupData, onImport }) => {
+  const [pending, setPending] = useState<{ fileName: string; backup: BackupData } | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip');
+  const [includeTemplates, setIncludeTemplates] = useState(true);
+  const [includeBrandKit, setIncludeBrandKit] = useState(false);
+  const [includeSettings, setIncludeSettings] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const conflicts = pending ? pending.backup.codes.filter(code => codes.some(qr => qr.id === code.id)).length : 0;
+
+  const handleClose = () => {
+    setPending(null);
+    setError(null);
+    setNotice(null);
+    onClose();
+  };
+
+  const handleExport = async (format: 'json' | 'zip') => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const data = getBackupData();
+      const blob = format === 'zip' ? await createBackupZip(data) : await createBackupJson(data);
+      downloadBlob(blob, `qr-code-studio-backup-${new Date().toISOString().slice(0, 10)}.${format}`);
+      setNotice(`Backed up ${plural(data.codes.length, 'code')}.`);
+    } catch (exportError) {
+      console.error(exportError);
+      setError(exportError instanceof Error ? exportError.message : 'The backup could not be created.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const backup = await parseBackup(file);
+      setPending({ fileName: file.name, backup });
+      setIncludeBrandKit(false);
+      setIncludeSettings(false);
+    } catch (parseError) {
+      console.error(parseError);
+      setPending(null);
+      setError(parseError instanceof Error ? parseError.message : 'The backup could not be read.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { plan, warning } = await onImport(pending.backup, { strategy, includeTemplates, includeBrandKit, includeSettings });
+      setNotice(`${describePlan(plan)}.`);
+      setError(warning ?? null);
+      setPending(null);
+    } catch (importError) {
+      console.error(importError);
+      setError(importError instanceof Error ? importError.message : 'The backup could not be imported.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={handleClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="relative w-full max-w-xl max-h-[90vh] overflow-hidden rounded-3xl border border-white/10 bg-[#0b1324]/95 backdrop-blur-xl shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 text-sm text-gray-300">
+              <div>
+                <p className="text-base font-semibold text-white">Backup &amp; Restore</p>
+                <p className="text-xs text-gray-400">Move your library, templates and settings between browsers</p>
+              </div>
+              <button onClick={handleClose} className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors">
+                <MaterialIcon name="close" />
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-4.5rem)] space-y-5 text-sm text-gray-300">
+              <input
+                ref={importRef}
+                type="file"
+                accept="application/json,application/zip,.json,.zip"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+              {error && (
+                <div role="alert" className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{error}</div>
+              )}
+              {notice && (
+                <div className="text-xs text-indigo-200 bg-indigo-500/10 border border-indigo-400/20 rounded-lg px-3 py-2">{notice}</div>
+              )}
+
+              <section className="space-y-3">
+                <p className="text-xs uppercase tracking-wide text-gray-400">Export</p>
+                <p className="text-xs text-gray-400">
+                  Saves every code with its history and logos, your style templates, brand kit and settings. The ZIP keeps logos as separate image files.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    disabled={isBusy || isLibraryLoading}
+                    onClick={() => handleExport('zip')}
+                    className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                  >
+                    <MaterialIcon name="folder_zip" className="!text-base" />
+                    Download ZIP
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isBusy || isLibraryLoading}
+                    onClick={() => handleExport('json')}
+                    className="theme-button inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                  >
+                    <MaterialIcon name="data_object" className="!text-base" />
+                    Download JSON
+                  </button>
+                </div>
+              </section>
+
+              <section className="space-y-3 pt-4 border-t border-white/10">
+                <p className="text-xs uppercase tracking-wide text-gray-400">Import</p>
+                {!pending ? (
+                  <button
+                    type="button"
+                    disabled={isBusy || isLibraryLoading}
+                    onClick={() => importRef.current?.click()}
+                    className="theme-button inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                  >
+                    <MaterialIcon name="upload" className="!text-base" />
+                    Choose backup file
+                  </button>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="p-3 rounded-lg bg-black/20 border border-white/10">
+                      <p className="text-sm text-white break-all">{pending.fileName}</p>
+                      <p className="mt-1 text-xs text-gray-400">
+                        {plural(pending.backup.codes.length, 'code')} · {plural(pending.backup.templates.length, 'template')}
+                        {pending.backup.brandKit && ' · brand kit'}
+                        {conflicts > 0 && <span className="text-amber-200"> · {plural(conflicts, 'code')} already in your library</span>}
+                      </p>
+                    </div>
+
+                    {conflicts > 0 && (
+                      <fieldset className="space-y-2">
+                        <legend className="text-xs text-gray-400 mb-2">When a code is already in your library</legend>
+                        {CONFLICT_STRATEGIES.map(option => (
+                          <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name="backup-conflict-strategy"
+                              checked={strategy === option.value}
+                              onChange={() => setStrategy(option.value)}
+                              className="mt-0.5 h-4 w-4 border-gray-600 text-indigo-600 focus:ring-indigo-600 bg-gray-900/50"
+                            />
+                            <span>
+                              <span className="text-sm text-white">{option.label}</span>
+                              <span className="block text-xs text-gray-400">{option.description}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </fieldset>
+                    )}
+
+                    <div className="space-y-2">
+                      {pending.backup.templates.length > 0 && (
+                        <label className="flex items-center gap-2">
+                          <input type="checkbox" checked={includeTemplates} onChange={e => setIncludeTemplates(e.target.checked)} className={checkboxClass} />
+                          Import style templates
+                        </label>
+                      )}
+                      {pending.backup.brandKit && (
+                        <label className="flex items-center gap-2">
+                          <input type="checkbox" checked={includeBrandKit} onChange={e => setIncludeBrandKit(e.target.checked)} className={checkboxClass} />
+                          Replace my brand kit with “{pending.backup.brandKit.name}”
+                        </label>
+                      )}
+                      <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={includeSettings} onChange={e => setIncludeSettings(e.target.checked)} className={checkboxClass} />
+                        Apply theme and export settings
+                      </label>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        disabled={isBusy}
+                        onClick={handleImport}
+                        className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                      >
+                        <MaterialIcon name="download_done" className="!text-base" />
+                        Import
+                      </button>
+                      <button type="button" disabled={isBusy} onClick={() => setPending(null)} className="theme-button inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl">
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </section>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BackupDialog;
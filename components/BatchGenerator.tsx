@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ContentType, QRCodeConfig, Theme } from '../types';
+import { parseCsv, ParsedCsv } from '../utils/csv';
+import { BATCH_FIELDS, BatchMapping, buildBatchRows, guessBatchMapping, NAME_FIELD } from '../utils/batch';
+import { downloadBlob, renderQRCodeBlob } from '../utils/qrExport';
+import { createZip, uniqueFileNames } from '../utils/zip';
+import PdfExportDialog from './PdfExportDialog';
+import QRThumbnail from './QRThumbnail';
+import { MaterialIcon, UploadIcon } from './icons';
+
+interface BatchGeneratorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  styleConfig: QRCodeConfig;
+  theme: Theme;
+  printSizeIn: number;
+}
+
+const CONTENT_TYPE_OPTIONS: { value: ContentType; label: string }[] = [
+  { value: 'url', label: 'URL' },
+  { value: 'text', label: 'Text' },
+  { value: 'wifi', label: 'WiFi' },
+  { value: 'vcard', label: 'vCard' },
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'geo', label: 'Location' },
+  { value: 'event', label: 'Event' },
+  { value: 'crypto', label: 'Crypto' },
+];
+
+// Rendering hundreds of live previews would stall the modal; the export still covers every row.
+const PREVIEW_LIMIT = 48;
+const EXPORT_SIZE = 1024;
+
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ isOpen, onClose, styleConfig, theme, printSizeIn }) => {
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [contentType, setContentType] = useState<ContentType>('url');
+  const [mapping, setMapping] = useState<BatchMapping>({});
+  const [format, setFormat] = useState<'png' | 'svg'>('png');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [isPdfOpen, setIsPdfOpen] = useState(false);
+
+  const rows = useMemo(
+    () => (csv ? buildBatchRows(csv.rows, contentType, mapping) : []),
+    [csv, contentType, mapping]
+  );
+  const validRows = useMemo(() => rows.filter(row => !row.error), [rows]);
+  const invalidRows = rows.filter(row => row.error);
+
+  // Style comes from the editor; only content and name vary per row.
+  const previewConfigs = useMemo(
+    () => validRows.slice(0, PREVIEW_LIMIT).map(row => ({
+      ...styleConfig,
+      id: `batch-${row.index}`,
+      name: row.name,
+      data: row.data,
+      contentType,
+      isDynamic: false,
+      shortCode: undefined,
+      destination: undefined,
+    })),
+    [validRows, styleConfig, contentType]
+  );
+
+  const sheetConfigs = useMemo(
+    () => (isPdfOpen ? validRows.map(row => ({ ...styleConfig, id: `batch-${row.index}`, name: row.name, data: row.data, contentType })) : []),
+    [isPdfOpen, validRows, styleConfig, contentType]
+  );
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const parsed = parseCsv(text);
+        if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+          throw new Error('The CSV needs a header row and at least one data row.');
+        }
+        setCsv(parsed);
+        setFileName(file.name);
+        setMapping(guessBatchMapping(parsed.headers, contentType));
+        setParseError(null);
+        setExportError(null);
+      })
+      .catch(error => {
+        console.error(error);
+        setCsv(null);
+        setParseError(error instanceof Error ? error.message : 'Could not read the CSV file.');
+      });
+  };
+
+  const handleContentTypeChange = (next: ContentType) => {
+    setContentType(next);
+    if (csv) setMapping(guessBatchMapping(csv.headers, next));
+  };
+
+  const handleExport = async () => {
+    if (validRows.length === 0) return;
+    setExportError(null);
+    setProgress({ done: 0, total: validRows.length });
+    try {
+      const names = uniqueFileNames(validRows.map(row => row.name), format);
+      const entries = [];
+      for (const [i, row] of validRows.entries()) {
+        const blob = await renderQRCodeBlob(
+          { ...styleConfig, id: `batch-${row.index}`, name: row.name, data: row.data, contentType },
+          { extension: format, size: EXPORT_SIZE, theme }
+        );
+        entries.push({ name: names[i], data: new Uint8Array(await blob.arrayBuffer()) });
+        setProgress({ done: i + 1, total: validRows.length });
+      }
+      const baseName = fileName.replace(/\.[^.]+$/, '') || 'qr-batch';
+      downloadBlob(createZip(entries), `${baseName}-${format}.zip`);
+    } catch (error) {
+      console.error(error);
+      setExportError(error instanceof Error ? error.message : 'Export failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const fields = [NAME_FIELD, ...BATCH_FIELDS[contentType]];
+
+  return (
+    <>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="relative w-full max-w-5xl max-h-[90vh] overflow-hidden rounded-3xl border border-white/10 bg-[#0b1324]/95 backdrop-blur-xl shadow-2xl"
+              onClick={e => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 text-sm text-gray-300">
+                <div>
+                  <p className="text-base font-semibold text-white">Batch Generate from CSV</p>
+                  <p className="text-xs text-gray-400">One row per code. The current style (colors, shapes, logo, error correction) is applied to every row.</p>
+                </div>
+                <button onClick={onClose} className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors">
+                  <MaterialIcon name="close" />
+                </button>
+              </div>
+              <div className="p-6 overflow-y-auto max-h-[calc(90vh-4.5rem)] space-y-5 text-sm text-gray-300">
+                <div className="flex flex-wrap items-center gap-3">
+                  <label htmlFor="batch-csv" className="cursor-pointer inline-flex items-center space-x-2 px-3 py-2 text-sm font-medium rounded-md text-indigo-300 bg-indigo-500/20 hover:bg-indigo-500/30 transition-colors">
+                    <UploadIcon />
+                    <span>{csv ? 'Replace CSV' : 'Import CSV'}</span>
+                  </label>
+                  <input id="batch-csv" type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleFile} />
+                  {csv && <span className="text-xs text-gray-400">{fileName} · {csv.rows.length} rows · {csv.headers.length} columns</span>}
+                </div>
+                {parseError && (
+                  <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{parseError}</div>
+                )}
+
+                {csv && (
+                  <>
+                    <div className="p-4 rounded-xl bg-black/20 border border-white/10 space-y-4">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs uppercase tracking-wide text-gray-400 mr-2">Content type</span>
+                        {CONTENT_TYPE_OPTIONS.map(option => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => handleContentTypeChange(option.value)}
+                            className={`px-3 py-1.5 rounded-md text-xs transition-colors ${contentType === option.value ? 'bg-indigo-500 text-white font-semibold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {fields.map(field => (
+                          <label key={field.key} className="flex flex-col gap-1 text-xs text-gray-400">
+                            <span>{field.label}{field.required && <span className="text-indigo-300"> *</span>}</span>
+                            <select
+                              value={mapping[field.key] ?? ''}
+                              onChange={e => setMapping(prev => ({ ...prev, [field.key]: e.target.value }))}
+                              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none"
+                            >
+                              <option value="">— Not mapped —</option>
+                              {csv.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                            </select>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+
+                    {invalidRows.length > 0 && (
+                      <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2 space-y-1">
+                        <p className="font-medium">{invalidRows.length} row{invalidRows.length === 1 ? '' : 's'} will be skipped:</p>
+                        {invalidRows.slice(0, 5).map(row => (
+                          <p key={row.index}>Row {row.index + 2}: {row.error}</p>
+                        ))}
+                        {invalidRows.length > 5 && <p>…and {invalidRows.length - 5} more.</p>}
+                      </div>
+                    )}
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-xs uppercase tracking-wide text-gray-400">Preview</h4>
+                        {validRows.length > PREVIEW_LIMIT && (
+                          <span className="text-xs text-gray-500">Showing {PREVIEW_LIMIT} of {validRows.length}</span>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                        {previewConfigs.map(config => (
+                          <div key={config.id} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-white/5 border border-white/10">
+                            <QRThumbnail config={config} size={96} theme={theme} />
+                            <span className="w-full text-center text-[0.65rem] text-gray-400 truncate" title={config.data}>{config.name}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t border-white/10">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs uppercase tracking-wide text-gray-400">Format</span>
+                        {(['png', 'svg'] as const).map(option => (
+                          <button
+                            key={option}
+                            type="button"
+                            onClick={() => setFormat(option)}
+                            className={`px-3 py-1.5 rounded-md text-xs uppercase transition-colors ${format === option ? 'bg-indigo-500 text-white font-semibold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+                          >
+                            {option}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setIsPdfOpen(true)}
+                          disabled={validRows.length === 0 || progress !== null}
+                          className="theme-button inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                        >
+                          <MaterialIcon name="picture_as_pdf" className="!text-base" />
+                          PDF sheet
+                        </button>
+                        <button
+                          type="button"
+                          onClick={handleExport}
+                          disabled={validRows.length === 0 || progress !== null}
+                          className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                        >
+                          <MaterialIcon name="folder_zip" className="!text-base" />
+                          {progress ? `Rendering ${progress.done}/${progress.total}…` : `Export ${validRows.length} as ZIP`}
+                        </button>
+                      </div>
+                    </div>
+                    {exportError && (
+                      <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{exportError}</div>
+                    )}
+                  </>
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+      <PdfExportDialog
+        isOpen={isOpen && isPdfOpen}
+        onClose={() => setIsPdfOpen(false)}
+        codes={sheetConfigs}
+        printSizeIn={printSizeIn}
+        fileName={fileName.replace(/\.[^.]+$/, '') || 'qr-batch'}
+      />
+    </>
+  );
+};
+
+export default BatchGenerator;
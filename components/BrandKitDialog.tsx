@@ -0,0 +1,275 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BrandKit, QRCodeConfig } from '../types';
+import { CORNER_DOT_STYLES, CORNER_SQUARE_STYLES, DOT_STYLES } from '../constants';
+import { brandKitFromConfig, EMPTY_BRAND_KIT, parseBrandKitFile, serializeBrandKit } from '../utils/brandKit';
+import { downloadBlob } from '../utils/qrExport';
+import { MaterialIcon, RemoveIcon } from './icons';
+
+interface BrandKitDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kit: BrandKit | null;
+  onKitChange: (kit: BrandKit | null) => void;
+  enforced: boolean;
+  onEnforcedChange: (value: boolean) => void;
+  // Used to seed a new kit from the design on screen.
+  currentConfig: QRCodeConfig;
+}
+
+const inputClass = 'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none';
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-1.5 rounded-md text-xs transition-colors ${active ? 'bg-indigo-500 text-white font-semibold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+  >
+    {children}
+  </button>
+);
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+const StyleChips = <T extends string>({ label, options, selected, onChange }: {
+  label: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onChange: (values: T[]) => void;
+}) => (
+  <div className="space-y-2">
+    <p className="text-xs uppercase tracking-wide text-gray-400">{label}{selected.length === 0 && <span className="normal-case tracking-normal text-gray-500"> · any</span>}</p>
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <Chip key={option.value} active={selected.includes(option.value)} onClick={() => onChange(toggle(selected, option.value))}>
+          {option.label}
+        </Chip>
+      ))}
+    </div>
+  </div>
+);
+
+const BrandKitDialog: React.FC<BrandKitDialogProps> = ({ isOpen, onClose, kit, onKitChange, enforced, onEnforcedChange, currentConfig }) => {
+  const [newColor, setNewColor] = useState('#000000');
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<BrandKit>) => kit && onKitChange({ ...kit, ...patch });
+
+  const handleLogoUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = event => {
+      const result = event.target?.result;
+      if (typeof result === 'string' && kit) {
+        update({ logos: [...kit.logos, { id: `logo-${Date.now()}`, name: file.name.replace(/\.[^.]+$/, ''), image: result }] });
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onKitChange(parseBrandKitFile(await file.text()));
+      setError(null);
+    } catch (importError) {
+      console.error(importError);
+      setError(importError instanceof Error ? importError.message : 'The brand kit file could not be read.');
+    }
+  };
+
+  const handleExport = () => {
+    if (!kit) return;
+    const blob = new Blob([serializeBrandKit(kit)], { type: 'application/json' });
+    downloadBlob(blob, `${kit.name.trim().replace(/\s+/g, '_') || 'brand-kit'}.json`);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="relative w-full max-w-xl max-h-[90vh] overflow-hidden rounded-3xl border border-white/10 bg-[#0b1324]/95 backdrop-blur-xl shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 text-sm text-gray-300">
+              <div>
+                <p className="text-base font-semibold text-white">Brand Kit</p>
+                <p className="text-xs text-gray-400">Approved colors, logos and styles for every code</p>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors">
+                <MaterialIcon name="close" />
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-4.5rem)] space-y-5 text-sm text-gray-300">
+              <input
+                ref={importRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+              {error && (
+                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{error}</div>
+              )}
+
+              {!kit ? (
+                <div className="space-y-3">
+                  <p className="text-xs text-gray-400">No brand kit yet. Start from the design on screen, start empty, or import a kit shared by your team.</p>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onKitChange(brandKitFromConfig(currentConfig))}
+                      className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl"
+                    >
+                      <MaterialIcon name="auto_awesome" className="!text-base" />
+                      From current design
+                    </button>
+                    <button type="button" onClick={() => onKitChange(EMPTY_BRAND_KIT)} className="theme-button inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl">
+                      Start empty
+                    </button>
+                    <button type="button" onClick={() => importRef.current?.click()} className="theme-button inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl">
+                      <MaterialIcon name="upload" className="!text-base" />
+                      Import
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3 items-end">
+                    <label className="text-xs text-gray-400">
+                      Name
+                      <input value={kit.name} onChange={e => update({ name: e.target.value })} className={`mt-1 ${inputClass}`} />
+                    </label>
+                    <label className="flex items-center gap-2 pb-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={enforced}
+                        onChange={e => onEnforcedChange(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-600 text-indigo-600 focus:ring-indigo-600 bg-gray-900/50"
+                      />
+                      Enforce in editor
+                    </label>
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-xs uppercase tracking-wide text-gray-400">Colors{kit.colors.length === 0 && <span className="normal-case tracking-normal text-gray-500"> · any</span>}</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {kit.colors.map(color => (
+                        <span key={color} className="inline-flex items-center gap-1.5 pl-1 pr-1.5 py-1 rounded-lg bg-white/5 border border-white/10">
+                          <span className="w-5 h-5 rounded-md border border-white/10" style={{ backgroundColor: color }} />
+                          <span className="text-xs font-mono">{color.toUpperCase()}</span>
+                          <button type="button" onClick={() => update({ colors: kit.colors.filter(item => item !== color) })} aria-label={`Remove ${color}`} className="text-gray-400 hover:text-white">
+                            <RemoveIcon />
+                          </button>
+                        </span>
+                      ))}
+                      <span className="inline-flex items-center gap-1.5">
+                        <input type="color" value={newColor} onChange={e => setNewColor(e.target.value)} className="w-8 h-8 rounded-md bg-transparent cursor-pointer" aria-label="New brand color" />
+                        <button
+                          type="button"
+                          onClick={() => !kit.colors.some(color => color.toLowerCase() === newColor.toLowerCase()) && update({ colors: [...kit.colors, newColor] })}
+                          className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200"
+                        >
+                          <MaterialIcon name="add" className="!text-base" />
+                          Add color
+                        </button>
+                      </span>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={kit.allowTransparentBackground}
+                        onChange={e => update({ allowTransparentBackground: e.target.checked })}
+                        className="h-4 w-4 rounded border-gray-600 text-indigo-600 focus:ring-indigo-600 bg-gray-900/50"
+                      />
+                      Allow transparent backgrounds
+                    </label>
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-xs uppercase tracking-wide text-gray-400">Logos{kit.logos.length === 0 && <span className="normal-case tracking-normal text-gray-500"> · any</span>}</p>
+                    <div className="flex flex-wrap gap-3">
+                      {kit.logos.map(logo => (
+                        <div key={logo.id} className="relative w-20 space-y-1">
+                          <div className="w-20 h-20 rounded-lg bg-black/20 border border-white/10 flex items-center justify-center">
+                            <img src={logo.image} alt={logo.name} className="max-w-full max-h-full object-contain rounded-md" />
+                          </div>
+                          <p className="text-[10px] text-gray-400 truncate">{logo.name}</p>
+                          <button
+                            type="button"
+                            onClick={() => update({ logos: kit.logos.filter(item => item.id !== logo.id) })}
+                            aria-label={`Remove ${logo.name}`}
+                            className="absolute -top-2 -right-2 p-0.5 rounded-full bg-[#0b1324] border border-white/10 text-gray-400 hover:text-white"
+                          >
+                            <RemoveIcon />
+                          </button>
+                        </div>
+                      ))}
+                      <label className="w-20 h-20 rounded-lg border-2 border-dashed border-white/15 flex flex-col items-center justify-center gap-1 text-xs text-gray-400 cursor-pointer hover:bg-white/5">
+                        <MaterialIcon name="add_photo_alternate" />
+                        Add
+                        <input
+                          type="file"
+                          accept="image/png, image/jpeg, image/svg+xml"
+                          className="hidden"
+                          onChange={e => {
+                            const file = e.target.files?.[0];
+                            if (file) handleLogoUpload(file);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                    </div>
+                  </div>
+
+                  <StyleChips label="Dot styles" options={DOT_STYLES} selected={kit.dotTypes} onChange={dotTypes => update({ dotTypes })} />
+                  <StyleChips label="Outer eye styles" options={CORNER_SQUARE_STYLES} selected={kit.cornerSquareTypes} onChange={cornerSquareTypes => update({ cornerSquareTypes })} />
+                  <StyleChips label="Inner eye styles" options={CORNER_DOT_STYLES} selected={kit.cornerDotTypes} onChange={cornerDotTypes => update({ cornerDotTypes })} />
+
+                  <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t border-white/10">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onKitChange(null);
+                        onEnforcedChange(false);
+                      }}
+                      className="inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-lg text-red-400 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                    >
+                      <MaterialIcon name="delete" className="!text-base" />
+                      Delete kit
+                    </button>
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => importRef.current?.click()} className="theme-button inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl">
+                        <MaterialIcon name="upload" className="!text-base" />
+                        Import
+                      </button>
+                      <button type="button" onClick={handleExport} className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl">
+                        <MaterialIcon name="download" className="!text-base" />
+                        Export
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BrandKitDialog;
@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { ErrorCorrectionLevel } from '../types';
+import { ENCODING_MODE_LABELS, estimateQrCapacity } from '../utils/qrCapacity';
+import { MAX_VERSION } from '../utils/qrEncoder';
+
+interface CapacityIndicatorProps {
+  payload: string;
+  level: ErrorCorrectionLevel;
+}
+
+// Past this share of the version's capacity, a little more content moves the code up a version.
+const NEARLY_FULL = 0.9;
+
+const CapacityIndicator: React.FC<CapacityIndicatorProps> = ({ payload, level }) => {
+  const estimate = useMemo(() => estimateQrCapacity(payload, level), [payload, level]);
+  const fits = estimate.version !== null;
+  const share = Math.min(1, estimate.usedBytes / estimate.capacityBytes);
+
+  return (
+    <>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Version:</span>
+        {fits ? (
+          <span className="font-medium">{estimate.version} · {estimate.modules}×{estimate.modules} modules</span>
+        ) : (
+          <span className="font-medium text-amber-300">Too long for level {level}</span>
+        )}
+      </div>
+      <div className="flex justify-between"><span className="text-gray-400">Encoding:</span> <span className="font-medium">{ENCODING_MODE_LABELS[estimate.mode]}</span></div>
+      <div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Data:</span>
+          <span className="font-medium">
+            {estimate.usedBytes} / {estimate.capacityBytes} bytes{fits ? ` at level ${level}` : ` (version ${MAX_VERSION})`}
+          </span>
+        </div>
+        <div
+          className="mt-1.5 h-1.5 rounded-full bg-white/10 overflow-hidden"
+          role="meter"
+          aria-label="Share of the version's capacity in use"
+          aria-valuemin={0}
+          aria-valuemax={estimate.capacityBytes}
+          aria-valuenow={Math.min(estimate.usedBytes, estimate.capacityBytes)}
+        >
+          <div
+            className={`h-full rounded-full transition-all ${!fits ? 'bg-red-400' : share >= NEARLY_FULL ? 'bg-amber-400' : 'bg-indigo-400'}`}
+            style={{ width: `${Math.round(share * 100)}%` }}
+          />
+        </div>
+        {estimate.version !== null && estimate.version < MAX_VERSION && share >= NEARLY_FULL && (
+          <p className="mt-1 text-xs text-gray-400">Nearly full: a few more characters move the code to version {estimate.version + 1}.</p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CapacityIndicator;
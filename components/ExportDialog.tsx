@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ExportSettings, QRCodeConfig, Theme } from '../types';
+import { withDpi } from '../utils/dpi';
+import { downloadBlob, ExportExtension, MAX_EXPORT_PX, MIN_EXPORT_PX, renderQRCodeBlob, resolveExportPixelSize } from '../utils/qrExport';
+import { MaterialIcon } from './icons';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: QRCodeConfig;
+  theme: Theme;
+  initialFormat: ExportExtension;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  printSizeIn: number;
+  onPrintSizeChange: (value: number) => void;
+  // Modules per side of the current symbol, or 0 when the preview has not rendered yet.
+  moduleCount: number;
+}
+
+const FORMATS: ExportExtension[] = ['png', 'jpeg', 'svg'];
+const DPI_PRESETS = [72, 150, 300, 600];
+// Below this many pixels per module, resampling in print or on screen starts to blur module edges.
+const MIN_PX_PER_MODULE = 4;
+
+const inputClass = 'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none';
+
+const OptionButton: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-1.5 rounded-md text-xs transition-colors ${active ? 'bg-indigo-500 text-white font-semibold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+  >
+    {children}
+  </button>
+);
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  onClose,
+  config,
+  theme,
+  initialFormat,
+  settings,
+  onSettingsChange,
+  printSizeIn,
+  onPrintSizeChange,
+  moduleCount,
+}) => {
+  const [format, setFormat] = useState<ExportExtension>(initialFormat);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormat(initialFormat);
+    setError(null);
+  }, [isOpen, initialFormat]);
+
+  const update = (patch: Partial<ExportSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  const pixelSize = resolveExportPixelSize(settings, printSizeIn);
+  const physicalSizeIn = pixelSize / settings.dpi;
+  const totalModules = moduleCount > 0 ? moduleCount + settings.quietZoneModules * 2 : 0;
+  const pxPerModule = totalModules > 0 ? pixelSize / totalModules : 0;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await renderQRCodeBlob(config, {
+        extension: format,
+        size: pixelSize,
+        theme,
+        quietZoneModules: settings.quietZoneModules,
+      });
+      // SVG is resolution independent; only raster output carries a density.
+      const output = format === 'svg' ? blob : await withDpi(blob, format, settings.dpi);
+      const baseName = config.name.trim().replace(/\s+/g, '_') || 'qr-code';
+      downloadBlob(output, `${baseName}-${pixelSize}px.${format === 'jpeg' ? 'jpg' : format}`);
+      onClose();
+    } catch (exportError) {
+      console.error(exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="relative w-full max-w-lg max-h-[90vh] overflow-hidden rounded-3xl border border-white/10 bg-[#0b1324]/95 backdrop-blur-xl shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 text-sm text-gray-300">
+              <div>
+                <p className="text-base font-semibold text-white">Export</p>
+                <p className="text-xs text-gray-400">{config.name}</p>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors">
+                <MaterialIcon name="close" />
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-4.5rem)] space-y-5 text-sm text-gray-300">
+              <div className="flex items-center gap-2">
+                <span className="w-20 text-xs uppercase tracking-wide text-gray-400">Format</span>
+                {FORMATS.map(option => (
+                  <OptionButton key={option} active={format === option} onClick={() => setFormat(option)}>
+                    {option.toUpperCase()}
+                  </OptionButton>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="w-20 text-xs uppercase tracking-wide text-gray-400">Size by</span>
+                <OptionButton active={settings.sizeMode === 'physical'} onClick={() => update({ sizeMode: 'physical' })}>Physical size</OptionButton>
+                <OptionButton active={settings.sizeMode === 'pixels'} onClick={() => update({ sizeMode: 'pixels' })}>Pixels</OptionButton>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {settings.sizeMode === 'physical' ? (
+                  <label className="flex flex-col gap-1 text-xs text-gray-400">
+                    <span>Width (inches)</span>
+                    <input
+                      type="number"
+                      min={0.2}
+                      step={0.1}
+                      value={Number.isFinite(printSizeIn) ? printSizeIn : ''}
+                      onChange={e => onPrintSizeChange(parseFloat(e.target.value) || 0)}
+                      className={inputClass}
+                    />
+                  </label>
+                ) : (
+                  <label className="flex flex-col gap-1 text-xs text-gray-400">
+                    <span>Width (pixels)</span>
+                    <input
+                      type="number"
+                      min={MIN_EXPORT_PX}
+                      max={MAX_EXPORT_PX}
+                      step={1}
+                      value={Number.isFinite(settings.pixelSize) ? settings.pixelSize : ''}
+                      onChange={e => update({ pixelSize: parseInt(e.target.value, 10) || 0 })}
+                      className={inputClass}
+                    />
+                  </label>
+                )}
+                <label className="flex flex-col gap-1 text-xs text-gray-400">
+                  <span>Resolution (DPI)</span>
+                  <input
+                    type="number"
+                    min={36}
+                    max={2400}
+                    step={1}
+                    list="export-dpi-presets"
+                    value={Number.isFinite(settings.dpi) ? settings.dpi : ''}
+                    onChange={e => update({ dpi: Math.max(1, parseInt(e.target.value, 10) || 0) })}
+                    className={inputClass}
+                  />
+                  <datalist id="export-dpi-presets">
+                    {DPI_PRESETS.map(dpi => <option key={dpi} value={dpi} />)}
+                  </datalist>
+                </label>
+              </div>
+
+              <label className="flex flex-col gap-1 text-xs text-gray-400">
+                <span>Quiet zone: {settings.quietZoneModules} module{settings.quietZoneModules === 1 ? '' : 's'}{settings.quietZoneModules < 4 ? ' (spec asks for 4)' : ''}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={10}
+                  step={1}
+                  value={settings.quietZoneModules}
+                  onChange={e => update({ quietZoneModules: parseInt(e.target.value, 10) })}
+                  className="accent-indigo-500"
+                />
+              </label>
+
+              <div className="p-3 rounded-lg bg-black/20 border border-white/10 space-y-1 text-xs">
+                <div className="flex justify-between"><span className="text-gray-400">Output</span><span className="text-white font-medium">{pixelSize} × {pixelSize}px</span></div>
+                <div className="flex justify-between"><span className="text-gray-400">Prints at</span><span className="text-white font-medium">{physicalSizeIn.toFixed(2)} in ({(physicalSizeIn * 2.54).toFixed(1)} cm) at {settings.dpi} DPI</span></div>
+                {pxPerModule > 0 && (
+                  <div className="flex justify-between"><span className="text-gray-400">Per module</span><span className="text-white font-medium">{pxPerModule.toFixed(1)}px ({moduleCount}×{moduleCount} symbol)</span></div>
+                )}
+              </div>
+              {pxPerModule > 0 && pxPerModule < MIN_PX_PER_MODULE && format !== 'svg' && (
+                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">
+                  Under {MIN_PX_PER_MODULE}px per module; increase the size or DPI so module edges stay sharp.
+                </div>
+              )}
+              {error && (
+                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{error}</div>
+              )}
+
+              <div className="flex justify-end pt-2 border-t border-white/10">
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  disabled={isExporting}
+                  className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                >
+                  <MaterialIcon name="download" className="!text-base" />
+                  {isExporting ? 'Rendering…' : `Download ${format.toUpperCase()}`}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ExportDialog;
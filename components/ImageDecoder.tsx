@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CONTENT_TYPE_LABELS } from '../constants';
+import { decodeQrFromImage, isPdf, SUPPORTED_DECODE_TYPES } from '../utils/imageDecode';
+import { detectPayload, DetectedPayload } from '../utils/payloadDetect';
+import { MaterialIcon } from './icons';
+
+interface ImageDecoderProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (detected: DetectedPayload) => void;
+}
+
+interface DecodeState {
+  previewUrl: string;
+  fileName: string;
+  // Browsers cannot show a PDF in an <img>, so these get an icon instead of a preview.
+  isPdf: boolean;
+  text: string | null;
+  detected: DetectedPayload | null;
+}
+
+const ImageDecoder: React.FC<ImageDecoderProps> = ({ isOpen, onClose, onApply }) => {
+  const [state, setState] = useState<DecodeState | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setState(prev => {
+      if (prev) URL.revokeObjectURL(prev.previewUrl);
+      return null;
+    });
+    setError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setIsDecoding(true);
+    try {
+      const text = await decodeQrFromImage(file);
+      const fileIsPdf = isPdf(file);
+      setState({
+        previewUrl: URL.createObjectURL(file),
+        fileName: file.name || 'Pasted image',
+        isPdf: fileIsPdf,
+        text,
+        detected: text === null ? null : detectPayload(text),
+      });
+      if (text === null) {
+        setError(fileIsPdf
+          ? 'No QR code found on the first page of the PDF. If the code is on another page, take a screenshot of it instead.'
+          : 'No QR code found. Try a sharper image, or crop closer to the code.');
+      }
+    } catch (decodeError) {
+      console.error(decodeError);
+      setError(decodeError instanceof Error ? decodeError.message : 'The image could not be read.');
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  // Paste from the clipboard while the dialog is open, e.g. a screenshot of a code.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = Array.from(event.clipboardData?.files ?? [])[0];
+      if (!file) return;
+      event.preventDefault();
+      handleFile(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) reset();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleApply = () => {
+    if (!state?.detected) return;
+    onApply(state.detected);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="relative w-full max-w-lg max-h-[90vh] overflow-hidden rounded-3xl border border-white/10 bg-[#0b1324]/95 backdrop-blur-xl shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 text-sm text-gray-300">
+              <div>
+                <p className="text-base font-semibold text-white">Import from image</p>
+                <p className="text-xs text-gray-400">Upload, drop or paste a picture or PDF of a QR code</p>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors">
+                <MaterialIcon name="close" />
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-4.5rem)] space-y-5 text-sm text-gray-300">
+              <div
+                role="button"
+                tabIndex={0}
+                onClick={() => fileInputRef.current?.click()}
+                onKeyDown={e => (e.key === 'Enter' || e.key === ' ') && fileInputRef.current?.click()}
+                onDragOver={e => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`flex flex-col items-center justify-center gap-2 p-6 rounded-2xl border-2 border-dashed cursor-pointer transition-colors ${isDragging ? 'border-indigo-400 bg-indigo-500/10' : 'border-white/15 bg-black/20 hover:bg-white/5'}`}
+              >
+                {state?.isPdf ? (
+                  <MaterialIcon name="picture_as_pdf" className="!text-4xl text-gray-400" />
+                ) : state ? (
+                  <img src={state.previewUrl} alt={state.fileName} className="max-h-48 rounded-lg object-contain" />
+                ) : (
+                  <MaterialIcon name="qr_code_scanner" className="!text-4xl text-gray-400" />
+                )}
+                <p className="text-xs text-gray-400 text-center">
+                  {isDecoding ? 'Decoding…' : state ? state.fileName : 'Click to choose a file, drop it here, or press Ctrl+V / ⌘V to paste.'}
+                </p>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={SUPPORTED_DECODE_TYPES.join(',')}
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+
+              {error && (
+                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{error}</div>
+              )}
+
+              {state?.text != null && state.detected && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="uppercase tracking-wide text-gray-400">Decoded content</span>
+                    <span className="px-2 py-0.5 rounded-full bg-indigo-500/20 text-indigo-200">{CONTENT_TYPE_LABELS[state.detected.type]}</span>
+                  </div>
+                  <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all p-3 rounded-lg bg-black/20 border border-white/10 text-xs text-white">{state.text}</pre>
+                </div>
+              )}
+
+              <div className="flex justify-end pt-2 border-t border-white/10">
+                <button
+                  type="button"
+                  onClick={handleApply}
+                  disabled={!state?.detected}
+                  className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                >
+                  <MaterialIcon name="edit" className="!text-base" />
+                  Load into editor
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ImageDecoder;
@@ -1,54 +1,494 @@
-
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { QRCodeConfig } from '../types';
-import { DynamicIcon, TrashIcon } from './icons';
+import { ContentType, QRCodeConfig, Theme } from '../types';
+import { CONTENT_TYPE_LABELS } from '../constants';
+import useLocalStorage from '../hooks/useLocalStorage';
+import {
+  addTags,
+  EMPTY_LIBRARY_FILTERS,
+  filterLibrary,
+  hasActiveFilters,
+  LIBRARY_SORTS,
+  LibraryFilters,
+  LibrarySort,
+  libraryFolders,
+  libraryTags,
+  normalizeFolder,
+  parseTags,
+  sortLibrary,
+} from '../utils/library';
+import { downloadBlob, renderQRCodeBlob } from '../utils/qrExport';
+import { RevisionsByCode } from '../utils/revisions';
+import { createZip, uniqueFileNames } from '../utils/zip';
+import QRThumbnail from './QRThumbnail';
+import RevisionHistory from './RevisionHistory';
+import { AnalyticsIcon, DynamicIcon, MaterialIcon, TrashIcon } from './icons';
 
 interface LibraryProps {
   savedQRCodes: QRCodeConfig[];
+  isLoading: boolean;
+  onCodesChange: React.Dispatch<React.SetStateAction<QRCodeConfig[]>>;
   onLoad: (id: string) => void;
-  onDelete: (id:string) => void;
+  // Resolves once the copy is saved; rejects if a dynamic copy's redirect could not be registered.
+  onDuplicate: (id: string) => Promise<void>;
+  onViewAnalytics: (id: string) => void;
+  revisions: RevisionsByCode;
+  onRestoreRevision: (codeId: string, revisionId: string) => void;
+  // The print-sheet dialog is opened by the host so it is not clipped by the library's own modal.
+  onExportPdf: (codes: QRCodeConfig[]) => void;
+  theme: Theme;
 }
 
-const Library: React.FC<LibraryProps> = ({ savedQRCodes, onLoad, onDelete }) => {
+const EXPORT_SIZE = 1024;
+const FOLDER_LIST_ID = 'library-folders';
+
+const inputClass = 'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none placeholder:text-gray-500';
+const selectClass = 'bg-black/20 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white focus:ring-2 focus:ring-indigo-500/50 outline-none';
+const linkButtonClass = 'inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200 disabled:opacity-40';
+
+const iconButtonClass = 'p-2 rounded-md text-gray-500 hover:text-indigo-300 hover:bg-indigo-500/10 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+const Timestamps: React.FC<{ qr: QRCodeConfig }> = ({ qr }) => {
+  if (!qr.createdAt) return null;
+  const edited = qr.updatedAt && qr.updatedAt !== qr.createdAt;
+  const title = `Created ${new Date(qr.createdAt).toLocaleString()}${edited ? `\nUpdated ${new Date(qr.updatedAt as string).toLocaleString()}` : ''}`;
+  return (
+    <p className="text-[11px] text-gray-500 mt-1" title={title}>
+      {edited ? `Updated ${formatDate(qr.updatedAt as string)} · created ${formatDate(qr.createdAt)}` : `Created ${formatDate(qr.createdAt)}`}
+    </p>
+  );
+};
+
+const chipClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-full text-xs transition-colors ${active ? 'bg-indigo-500 text-white font-semibold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`;
+
+const OrganizeEditor: React.FC<{
+  qr: QRCodeConfig;
+  onSave: (patch: Pick<QRCodeConfig, 'folder' | 'tags'>) => void;
+  onCancel: () => void;
+}> = ({ qr, onSave, onCancel }) => {
+  const [folder, setFolder] = useState(qr.folder ?? '');
+  const [tags, setTags] = useState((qr.tags ?? []).join(', '));
+
+  const save = () => {
+    const parsed = parseTags(tags);
+    onSave({ folder: normalizeFolder(folder), tags: parsed.length > 0 ? parsed : undefined });
+  };
+
+  return (
+    <div
+      className="mt-3 grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end"
+      onKeyDown={e => {
+        if (e.key === 'Enter') save();
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Folder
+        <input autoFocus value={folder} onChange={e => setFolder(e.target.value)} list={FOLDER_LIST_ID} placeholder="e.g. Spring campaign" className={inputClass} />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-400">
+        Tags
+        <input value={tags} onChange={e => setTags(e.target.value)} placeholder="print, flyer" className={inputClass} />
+      </label>
+      <div className="flex items-center gap-2">
+        <button type="button" onClick={save} className="theme-button theme-button-primary px-3 py-2 text-sm font-medium rounded-lg">Save</button>
+        <button type="button" onClick={onCancel} className="px-3 py-2 text-sm rounded-lg text-gray-300 hover:bg-white/10">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+const Library: React.FC<LibraryProps> = ({ savedQRCodes, isLoading, onCodesChange, onLoad, onDuplicate, onViewAnalytics, revisions, onRestoreRevision, onExportPdf, theme }) => {
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
+  const [sort, setSort] = useLocalStorage<LibrarySort>('qr-library-sort', 'updated');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [itemError, setItemError] = useState<string | null>(null);
+  const [bulkFolder, setBulkFolder] = useState('');
+  const [bulkTags, setBulkTags] = useState('');
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const folders = useMemo(() => libraryFolders(savedQRCodes), [savedQRCodes]);
+  const tags = useMemo(() => libraryTags(savedQRCodes), [savedQRCodes]);
+  const contentTypes = useMemo(
+    () => (Object.keys(CONTENT_TYPE_LABELS) as ContentType[]).filter(type => savedQRCodes.some(qr => qr.contentType === type)),
+    [savedQRCodes]
+  );
+  const visibleCodes = useMemo(() => sortLibrary(filterLibrary(savedQRCodes, filters), sort), [savedQRCodes, filters, sort]);
+  // Selection survives filtering, but never points at codes that have since been deleted.
+  const selectedCodes = useMemo(() => savedQRCodes.filter(qr => selectedIds.includes(qr.id)), [savedQRCodes, selectedIds]);
+  const allVisibleSelected = visibleCodes.length > 0 && visibleCodes.every(qr => selectedIds.includes(qr.id));
+
+  const setFilter = <K extends keyof LibraryFilters>(key: K, value: LibraryFilters[K]) => setFilters(prev => ({ ...prev, [key]: value }));
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+
+  const toggleAllVisible = () => {
+    const visibleIds = visibleCodes.map(qr => qr.id);
+    setSelectedIds(prev => (allVisibleSelected ? prev.filter(id => !visibleIds.includes(id)) : [...new Set([...prev, ...visibleIds])]));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setConfirmingDelete(false);
+    setExportError(null);
+  };
+
+  // Organisation changes are not edits to the code itself, so they leave updatedAt alone.
+  const updateCodes = (ids: string[], update: (qr: QRCodeConfig) => QRCodeConfig) =>
+    onCodesChange(prev => prev.map(qr => (ids.includes(qr.id) ? update(qr) : qr)));
+
+  const startRename = (qr: QRCodeConfig) => {
+    setRenamingId(qr.id);
+    setRenameValue(qr.name);
+  };
+
+  const commitRename = () => {
+    const name = renameValue.trim();
+    const updatedAt = new Date().toISOString();
+    if (renamingId && name) updateCodes([renamingId], qr => (qr.name === name ? qr : { ...qr, name, updatedAt }));
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (qr: QRCodeConfig) => {
+    setItemError(null);
+    try {
+      await onDuplicate(qr.id);
+    } catch (error) {
+      console.error(error);
+      setItemError(`Duplicated "${qr.name}", but the copy's redirect was not registered: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const deleteCodes = (ids: string[]) => {
+    onCodesChange(prev => prev.filter(qr => !ids.includes(qr.id)));
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const handleBulkFolder = () => {
+    const folder = normalizeFolder(bulkFolder);
+    updateCodes(selectedIds, qr => ({ ...qr, folder }));
+    setBulkFolder('');
+  };
+
+  const handleBulkTags = () => {
+    const added = parseTags(bulkTags);
+    if (added.length === 0) return;
+    updateCodes(selectedIds, qr => ({ ...qr, tags: addTags(qr.tags, added) }));
+    setBulkTags('');
+  };
+
+  const handleBulkDelete = () => {
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    deleteCodes(selectedIds);
+    setConfirmingDelete(false);
+  };
+
+  const handleExportZip = async (extension: 'png' | 'svg') => {
+    if (selectedCodes.length === 0) return;
+    setExportError(null);
+    setProgress({ done: 0, total: selectedCodes.length });
+    try {
+      const names = uniqueFileNames(selectedCodes.map(qr => qr.name), extension);
+      const entries = [];
+      for (const [i, qr] of selectedCodes.entries()) {
+        const blob = await renderQRCodeBlob(qr, { extension, size: EXPORT_SIZE, theme });
+        entries.push({ name: names[i], data: new Uint8Array(await blob.arrayBuffer()) });
+        setProgress({ done: i + 1, total: selectedCodes.length });
+      }
+      downloadBlob(createZip(entries), `qr-library-${extension}.zip`);
+    } catch (error) {
+      console.error(error);
+      setExportError(error instanceof Error ? error.message : 'Export failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
   if (savedQRCodes.length === 0) {
     return (
       <div className="mt-12 text-center text-gray-500">
-        <p>Your saved QR codes will appear here.</p>
+        <p>{isLoading ? 'Loading your saved codes…' : 'Your saved QR codes will appear here.'}</p>
       </div>
     );
   }
 
   return (
-    <div className="mt-8 space-y-3">
-        <AnimatePresence>
-            {savedQRCodes.map((qr) => (
-            <motion.div
+    <div className="space-y-4">
+      <datalist id={FOLDER_LIST_ID}>
+        {folders.map(folder => <option key={folder} value={folder} />)}
+      </datalist>
+
+      <div className="space-y-3">
+        <div className="relative">
+          <MaterialIcon name="search" className="!text-base absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={e => setFilter('query', e.target.value)}
+            placeholder="Search names, content and tags"
+            className={`${inputClass} pl-9`}
+            aria-label="Search saved codes"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={filters.folder ?? '*'} onChange={e => setFilter('folder', e.target.value === '*' ? null : e.target.value)} className={selectClass} aria-label="Folder">
+            <option value="*">All folders</option>
+            <option value="">No folder</option>
+            {folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+          </select>
+          <select
+            value={filters.contentType ?? '*'}
+            onChange={e => setFilter('contentType', e.target.value === '*' ? null : (e.target.value as ContentType))}
+            className={selectClass}
+            aria-label="Content type"
+          >
+            <option value="*">All types</option>
+            {contentTypes.map(type => <option key={type} value={type}>{CONTENT_TYPE_LABELS[type]}</option>)}
+          </select>
+          <div className="flex items-center gap-1">
+            {(['all', 'dynamic', 'static'] as const).map(status => (
+              <button key={status} type="button" onClick={() => setFilter('dynamic', status)} className={`${chipClass(filters.dynamic === status)} capitalize`}>
+                {status}
+              </button>
+            ))}
+          </div>
+          <label className="ml-auto flex items-center gap-2 text-xs text-gray-400">
+            Sort
+            <select value={sort} onChange={e => setSort(e.target.value as LibrarySort)} className={selectClass}>
+              {LIBRARY_SORTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            <MaterialIcon name="sell" className="!text-base text-gray-500" />
+            {tags.map(tag => (
+              <button key={tag} type="button" onClick={() => setFilter('tag', filters.tag === tag ? null : tag)} className={chipClass(filters.tag === tag)}>
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 text-xs text-gray-400">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} disabled={visibleCodes.length === 0} className="accent-indigo-500" />
+          {visibleCodes.length === savedQRCodes.length ? `${savedQRCodes.length} codes` : `${visibleCodes.length} of ${savedQRCodes.length} codes`}
+        </label>
+        {hasActiveFilters(filters) && (
+          <button type="button" onClick={() => setFilters(EMPTY_LIBRARY_FILTERS)} className={linkButtonClass}>
+            <MaterialIcon name="filter_alt_off" className="!text-base" />
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {selectedCodes.length > 0 && (
+        <div className="p-3 rounded-xl bg-indigo-500/10 border border-indigo-400/20 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm text-indigo-100 font-medium">{selectedCodes.length} selected</span>
+            <div className="flex flex-wrap items-center gap-3">
+              <button type="button" onClick={() => handleExportZip('png')} disabled={progress !== null} className={linkButtonClass}>
+                <MaterialIcon name="download" className="!text-base" />
+                PNG ZIP
+              </button>
+              <button type="button" onClick={() => handleExportZip('svg')} disabled={progress !== null} className={linkButtonClass}>
+                <MaterialIcon name="download" className="!text-base" />
+                SVG ZIP
+              </button>
+              <button type="button" onClick={() => onExportPdf(selectedCodes)} disabled={progress !== null} className={linkButtonClass}>
+                <MaterialIcon name="picture_as_pdf" className="!text-base" />
+                PDF sheet
+              </button>
+              <button
+                type="button"
+                onClick={handleBulkDelete}
+                onBlur={() => setConfirmingDelete(false)}
+                className={`inline-flex items-center gap-1 text-xs ${confirmingDelete ? 'text-red-300 font-semibold' : 'text-gray-400 hover:text-red-300'}`}
+              >
+                <TrashIcon className="!text-base" />
+                {confirmingDelete ? `Delete ${selectedCodes.length}?` : 'Delete'}
+              </button>
+              <button type="button" onClick={clearSelection} className="text-xs text-gray-400 hover:text-white">Clear</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <div className="flex items-center gap-2">
+              <input
+                value={bulkFolder}
+                onChange={e => setBulkFolder(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleBulkFolder()}
+                list={FOLDER_LIST_ID}
+                placeholder="Folder (empty to remove)"
+                className={inputClass}
+                aria-label="Move selected codes to folder"
+              />
+              <button type="button" onClick={handleBulkFolder} className="shrink-0 px-3 py-2 text-xs rounded-lg bg-white/5 text-gray-200 hover:bg-white/10">Move</button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                value={bulkTags}
+                onChange={e => setBulkTags(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleBulkTags()}
+                placeholder="Tags, comma separated"
+                className={inputClass}
+                aria-label="Tag selected codes"
+              />
+              <button type="button" onClick={handleBulkTags} disabled={parseTags(bulkTags).length === 0} className="shrink-0 px-3 py-2 text-xs rounded-lg bg-white/5 text-gray-200 hover:bg-white/10 disabled:opacity-40">Tag</button>
+            </div>
+          </div>
+          {progress && <p className="text-xs text-indigo-200">Rendering {progress.done}/{progress.total}…</p>}
+          {exportError && (
+            <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{exportError}</div>
+          )}
+        </div>
+      )}
+
+      {itemError && (
+        <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{itemError}</div>
+      )}
+
+      {visibleCodes.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No saved codes match these filters.</p>
+      ) : (
+        <div className="space-y-3">
+          <AnimatePresence>
+            {visibleCodes.map((qr) => (
+              <motion.div
                 key={qr.id}
                 layout
                 initial={{ opacity: 0, y: 20, scale: 0.95 }}
                 animate={{ opacity: 1, y: 0, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.95, transition: { duration: 0.2 } }}
                 transition={{ duration: 0.3, ease: [0.22, 1, 0.36, 1] }}
-                className="group flex items-center justify-between p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 hover:bg-gray-800 transition-colors duration-200"
-            >
-                <button onClick={() => onLoad(qr.id)} className="flex-grow text-left">
-                    <div className="flex items-center gap-3">
+                className={`group p-3 rounded-lg border transition-colors duration-200 ${selectedIds.includes(qr.id) ? 'bg-indigo-500/10 border-indigo-400/30' : 'bg-gray-800/50 border-gray-700/50 hover:bg-gray-800'}`}
+              >
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(qr.id)}
+                    onChange={() => toggleSelected(qr.id)}
+                    className="shrink-0 accent-indigo-500"
+                    aria-label={`Select ${qr.name}`}
+                  />
+                  <button onClick={() => onLoad(qr.id)} className="shrink-0 rounded-md overflow-hidden" aria-label={`Load ${qr.name}`} tabIndex={-1}>
+                    <QRThumbnail config={qr} size={48} theme={theme} lazy />
+                  </button>
+                  {renamingId === qr.id ? (
+                    <div className="flex-grow min-w-0">
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={e => setRenameValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className={`${inputClass} !py-1`}
+                        aria-label="Code name"
+                      />
+                      <p className="text-xs text-gray-400 truncate mt-1" title={qr.data}>{qr.data}</p>
+                    </div>
+                  ) : (
+                    <button onClick={() => onLoad(qr.id)} className="flex-grow min-w-0 text-left">
+                      <div className="flex items-center gap-3">
                         {qr.isDynamic && <DynamicIcon className="text-gray-400" />}
                         <span className="font-medium truncate" title={qr.name}>{qr.name}</span>
-                    </div>
-                    <p className="text-xs text-gray-400 truncate mt-1" title={qr.data}>{qr.data}</p>
-                </button>
-                <motion.button
-                    onClick={() => onDelete(qr.id)}
+                      </div>
+                      <p className="text-xs text-gray-400 truncate mt-1" title={qr.data}>{qr.data}</p>
+                      {qr.isDynamic && qr.destination && (
+                        <p className="text-xs text-gray-500 truncate" title={qr.destination}>→ {qr.destination}</p>
+                      )}
+                      {(qr.folder || (qr.tags && qr.tags.length > 0)) && (
+                        <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                          {qr.folder && (
+                            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/5 text-[11px] text-gray-300">
+                              <MaterialIcon name="folder" className="!text-xs" />
+                              {qr.folder}
+                            </span>
+                          )}
+                          {qr.tags?.map(tag => (
+                            <span key={tag} className="px-2 py-0.5 rounded-full bg-indigo-500/15 text-[11px] text-indigo-200">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                      <Timestamps qr={qr} />
+                    </button>
+                  )}
+                  <motion.button onClick={() => startRename(qr)} className={iconButtonClass} whileTap={{ scale: 0.9 }} aria-label={`Rename ${qr.name}`}>
+                    <MaterialIcon name="edit" className="w-4 h-4" />
+                  </motion.button>
+                  <motion.button onClick={() => handleDuplicate(qr)} className={iconButtonClass} whileTap={{ scale: 0.9 }} aria-label={`Duplicate ${qr.name}`}>
+                    <MaterialIcon name="content_copy" className="w-4 h-4" />
+                  </motion.button>
+                  <motion.button
+                    onClick={() => setHistoryId(historyId === qr.id ? null : qr.id)}
+                    className={iconButtonClass}
+                    whileTap={{ scale: 0.9 }}
+                    aria-label={`Version history for ${qr.name}`}
+                  >
+                    <MaterialIcon name="history" className="w-4 h-4" />
+                  </motion.button>
+                  <motion.button
+                    onClick={() => setOrganizingId(organizingId === qr.id ? null : qr.id)}
+                    className={iconButtonClass}
+                    whileTap={{ scale: 0.9 }}
+                    aria-label={`Folder and tags for ${qr.name}`}
+                  >
+                    <MaterialIcon name="sell" className="w-4 h-4" />
+                  </motion.button>
+                  {qr.isDynamic && (
+                    <motion.button
+                      onClick={() => onViewAnalytics(qr.id)}
+                      className={iconButtonClass}
+                      whileTap={{ scale: 0.9 }}
+                      aria-label={`View analytics for ${qr.name}`}
+                    >
+                      <AnalyticsIcon className="w-4 h-4" />
+                    </motion.button>
+                  )}
+                  <motion.button
+                    onClick={() => deleteCodes([qr.id])}
                     className="p-2 rounded-md text-gray-500 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-all"
                     whileTap={{ scale: 0.9 }}
-                >
+                    aria-label={`Delete ${qr.name}`}
+                  >
                     <TrashIcon className="w-4 h-4" />
-                </motion.button>
-            </motion.div>
+                  </motion.button>
+                </div>
+                {historyId === qr.id && (
+                  <RevisionHistory revisions={revisions[qr.id] ?? []} current={qr} onRestore={revisionId => onRestoreRevision(qr.id, revisionId)} />
+                )}
+                {organizingId === qr.id && (
+                  <OrganizeEditor
+                    qr={qr}
+                    onSave={patch => {
+                      updateCodes([qr.id], current => ({ ...current, ...patch }));
+                      setOrganizingId(null);
+                    }}
+                    onCancel={() => setOrganizingId(null)}
+                  />
+                )}
+              </motion.div>
             ))}
-      </AnimatePresence>
+          </AnimatePresence>
+        </div>
+      )}
     </div>
   );
 };
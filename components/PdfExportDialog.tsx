@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { QRCodeConfig } from '../types';
+import { SHEET_TEMPLATES } from '../constants';
+import { buildPrintSheetPdf, layoutPrintSheet, PRINT_BLEED_IN } from '../utils/printSheet';
+import { downloadBlob } from '../utils/qrExport';
+import { MaterialIcon } from './icons';
+
+interface PdfExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  codes: QRCodeConfig[];
+  // Physical size from the readiness card; the dialog starts from it but lets the user adjust per export.
+  printSizeIn: number;
+  fileName: string;
+}
+
+const Toggle: React.FC<{ label: string; hint: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, hint, checked, onChange }) => (
+  <label className="flex items-start gap-3 p-3 rounded-lg bg-black/20 border border-white/10 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="mt-0.5 accent-indigo-500" />
+    <span>
+      <span className="block text-sm text-white">{label}</span>
+      <span className="block text-xs text-gray-400">{hint}</span>
+    </span>
+  </label>
+);
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ isOpen, onClose, codes, printSizeIn, fileName }) => {
+  const [templateId, setTemplateId] = useState(SHEET_TEMPLATES[0].id);
+  const [codeSizeIn, setCodeSizeIn] = useState(printSizeIn);
+  const [captions, setCaptions] = useState(false);
+  const [bleed, setBleed] = useState(false);
+  const [cropMarks, setCropMarks] = useState(false);
+  const [fillSheet, setFillSheet] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCodeSizeIn(printSizeIn > 0 ? printSizeIn : 1.5);
+    setCaptions(codes.length > 1);
+    setError(null);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const template = SHEET_TEMPLATES.find(option => option.id === templateId) ?? SHEET_TEMPLATES[0];
+  const options = { template, codeSizeIn, captions, bleedIn: bleed ? PRINT_BLEED_IN : 0, cropMarks };
+  const layout = useMemo(
+    () => layoutPrintSheet(options),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [template, codeSizeIn, captions, bleed, cropMarks]
+  );
+
+  const isSingle = codes.length === 1;
+  const sheetCodes = isSingle && fillSheet ? Array.from({ length: layout.slots.length }, () => codes[0]) : codes;
+  const pageCount = layout.slots.length > 0 ? Math.ceil(sheetCodes.length / layout.slots.length) : 0;
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress({ done: 0, total: new Set(sheetCodes.map(code => code.id)).size });
+    try {
+      const blob = await buildPrintSheetPdf(sheetCodes, options, (done, total) => setProgress({ done, total }));
+      downloadBlob(blob, `${fileName.replace(/\s+/g, '_') || 'qr-codes'}-${template.id}.pdf`);
+    } catch (exportError) {
+      console.error(exportError);
+      setError(exportError instanceof Error ? exportError.message : 'Could not create the PDF.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="relative w-full max-w-2xl max-h-[90vh] overflow-hidden rounded-3xl border border-white/10 bg-[#0b1324]/95 backdrop-blur-xl shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-white/10 text-sm text-gray-300">
+              <div>
+                <p className="text-base font-semibold text-white">Print-ready PDF</p>
+                <p className="text-xs text-gray-400">{codes.length} code{codes.length === 1 ? '' : 's'} · generated in your browser</p>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors">
+                <MaterialIcon name="close" />
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-4.5rem)] space-y-5 text-sm text-gray-300">
+              <div className="space-y-2">
+                <h4 className="text-xs uppercase tracking-wide text-gray-400">Sheet</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {SHEET_TEMPLATES.map(option => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => setTemplateId(option.id)}
+                      className={`text-left p-3 rounded-lg border transition-colors ${templateId === option.id ? 'bg-indigo-500/20 border-indigo-400/60' : 'bg-black/20 border-white/10 hover:bg-white/5'}`}
+                    >
+                      <span className="block text-sm font-semibold text-white">{option.label}</span>
+                      <span className="block text-xs text-gray-400">{option.description}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex flex-col gap-1 text-xs text-gray-400">
+                <span>Code size (inches)</span>
+                <input
+                  type="number"
+                  min={0.4}
+                  step={0.1}
+                  value={Number.isFinite(codeSizeIn) ? codeSizeIn : ''}
+                  onChange={e => setCodeSizeIn(parseFloat(e.target.value) || 0)}
+                  className="w-32 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none"
+                />
+              </label>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <Toggle label="Captions" hint="Print each code's name underneath it." checked={captions} onChange={setCaptions} />
+                <Toggle label={`Bleed (${PRINT_BLEED_IN} in)`} hint="Extend the background past the cut line." checked={bleed} onChange={setBleed} />
+                <Toggle label="Crop marks" hint="Corner marks showing where to cut." checked={cropMarks} onChange={setCropMarks} />
+                {isSingle && (
+                  <Toggle label="Fill the sheet" hint="Repeat this code in every slot." checked={fillSheet} onChange={setFillSheet} />
+                )}
+              </div>
+
+              <p className="text-xs text-gray-400">
+                {layout.slots.length} per page at {layout.codeSizeIn.toFixed(2)} in · {sheetCodes.length} code{sheetCodes.length === 1 ? '' : 's'} on {pageCount} page{pageCount === 1 ? '' : 's'}
+              </p>
+              {layout.warning && (
+                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{layout.warning}</div>
+              )}
+              {error && (
+                <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">{error}</div>
+              )}
+
+              <div className="flex justify-end pt-2 border-t border-white/10">
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  disabled={sheetCodes.length === 0 || layout.codeSizeIn <= 0 || progress !== null}
+                  className="theme-button theme-button-primary inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-xl disabled:opacity-50"
+                >
+                  <MaterialIcon name="picture_as_pdf" className="!text-base" />
+                  {progress ? `Rendering ${progress.done}/${progress.total}…` : 'Download PDF'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default PdfExportDialog;
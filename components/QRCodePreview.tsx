@@ -1,109 +1,34 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useId, useMemo } from 'react';
 import { QRCodeConfig } from '../types';
+import { renderQRCodeSvg } from '../utils/qrRenderer';
 
 interface QRCodePreviewProps {
   config: QRCodeConfig;
-  qrRef: React.MutableRefObject<any | null>;
   theme?: 'light' | 'dark';
 }
 
-const QRCodePreview: React.FC<QRCodePreviewProps> = ({ config, qrRef, theme = 'dark' }) => {
-  const ref = useRef<HTMLDivElement>(null);
-  const { data, fgColor, bgColor, dotType, cornerSquareType, cornerDotType, image, errorCorrectionLevel } = config;
+const QRCodePreview: React.FC<QRCodePreviewProps> = ({ config, theme }) => {
+  const idPrefix = useId();
+  const { data, fgColor, bgColor, dotsGradient, cornersGradient, bgGradient, eyeOuterColor, eyeInnerColor, eyeCornerColors, dotType, cornerSquareType, cornerDotType, image, errorCorrectionLevel } = config;
 
-  // Ensure proper contrast based on theme
-  const getThemeAwareColors = () => {
-    // If background is transparent, use theme-appropriate colors
-    if (bgColor === 'transparent') {
-      if (theme === 'light') {
-        return {
-          resolvedFgColor: '#000000', // Black QR code in light mode
-          resolvedBgColor: '#FFFFFF'  // White background in light mode
-        };
-      } else {
-        return {
-          resolvedFgColor: '#FFFFFF', // White QR code in dark mode
-          resolvedBgColor: '#000000'  // Black background in dark mode
-        };
-      }
-    }
-    
-    // For non-transparent backgrounds, use the configured colors
-    return {
-      resolvedFgColor: fgColor,
-      resolvedBgColor: bgColor
-    };
-  };
-
-  const { resolvedFgColor, resolvedBgColor } = getThemeAwareColors();
-
-  useEffect(() => {
-    if (ref.current) {
-      ref.current.innerHTML = ''; // Clear previous QR code
-      qrRef.current = new QRCodeStyling({
-        width: 256,
-        height: 256,
-        type: 'svg',
-        data: data,
-        image: image,
-        margin: 0,
-        qrOptions: {
-          errorCorrectionLevel: errorCorrectionLevel,
-        },
-        dotsOptions: {
-          color: resolvedFgColor,
-          type: dotType,
-        },
-        backgroundOptions: {
-          color: resolvedBgColor,
-        },
-        cornersSquareOptions: {
-          color: resolvedFgColor,
-          type: cornerSquareType,
-        },
-        cornersDotOptions: {
-            color: resolvedFgColor,
-            type: cornerDotType
-        },
-        imageOptions: {
-            hideBackgroundDots: true,
-            imageSize: 0.4,
-            margin: 4,
-            crossOrigin: 'anonymous',
-        }
-      });
-      qrRef.current.append(ref.current);
+  const rendered = useMemo(() => {
+    try {
+      // Transparent backgrounds resolve per theme so the preview keeps contrast.
+      return { svg: renderQRCodeSvg(config, { theme, idPrefix }) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  useEffect(() => {
-    if (qrRef.current) {
-      qrRef.current.update({
-        data: data,
-        image: image,
-        margin: 0,
-        qrOptions: {
-            errorCorrectionLevel: errorCorrectionLevel,
-        },
-        dotsOptions: {
-          color: resolvedFgColor,
-          type: dotType,
-        },
-        backgroundOptions: { color: resolvedBgColor },
-        cornersSquareOptions: {
-          color: resolvedFgColor,
-          type: cornerSquareType,
-        },
-        cornersDotOptions: {
-            color: resolvedFgColor,
-            type: cornerDotType,
-        }
-      });
-    }
-  }, [data, fgColor, bgColor, dotType, cornerSquareType, cornerDotType, image, qrRef, errorCorrectionLevel, theme]);
-
-  return <div ref={ref} className="transition-all duration-300 ease-in-out" />;
+  }, [data, fgColor, bgColor, dotsGradient, cornersGradient, bgGradient, eyeOuterColor, eyeInnerColor, eyeCornerColors, dotType, cornerSquareType, cornerDotType, image, errorCorrectionLevel, theme, idPrefix]);
+
+  if (rendered.error) {
+    return (
+      <div role="alert" className="w-64 h-64 flex items-center justify-center p-4 text-center text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg">
+        {rendered.error}
+      </div>
+    );
+  }
+  return <div className="transition-all duration-300 ease-in-out" dangerouslySetInnerHTML={{ __html: rendered.svg ?? '' }} />;
 };
 
-export default QRCodePreview;
\ No newline at end of file
+export default QRCodePreview;
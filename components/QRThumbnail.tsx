@@ -0,0 +1,45 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { QRCodeConfig, Theme } from '../types';
+import { renderQRCodeSvg } from '../utils/qrRenderer';
+
+interface QRThumbnailProps {
+  config: QRCodeConfig;
+  size?: number;
+  theme?: Theme;
+  className?: string;
+  // Defer rendering until scrolled near the viewport; long lists would otherwise build every code up front.
+  lazy?: boolean;
+}
+
+const QRThumbnail: React.FC<QRThumbnailProps> = ({ config, size = 96, theme, className = '', lazy = false }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(!lazy);
+  const idPrefix = useId();
+
+  useEffect(() => {
+    if (isVisible || !ref.current) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  const svg = useMemo(() => {
+    if (!isVisible) return '';
+    try {
+      return renderQRCodeSvg(config, { theme, size, idPrefix });
+    } catch (error) {
+      // Saved codes always fit; a thumbnail is not the place to report otherwise.
+      console.error(error);
+      return '';
+    }
+  }, [config, size, theme, isVisible, idPrefix]);
+
+  return <div ref={ref} className={className} style={{ width: size, height: size }} dangerouslySetInnerHTML={{ __html: svg }} />;
+};
+
+export default QRThumbnail;
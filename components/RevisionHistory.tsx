@@ -0,0 +1,60 @@
+import React from 'react';
+import { QRCodeConfig, QRCodeRevision } from '../types';
+import { diffConfigs, sameRevisionContent } from '../utils/revisions';
+import { MaterialIcon } from './icons';
+
+interface RevisionHistoryProps {
+  revisions: QRCodeRevision[];
+  // The code as currently saved; the matching revision is marked instead of offering a restore.
+  current: QRCodeConfig;
+  onRestore: (revisionId: string) => void;
+}
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions, current, onRestore }) => {
+  if (revisions.length === 0) {
+    return <p className="mt-3 text-xs text-gray-500">No saved versions yet. Each save from the editor adds one.</p>;
+  }
+
+  // Newest first, each compared with the save before it.
+  const entries = revisions
+    .map((revision, index) => ({ revision, changes: index > 0 ? diffConfigs(revisions[index - 1].config, revision.config) : null }))
+    .reverse();
+
+  return (
+    <ol className="mt-3 space-y-2 max-h-72 overflow-y-auto pr-1">
+      {entries.map(({ revision, changes }) => {
+        const isCurrent = sameRevisionContent(revision.config, current);
+        return (
+          <li key={revision.id} className="p-2.5 rounded-lg bg-black/20 border border-white/10">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-300">{new Date(revision.savedAt).toLocaleString()}</span>
+              {isCurrent ? (
+                <span className="text-[10px] uppercase tracking-wide text-emerald-300">Current</span>
+              ) : (
+                <button type="button" onClick={() => onRestore(revision.id)} className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200">
+                  <MaterialIcon name="restore" className="!text-base" />
+                  Restore
+                </button>
+              )}
+            </div>
+            {changes === null ? (
+              <p className="mt-1 text-xs text-gray-500">First saved version</p>
+            ) : changes.length === 0 ? (
+              <p className="mt-1 text-xs text-gray-500">Saved without visible changes</p>
+            ) : (
+              <ul className="mt-1 space-y-0.5">
+                {changes.map(change => (
+                  <li key={change.label} className="text-xs text-gray-400 break-all">
+                    <span className="text-gray-300">{change.label}:</span> {change.before} <span className="text-gray-500">→</span> {change.after}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,210 @@
+import React, { useRef, useState } from 'react';
+import { StyleSettings, StyleTemplate } from '../types';
+import { toCssGradient } from '../utils/gradient';
+import { downloadBlob } from '../utils/qrExport';
+import { createStyleTemplate, mergeTemplates, parseTemplateFile, serializeTemplates } from '../utils/styleTemplates';
+import { MaterialIcon, RemoveIcon } from './icons';
+
+interface StyleTemplatesProps {
+  templates: StyleTemplate[];
+  onTemplatesChange: React.Dispatch<React.SetStateAction<StyleTemplate[]>>;
+  defaultTemplateId: string | null;
+  onDefaultChange: (id: string | null) => void;
+  // The editor's current style, captured when saving or updating a template.
+  currentStyle: StyleSettings;
+  onApply: (template: StyleTemplate) => void;
+}
+
+const inputClass = 'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none placeholder:text-gray-500';
+
+const IconButton: React.FC<{ icon: string; label: string; onClick: () => void; active?: boolean }> = ({ icon, label, onClick, active }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-label={label}
+    title={label}
+    className={`p-1.5 rounded-md transition-colors hover:bg-white/10 ${active ? 'text-amber-300' : 'text-gray-400 hover:text-white'}`}
+  >
+    <MaterialIcon name={icon} className="!text-base" />
+  </button>
+);
+
+const TemplateSwatch: React.FC<{ style: StyleSettings }> = ({ style }) => {
+  const background = style.bgGradient ? toCssGradient(style.bgGradient) : style.bgColor === 'transparent' ? undefined : style.bgColor;
+  const foreground = style.dotsGradient ? toCssGradient(style.dotsGradient) : style.fgColor;
+  return (
+    <span className={`flex items-center justify-center w-8 h-8 shrink-0 rounded-lg border border-white/10 ${background ? '' : 'bg-transparent-grid'}`} style={{ background }}>
+      <span className="w-4 h-4 rounded-sm" style={{ background: foreground }} />
+    </span>
+  );
+};
+
+const StyleTemplates: React.FC<StyleTemplatesProps> = ({ templates, onTemplatesChange, defaultTemplateId, onDefaultChange, currentStyle, onApply }) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [message, setMessage] = useState<{ tone: 'info' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onTemplatesChange(prev => [...prev, createStyleTemplate(name, currentStyle)]);
+    setNewName('');
+    setMessage(null);
+  };
+
+  const updateTemplate = (id: string, patch: Partial<Pick<StyleTemplate, 'name' | 'style'>>) => {
+    const updatedAt = new Date().toISOString();
+    onTemplatesChange(prev => prev.map(template => (template.id === id ? { ...template, ...patch, updatedAt } : template)));
+  };
+
+  const handleRename = (id: string) => {
+    const name = editName.trim();
+    if (name) updateTemplate(id, { name });
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    onTemplatesChange(prev => prev.filter(template => template.id !== id));
+    if (defaultTemplateId === id) onDefaultChange(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeTemplates(templates, defaultTemplateId)], { type: 'application/json' });
+    downloadBlob(blob, 'qr-style-templates.json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseTemplateFile(await file.text());
+      onTemplatesChange(prev => mergeTemplates(prev, imported.templates));
+      // A shared brand file names the team default; adopt it so everyone starts from the same style.
+      if (imported.defaultTemplateId) onDefaultChange(imported.defaultTemplateId);
+      setMessage({ tone: 'info', text: `Imported ${imported.templates.length} template${imported.templates.length === 1 ? '' : 's'}.` });
+    } catch (importError) {
+      console.error(importError);
+      setMessage({ tone: 'error', text: importError instanceof Error ? importError.message : 'The templates file could not be read.' });
+    }
+  };
+
+  return (
+    <div className="mt-5 pt-5 border-t border-white/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs uppercase tracking-wide text-gray-400">Your Templates</h4>
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200">
+            <MaterialIcon name="upload" className="!text-base" />
+            Import
+          </button>
+          <button type="button" onClick={handleExport} disabled={templates.length === 0} className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200 disabled:opacity-40">
+            <MaterialIcon name="download" className="!text-base" />
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          placeholder="Template name"
+          className={inputClass}
+          aria-label="New template name"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!newName.trim()}
+          className="theme-button theme-button-primary inline-flex items-center gap-1 shrink-0 px-3 py-2 text-sm font-medium rounded-lg disabled:opacity-50"
+        >
+          <MaterialIcon name="bookmark_add" className="!text-base" />
+          Save style
+        </button>
+      </div>
+
+      {message && (
+        <div className={`text-xs rounded-lg px-3 py-2 border ${message.tone === 'error' ? 'text-amber-200 bg-amber-500/10 border-amber-400/20' : 'text-indigo-200 bg-indigo-500/10 border-indigo-400/20'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="text-xs text-gray-500">Save the current colors, shapes, logo and error correction to reuse them later.</p>
+      ) : (
+        <ul className="space-y-2">
+          {templates.map(template => (
+            <li key={template.id} className="flex items-center gap-3 p-2 rounded-lg bg-white/5 border border-white/10">
+              <TemplateSwatch style={template.style} />
+              {editingId === template.id ? (
+                <input
+                  autoFocus
+                  value={editName}
+                  onChange={e => setEditName(e.target.value)}
+                  onBlur={() => handleRename(template.id)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') handleRename(template.id);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className={inputClass}
+                  aria-label="Template name"
+                />
+              ) : (
+                <button type="button" onClick={() => onApply(template)} className="flex-1 min-w-0 text-left">
+                  <span className="block text-sm text-white truncate">{template.name}</span>
+                  {defaultTemplateId === template.id && <span className="block text-[10px] uppercase tracking-wide text-amber-300">Team default</span>}
+                </button>
+              )}
+              <div className="flex items-center">
+                <IconButton
+                  icon={defaultTemplateId === template.id ? 'star' : 'star_outline'}
+                  label={defaultTemplateId === template.id ? 'Unset team default' : 'Make team default'}
+                  active={defaultTemplateId === template.id}
+                  onClick={() => onDefaultChange(defaultTemplateId === template.id ? null : template.id)}
+                />
+                <IconButton
+                  icon="edit"
+                  label="Rename"
+                  onClick={() => {
+                    setEditingId(template.id);
+                    setEditName(template.name);
+                  }}
+                />
+                <IconButton
+                  icon="sync"
+                  label="Replace with current style"
+                  onClick={() => {
+                    updateTemplate(template.id, { style: currentStyle });
+                    setMessage({ tone: 'info', text: `Updated "${template.name}" to the current style.` });
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => handleDelete(template.id)}
+                  aria-label={`Delete ${template.name}`}
+                  className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                  <RemoveIcon />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StyleTemplates;
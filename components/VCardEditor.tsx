@@ -0,0 +1,199 @@
+import React from 'react';
+import { ErrorCorrectionLevel, VCardAddress, VCardData, VCardFormat, VCardPhoneType } from '../types';
+import { estimateQrCapacity } from '../utils/qrCapacity';
+import { MaterialIcon, RemoveIcon } from './icons';
+
+interface VCardEditorProps {
+  data: VCardData;
+  onChange: React.Dispatch<React.SetStateAction<VCardData>>;
+  // The encoded payload, so the size readout matches exactly what the preview renders.
+  payload: string;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+}
+
+const FORMAT_OPTIONS: { value: VCardFormat; label: string; description: string }[] = [
+  { value: 'vcard3', label: 'vCard 3.0', description: 'Widest support' },
+  { value: 'vcard4', label: 'vCard 4.0', description: 'Current standard' },
+  { value: 'mecard', label: 'MeCard', description: 'Densest, fewer fields' },
+];
+
+const PHONE_TYPES: { value: VCardPhoneType; label: string }[] = [
+  { value: 'cell', label: 'Mobile' },
+  { value: 'work', label: 'Work' },
+  { value: 'home', label: 'Home' },
+  { value: 'fax', label: 'Fax' },
+];
+
+const SOCIAL_NETWORKS = ['LinkedIn', 'X', 'Instagram', 'Facebook', 'GitHub', 'YouTube', 'TikTok'];
+
+// Past version 10 (57×57 modules) codes need noticeably more print area to stay scannable.
+const DENSE_VERSION = 10;
+
+const inputClass = 'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500 outline-none transition text-white placeholder:text-gray-500';
+
+const Field: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string; id: string; className?: string }> = ({ label, id, className = '', ...props }) => (
+  <div className={className}>
+    <label htmlFor={id} className="block text-sm font-medium text-gray-400 mb-1">{label}</label>
+    <input id={id} {...props} className={inputClass} />
+  </div>
+);
+
+const SectionHeading: React.FC<{ title: string; action?: React.ReactNode }> = ({ title, action }) => (
+  <div className="flex items-center justify-between">
+    <h4 className="text-xs uppercase tracking-wide text-gray-400">{title}</h4>
+    {action}
+  </div>
+);
+
+const AddButton: React.FC<{ onClick: () => void; label: string }> = ({ onClick, label }) => (
+  <button type="button" onClick={onClick} className="inline-flex items-center gap-1 text-xs text-indigo-300 hover:text-indigo-200">
+    <MaterialIcon name="add" className="!text-base" />
+    {label}
+  </button>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void; label: string }> = ({ onClick, label }) => (
+  <button type="button" onClick={onClick} aria-label={label} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+    <RemoveIcon />
+  </button>
+);
+
+const VCardSizeMeter: React.FC<{ payload: string; level: ErrorCorrectionLevel; format: VCardFormat }> = ({ payload, level, format }) => {
+  const estimate = estimateQrCapacity(payload, level);
+  const isDense = estimate.version !== null && estimate.version > DENSE_VERSION;
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg bg-black/20 border border-white/10 text-xs">
+        <span className="text-gray-400">{estimate.characters} characters · {estimate.bytes} bytes</span>
+        <span className="text-white font-medium">
+          {estimate.version === null
+            ? `Too large for level ${level}`
+            : `Version ${estimate.version} · ${estimate.modules}×${estimate.modules} modules at level ${level}`}
+        </span>
+      </div>
+      {(isDense || estimate.version === null) && (
+        <div className="text-xs text-amber-200 bg-amber-500/10 border border-amber-400/20 rounded-lg px-3 py-2">
+          {estimate.version === null
+            ? 'This contact does not fit in a QR code. Remove fields or shorten the note.'
+            : `This is a dense code. Print it larger, drop optional fields${format === 'mecard' ? '' : ', or switch to MeCard'} to make it easier to scan.`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const VCardEditor: React.FC<VCardEditorProps> = ({ data, onChange, payload, errorCorrectionLevel }) => {
+  const set = <K extends keyof VCardData>(key: K, value: VCardData[K]) => onChange(prev => ({ ...prev, [key]: value }));
+  const setAddress = (key: keyof VCardAddress, value: string) => onChange(prev => ({ ...prev, address: { ...prev.address, [key]: value } }));
+  const isMeCard = data.format === 'mecard';
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="block text-sm font-medium text-gray-400 mb-2">Format</label>
+        <div className="grid grid-cols-3 gap-2">
+          {FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => set('format', option.value)}
+              className={`p-2 text-center rounded-lg transition-colors ${data.format === option.value ? 'bg-indigo-500 text-white font-semibold' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+            >
+              <span className="text-sm">{option.label}</span>
+              <span className="block text-xs text-gray-300/50">{option.description}</span>
+            </button>
+          ))}
+        </div>
+        {isMeCard && <p className="mt-2 text-xs text-gray-400">MeCard has no title, social or photo fields: the title is added to the organization and profiles become extra URLs. The photo is left out.</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Field label="First Name" id="vcard-fn" value={data.firstName} onChange={e => set('firstName', e.target.value)} />
+        <Field label="Last Name" id="vcard-ln" value={data.lastName} onChange={e => set('lastName', e.target.value)} />
+        <Field label="Organization" id="vcard-org" value={data.org} onChange={e => set('org', e.target.value)} />
+        <Field label="Job Title" id="vcard-title" value={data.title} onChange={e => set('title', e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeading title="Phones" action={<AddButton label="Add phone" onClick={() => set('phones', [...data.phones, { type: 'work', number: '' }])} />} />
+        {data.phones.map((phone, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              value={phone.type}
+              onChange={e => set('phones', data.phones.map((item, i) => (i === index ? { ...item, type: e.target.value as VCardPhoneType } : item)))}
+              className="bg-black/20 border border-white/10 rounded-lg px-2 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none"
+              aria-label="Phone type"
+            >
+              {PHONE_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+            </select>
+            <input
+              type="tel"
+              value={phone.number}
+              onChange={e => set('phones', data.phones.map((item, i) => (i === index ? { ...item, number: e.target.value } : item)))}
+              placeholder="+1 555 123 4567"
+              className={inputClass}
+              aria-label="Phone number"
+            />
+            <RemoveButton label="Remove phone" onClick={() => set('phones', data.phones.filter((_, i) => i !== index))} />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Field label="Email" id="vcard-email" type="email" value={data.email} onChange={e => set('email', e.target.value)} />
+        <Field label="Website" id="vcard-website" type="url" value={data.website} onChange={e => set('website', e.target.value)} placeholder="https://example.com" />
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeading title="Address" />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Field label="Street" id="vcard-street" className="sm:col-span-2" value={data.address.street} onChange={e => setAddress('street', e.target.value)} />
+          <Field label="City" id="vcard-city" value={data.address.city} onChange={e => setAddress('city', e.target.value)} />
+          <Field label="State / Region" id="vcard-region" value={data.address.region} onChange={e => setAddress('region', e.target.value)} />
+          <Field label="Postal Code" id="vcard-postal" value={data.address.postalCode} onChange={e => setAddress('postalCode', e.target.value)} />
+          <Field label="Country" id="vcard-country" value={data.address.country} onChange={e => setAddress('country', e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeading title="Social Profiles" action={<AddButton label="Add profile" onClick={() => set('socials', [...data.socials, { network: SOCIAL_NETWORKS[0], url: '' }])} />} />
+        {data.socials.length === 0 && <p className="text-xs text-gray-500">No profiles added.</p>}
+        {data.socials.map((social, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              list="vcard-social-networks"
+              value={social.network}
+              onChange={e => set('socials', data.socials.map((item, i) => (i === index ? { ...item, network: e.target.value } : item)))}
+              className="w-32 bg-black/20 border border-white/10 rounded-lg px-2 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500/50 outline-none"
+              aria-label="Network"
+            />
+            <input
+              type="url"
+              value={social.url}
+              onChange={e => set('socials', data.socials.map((item, i) => (i === index ? { ...item, url: e.target.value } : item)))}
+              placeholder="https://"
+              className={inputClass}
+              aria-label="Profile URL"
+            />
+            <RemoveButton label="Remove profile" onClick={() => set('socials', data.socials.filter((_, i) => i !== index))} />
+          </div>
+        ))}
+        <datalist id="vcard-social-networks">
+          {SOCIAL_NETWORKS.map(network => <option key={network} value={network} />)}
+        </datalist>
+      </div>
+
+      <div>
+        <label htmlFor="vcard-note" className="block text-sm font-medium text-gray-400 mb-1">Note</label>
+        <textarea id="vcard-note" rows={3} value={data.note} onChange={e => set('note', e.target.value)} className={inputClass} />
+      </div>
+      {!isMeCard && (
+        <Field label="Photo URL" id="vcard-photo" type="url" value={data.photoUrl} onChange={e => set('photoUrl', e.target.value)} placeholder="https://example.com/avatar.jpg" />
+      )}
+
+      <VCardSizeMeter payload={payload} level={errorCorrectionLevel} format={data.format} />
+    </div>
+  );
+};
+
+export default VCardEditor;
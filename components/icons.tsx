@@ -16,6 +16,11 @@ export const TextIcon = () => <MaterialIcon name="title" />;
 export const WifiIcon = () => <MaterialIcon name="wifi" />;
 export const VCardIcon = () => <MaterialIcon name="badge" />;
 export const EmailIcon = () => <MaterialIcon name="email" />;
+export const SmsIcon = () => <MaterialIcon name="sms" />;
+export const PhoneIcon = () => <MaterialIcon name="call" />;
+export const GeoIcon = () => <MaterialIcon name="place" />;
+export const EventIcon = () => <MaterialIcon name="event" />;
+export const CryptoIcon = () => <MaterialIcon name="currency_bitcoin" />;
 
 // Icons for Header/Actions
 export const HistoryIcon = () => <MaterialIcon name="history" />;
@@ -36,4 +41,5 @@ export const ChevronDownIcon = () => <MaterialIcon name="expand_more" />;
 
 // Icons for Library
 export const DynamicIcon = ({ className = 'w-5 h-5' }: { className?: string }) => <MaterialIcon name="bolt" className={className} />;
-export const TrashIcon = ({ className = 'w-5 h-5' }: { className?: string }) => <MaterialIcon name="delete" className={className} />;
\ No newline at end of file
+export const TrashIcon = ({ className = 'w-5 h-5' }: { className?: string }) => <MaterialIcon name="delete" className={className} />;
+export const AnalyticsIcon = ({ className = 'w-5 h-5' }: { className?: string }) => <MaterialIcon name="insights" className={className} />;
\ No newline at end of file
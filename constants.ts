@@ -1,4 +1,4 @@
-import { QRCodeConfig, DotType, CornerSquareType, CornerDotType, ErrorCorrectionLevel } from './types';
+import { QRCodeConfig, ContentType, DotType, CornerSquareType, CornerDotType, ErrorCorrectionLevel, ExportSettings, SheetTemplate, VCardData, WifiData, EmailData, SmsData, GeoData, EventData, CryptoData } from './types';
 
 export const DEFAULT_QR_CODE_CONFIG: Omit<QRCodeConfig, 'id' | 'name'> = {
   data: 'https://example.com',
@@ -40,6 +40,23 @@ export const ERROR_CORRECTION_LEVELS: { value: ErrorCorrectionLevel; label: stri
   { value: 'H', label: 'High', description: '~30% recovery' },
 ];
 
+// Short codes identify dynamic QR codes on the redirect service (e.g. http://localhost:3001/r/aB3xK9q).
+export const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  url: 'URL',
+  text: 'Plain text',
+  wifi: 'WiFi network',
+  vcard: 'Contact card',
+  email: 'Email',
+  sms: 'SMS',
+  phone: 'Phone number',
+  geo: 'Location',
+  event: 'Calendar event',
+  crypto: 'Crypto payment',
+};
+
+export const SHORT_CODE_PATTERN = /^[A-Za-z0-9_-]{4,32}$/;
+export const SHORT_CODE_LENGTH = 7;
+
 export const TEMPLATES: { name: string; config: Partial<Omit<QRCodeConfig, 'id' | 'name' | 'data'>> }[] = [
   {
     name: 'Minimal',
@@ -49,6 +66,12 @@ export const TEMPLATES: { name: string; config: Partial<Omit<QRCodeConfig, 'id'
       dotType: 'square',
       cornerSquareType: 'square',
       cornerDotType: 'square',
+      dotsGradient: undefined,
+      cornersGradient: undefined,
+      bgGradient: undefined,
+      eyeOuterColor: undefined,
+      eyeInnerColor: undefined,
+      eyeCornerColors: undefined,
       image: undefined,
     },
   },
@@ -60,6 +83,12 @@ export const TEMPLATES: { name: string; config: Partial<Omit<QRCodeConfig, 'id'
       dotType: 'rounded',
       cornerSquareType: 'extra-rounded',
       cornerDotType: 'dot',
+      dotsGradient: undefined,
+      cornersGradient: undefined,
+      bgGradient: undefined,
+      eyeOuterColor: undefined,
+      eyeInnerColor: undefined,
+      eyeCornerColors: undefined,
       image: undefined,
     },
   },
@@ -71,7 +100,136 @@ export const TEMPLATES: { name: string; config: Partial<Omit<QRCodeConfig, 'id'
       dotType: 'dots',
       cornerSquareType: 'dot',
       cornerDotType: 'dot',
+      dotsGradient: undefined,
+      cornersGradient: undefined,
+      bgGradient: undefined,
+      eyeOuterColor: '#4338ca',
+      eyeInnerColor: '#db2777',
+      eyeCornerColors: undefined,
+      image: undefined,
+    },
+  },
+  {
+    name: 'Sunset',
+    config: {
+      fgColor: '#9d174d',
+      bgColor: '#fff7ed',
+      dotType: 'rounded',
+      cornerSquareType: 'extra-rounded',
+      cornerDotType: 'dot',
+      dotsGradient: {
+        type: 'linear',
+        rotation: 45,
+        colorStops: [
+          { offset: 0, color: '#7c2d12' },
+          { offset: 0.5, color: '#be123c' },
+          { offset: 1, color: '#6d28d9' },
+        ],
+      },
+      cornersGradient: {
+        type: 'linear',
+        rotation: 45,
+        colorStops: [
+          { offset: 0, color: '#7c2d12' },
+          { offset: 1, color: '#6d28d9' },
+        ],
+      },
+      bgGradient: undefined,
+      eyeOuterColor: undefined,
+      eyeInnerColor: undefined,
+      eyeCornerColors: undefined,
       image: undefined,
     },
   },
+  {
+    name: 'Ocean',
+    config: {
+      fgColor: '#0c4a6e',
+      bgColor: '#f0f9ff',
+      dotType: 'classy-rounded',
+      cornerSquareType: 'extra-rounded',
+      cornerDotType: 'square',
+      dotsGradient: {
+        type: 'radial',
+        rotation: 0,
+        colorStops: [
+          { offset: 0, color: '#0e7490' },
+          { offset: 1, color: '#1e3a8a' },
+        ],
+      },
+      cornersGradient: undefined,
+      bgGradient: {
+        type: 'radial',
+        rotation: 0,
+        colorStops: [
+          { offset: 0, color: '#ffffff' },
+          { offset: 1, color: '#e0f2fe' },
+        ],
+      },
+      eyeOuterColor: undefined,
+      eyeInnerColor: undefined,
+      eyeCornerColors: undefined,
+      image: undefined,
+    },
+  },
+];
+
+export const EMPTY_WIFI_DATA: WifiData = { ssid: '', password: '', encryption: 'WPA', isHidden: false };
+export const EMPTY_EMAIL_DATA: EmailData = { address: '', subject: '', body: '' };
+export const EMPTY_SMS_DATA: SmsData = { phone: '', message: '' };
+export const EMPTY_GEO_DATA: GeoData = { latitude: '', longitude: '' };
+export const EMPTY_EVENT_DATA: EventData = { title: '', location: '', description: '', start: '', end: '', allDay: false };
+export const EMPTY_CRYPTO_DATA: CryptoData = { network: 'bitcoin', address: '', amount: '', label: '', message: '', chainId: '' };
+
+export const EMPTY_VCARD_DATA: VCardData = {
+  format: 'vcard3',
+  firstName: '',
+  lastName: '',
+  org: '',
+  title: '',
+  phones: [{ type: 'cell', number: '' }],
+  email: '',
+  website: '',
+  address: { street: '', city: '', region: '', postalCode: '', country: '' },
+  socials: [],
+  note: '',
+  photoUrl: '',
+};
+
+// ISO/IEC 18004 asks for a four-module quiet zone around the symbol.
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  sizeMode: 'physical',
+  pixelSize: 1024,
+  dpi: 300,
+  quietZoneModules: 4,
+};
+
+// Label layouts follow the manufacturers' published templates; print a test sheet on plain paper first.
+export const SHEET_TEMPLATES: SheetTemplate[] = [
+  { id: 'letter', label: 'US Letter', description: '8.5 × 11 in, codes in a grid', pageWidthIn: 8.5, pageHeightIn: 11 },
+  { id: 'a4', label: 'A4', description: '210 × 297 mm, codes in a grid', pageWidthIn: 8.27, pageHeightIn: 11.69 },
+  {
+    id: 'avery-22805',
+    label: 'Avery 22805',
+    description: '1.5 in square labels, 24 per Letter sheet',
+    pageWidthIn: 8.5,
+    pageHeightIn: 11,
+    labels: { columns: 4, rows: 6, widthIn: 1.5, heightIn: 1.5, leftIn: 0.6875, topIn: 0.625, pitchXIn: 1.875, pitchYIn: 1.65 },
+  },
+  {
+    id: 'avery-5160',
+    label: 'Avery 5160',
+    description: '2.625 × 1 in address labels, 30 per Letter sheet',
+    pageWidthIn: 8.5,
+    pageHeightIn: 11,
+    labels: { columns: 3, rows: 10, widthIn: 2.625, heightIn: 1, leftIn: 0.1875, topIn: 0.5, pitchXIn: 2.75, pitchYIn: 1 },
+  },
+  {
+    id: 'avery-l7120',
+    label: 'Avery L7120',
+    description: '35 mm square labels, 25 per A4 sheet',
+    pageWidthIn: 8.27,
+    pageHeightIn: 11.69,
+    labels: { columns: 5, rows: 5, widthIn: 1.378, heightIn: 1.378, leftIn: 0.413, topIn: 1.319, pitchXIn: 1.516, pitchYIn: 1.811 },
+  },
 ];
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QRCodeConfig } from '../types';
+import { createLibraryRepository, LibraryChanges, LibraryRepository } from '../services/libraryRepository';
+import { RevisionsByCode } from '../utils/revisions';
+
+const defaultRepository = createLibraryRepository();
+
+interface Snapshot {
+  codes: QRCodeConfig[];
+  revisions: RevisionsByCode;
+}
+
+// Works out what to write by reference: setters replace only the entries they touch, so untouched codes keep their identity.
+const diffSnapshots = (previous: Snapshot, next: Snapshot): LibraryChanges | null => {
+  const previousCodes = new Map(previous.codes.map(code => [code.id, code]));
+  const nextIds = new Set(next.codes.map(code => code.id));
+  const putCodes = next.codes.filter(code => previousCodes.get(code.id) !== code);
+  const removeCodeIds = previous.codes.filter(code => !nextIds.has(code.id)).map(code => code.id);
+  const orderChanged = previous.codes.length !== next.codes.length || previous.codes.some((code, index) => code.id !== next.codes[index].id);
+  const putRevisions = Object.fromEntries(Object.entries(next.revisions).filter(([id, list]) => previous.revisions[id] !== list));
+  const removeRevisionIds = Object.keys(previous.revisions).filter(id => !(id in next.revisions));
+  if (putCodes.length === 0 && removeCodeIds.length === 0 && !orderChanged && Object.keys(putRevisions).length === 0 && removeRevisionIds.length === 0) {
+    return null;
+  }
+  return { putCodes, removeCodeIds, order: orderChanged ? next.codes.map(code => code.id) : undefined, putRevisions, removeRevisionIds };
+};
+
+// The saved library and its revisions, persisted to IndexedDB. Reads like useLocalStorage, plus load and error state.
+function useLibraryStore(repository: LibraryRepository = defaultRepository) {
+  const [codes, setCodes] = useState<QRCodeConfig[]>([]);
+  const [revisions, setRevisions] = useState<RevisionsByCode>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // What the database holds; null until the first load finishes so nothing is written over data not yet read.
+  const persisted = useRef<Snapshot | null>(null);
+  // After a failed write the database may lag behind, so the next write replaces everything.
+  const needsFullWrite = useRef(false);
+  // Writes run one at a time, in the order the changes were made.
+  const queue = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    let cancelled = false;
+    repository
+      .migrateFromLocalStorage()
+      .catch(migrationError => {
+        console.error(migrationError);
+        setError(`Your saved codes could not be moved to the new storage yet: ${migrationError instanceof Error ? migrationError.message : String(migrationError)}`);
+      })
+      .then(() => repository.load())
+      .then(loaded => {
+        if (cancelled) return;
+        persisted.current = loaded;
+        // Anything saved while loading is kept and written on the next pass.
+        setCodes(prev => [...loaded.codes, ...prev.filter(code => !loaded.codes.some(stored => stored.id === code.id))]);
+        setRevisions(prev => ({ ...loaded.revisions, ...prev }));
+      })
+      .catch(loadError => {
+        console.error(loadError);
+        if (!cancelled) setError(`Your saved codes could not be loaded: ${loadError instanceof Error ? loadError.message : String(loadError)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository]);
+
+  useEffect(() => {
+    if (!persisted.current) return;
+    const next = { codes, revisions };
+    const changes = needsFullWrite.current
+      ? { replace: true, putCodes: codes, order: codes.map(code => code.id), putRevisions: revisions }
+      : diffSnapshots(persisted.current, next);
+    if (!changes) return;
+    persisted.current = next;
+    needsFullWrite.current = false;
+    queue.current = queue.current
+      .then(() => repository.write(changes))
+      .then(() => setError(null))
+      .catch(writeError => {
+        console.error(writeError);
+        needsFullWrite.current = true;
+        setError(writeError instanceof Error ? writeError.message : String(writeError));
+      });
+  }, [codes, revisions, repository]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { codes, setCodes, revisions, setRevisions, isLoading, error, dismissError };
+}
+
+export default useLibraryStore;
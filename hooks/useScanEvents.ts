@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+import { ScanEvent } from '../types';
+import { fetchScanEvents } from '../services/analyticsService';
+
+// Loads scan events for one code between two timestamps; pass a null codeId to skip fetching.
+function useScanEvents(codeId: string | null, from: number, to: number) {
+  const [events, setEvents] = useState<ScanEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!codeId) {
+      setEvents([]);
+      setError(null);
+      return;
+    }
+    const controller = new AbortController();
+    setIsLoading(true);
+    fetchScanEvents({ codeId, from: new Date(from), to: new Date(to) }, controller.signal)
+      .then(result => {
+        setEvents(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (err.name === 'AbortError') return;
+        console.error(err);
+        setEvents([]);
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [codeId, from, to]);
+
+  return { events, isLoading, error };
+}
+
+export default useScanEvents;
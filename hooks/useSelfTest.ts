@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { QRCodeConfig, SelfTestResult, Theme } from '../types';
+import { gradientEdgeColor } from '../utils/gradient';
+import { encodeQR } from '../utils/qrEncoder';
+import { renderQRCodeBlob } from '../utils/qrExport';
+import { resolveThemeColors } from '../utils/qrOptions';
+import { runSelfTest } from '../utils/selfTest';
+
+// Waits for edits to settle so dragging a color picker does not queue a decode per frame.
+const DEBOUNCE_MS = 400;
+// Matches the live preview, so the test sees what the user sees.
+const PREVIEW_SIZE = 256;
+
+// Decodes the code as previewed after every visual change and reports which capture conditions still scan.
+function useSelfTest(config: QRCodeConfig, theme: Theme) {
+  const [result, setResult] = useState<SelfTestResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { data, fgColor, bgColor, dotsGradient, cornersGradient, bgGradient, eyeOuterColor, eyeInnerColor, eyeCornerColors, dotType, cornerSquareType, cornerDotType, image, errorCorrectionLevel } = config;
+
+  useEffect(() => {
+    if (!data.trim()) {
+      // A run cancelled by clearing the content never reaches its finally, so settle the state here.
+      setResult(null);
+      setIsRunning(false);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    setIsRunning(true);
+    const timer = setTimeout(async () => {
+      try {
+        const blob = await renderQRCodeBlob(config, { extension: 'png', size: PREVIEW_SIZE, theme });
+        const outcome = await runSelfTest(blob, {
+          expected: data,
+          moduleCount: encodeQR(data, errorCorrectionLevel).size,
+          backgroundColor: bgGradient ? gradientEdgeColor(bgGradient) : resolveThemeColors(fgColor, bgColor, theme).resolvedBgColor,
+        });
+        if (cancelled) return;
+        setResult(outcome);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        console.error(err);
+        setResult(null);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setIsRunning(false);
+      }
+    }, DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data, fgColor, bgColor, dotsGradient, cornersGradient, bgGradient, eyeOuterColor, eyeInnerColor, eyeCornerColors, dotType, cornerSquareType, cornerDotType, image, errorCorrectionLevel, theme]);
+
+  return { result, isRunning, error };
+}
+
+export default useSelfTest;
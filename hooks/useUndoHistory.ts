@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const MAX_UNDO_STEPS = 100;
+// Changes closer together than this (dragging a color picker, typing a hex value) collapse into one step.
+const COALESCE_MS = 600;
+
+const shallowEqual = <T extends object>(a: T, b: T) =>
+  (Object.keys({ ...a, ...b }) as (keyof T)[]).every(key => a[key] === b[key]);
+
+// Records past values of `value` for undo/redo; `apply` writes one back. A new `resetKey` (another code loaded) starts over.
+function useUndoHistory<T extends object>(value: T, apply: (value: T) => void, resetKey: string) {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const present = useRef(value);
+  const lastChangeAt = useRef(0);
+  const [, setVersion] = useState(0);
+  const rerender = () => setVersion(version => version + 1);
+
+  useEffect(() => {
+    past.current = [];
+    future.current = [];
+    present.current = value;
+    lastChangeAt.current = 0;
+    rerender();
+    // Only a new key resets; value changes are recorded below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resetKey]);
+
+  useEffect(() => {
+    // Values written by undo/redo already match `present`, so they are not recorded as new steps.
+    if (shallowEqual(value, present.current)) return;
+    const now = Date.now();
+    if (now - lastChangeAt.current > COALESCE_MS || past.current.length === 0) {
+      past.current = [...past.current, present.current].slice(-MAX_UNDO_STEPS);
+    }
+    lastChangeAt.current = now;
+    present.current = value;
+    future.current = [];
+    rerender();
+  }, [value]);
+
+  const undo = useCallback(() => {
+    const previous = past.current[past.current.length - 1];
+    if (!previous) return;
+    past.current = past.current.slice(0, -1);
+    future.current = [present.current, ...future.current];
+    present.current = previous;
+    lastChangeAt.current = 0;
+    apply(previous);
+    rerender();
+  }, [apply]);
+
+  const redo = useCallback(() => {
+    const next = future.current[0];
+    if (!next) return;
+    future.current = future.current.slice(1);
+    past.current = [...past.current, present.current];
+    present.current = next;
+    lastChangeAt.current = 0;
+    apply(next);
+    rerender();
+  }, [apply]);
+
+  return { undo, redo, canUndo: past.current.length > 0, canRedo: future.current.length > 0 };
+}
+
+export default useUndoHistory;
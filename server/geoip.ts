@@ -0,0 +1,68 @@
+import fs from 'node:fs';
+import { ScanLocation } from '../types';
+
+interface GeoRange extends ScanLocation {
+  start: number;
+  end: number;
+}
+
+export interface GeoIpLookup {
+  lookup: (ip: string) => ScanLocation | null;
+  size: number;
+}
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const normalized = ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+  const parts = normalized.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+};
+
+// Reads a CSV of IPv4 ranges: start_ip,end_ip,country,city,latitude,longitude.
+// Free city-level databases (e.g. DB-IP Lite) can be converted to this shape offline.
+export const loadGeoIp = (filePath: string): GeoIpLookup => {
+  let ranges: GeoRange[] = [];
+  try {
+    const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/);
+    ranges = lines
+      .slice(1)
+      .map(line => line.split(','))
+      .filter(columns => columns.length >= 6)
+      .map(([startIp, endIp, country, city, lat, lng]) => ({
+        start: ipv4ToNumber(startIp.trim()) ?? NaN,
+        end: ipv4ToNumber(endIp.trim()) ?? NaN,
+        country: country.trim(),
+        city: city.trim(),
+        lat: Number(lat),
+        lng: Number(lng),
+      }))
+      .filter(range => Number.isFinite(range.start) && Number.isFinite(range.end) && Number.isFinite(range.lat) && Number.isFinite(range.lng))
+      .sort((a, b) => a.start - b.start);
+  } catch (error) {
+    console.warn(`GeoIP file ${filePath} could not be loaded; scans will be recorded without location.`, error);
+  }
+
+  return {
+    size: ranges.length,
+    lookup: (ip) => {
+      const value = ipv4ToNumber(ip);
+      if (value === null) return null;
+      let low = 0;
+      let high = ranges.length - 1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const range = ranges[mid];
+        if (value < range.start) high = mid - 1;
+        else if (value > range.end) low = mid + 1;
+        else return { country: range.country, city: range.city, lat: range.lat, lng: range.lng };
+      }
+      return null;
+    },
+  };
+};
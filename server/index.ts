@@ -0,0 +1,25 @@
+import path from 'node:path';
+import { loadGeoIp } from './geoip';
+import { createLinkStore } from './linkStore';
+import { createRedirectServer } from './redirectServer';
+import { createScanStore } from './scanStore';
+
+const port = Number(process.env.REDIRECT_PORT ?? 3001);
+const host = process.env.REDIRECT_HOST ?? '0.0.0.0';
+const dataDir = path.resolve(process.env.REDIRECT_DATA_DIR ?? 'server/data');
+const geoIpFile = path.resolve(process.env.GEOIP_FILE ?? 'server/geoip/sample.csv');
+
+const geoIp = loadGeoIp(geoIpFile);
+const server = createRedirectServer({
+  links: createLinkStore(dataDir),
+  scans: createScanStore(dataDir),
+  geoIp,
+  visitorSalt: process.env.REDIRECT_VISITOR_SALT ?? 'qr-code-studio',
+  trustProxy: process.env.REDIRECT_TRUST_PROXY === 'true',
+  editorOrigin: process.env.REDIRECT_EDITOR_ORIGIN ?? 'http://localhost:3000',
+  apiToken: process.env.REDIRECT_API_TOKEN || undefined,
+});
+
+server.listen(port, host, () => {
+  console.log(`Redirect service listening on http://localhost:${port} (data: ${dataDir}, GeoIP ranges: ${geoIp.size})`);
+});
@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export interface DynamicLink {
+  shortCode: string;
+  codeId: string;
+  destination: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LinkStore {
+  get: (shortCode: string) => DynamicLink | undefined;
+  list: () => DynamicLink[];
+  upsert: (shortCode: string, input: { codeId: string; destination: string }) => DynamicLink;
+  remove: (shortCode: string) => boolean;
+}
+
+// Links are kept in memory and flushed to a single JSON file after every write.
+// The volume of a local redirect service is small enough that a database would be overkill.
+export const createLinkStore = (dataDir: string): LinkStore => {
+  const filePath = path.join(dataDir, 'links.json');
+  const links = new Map<string, DynamicLink>();
+
+  try {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    const parsed = JSON.parse(raw) as DynamicLink[];
+    parsed.forEach(link => links.set(link.shortCode, link));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Could not read ${filePath}:`, error);
+    }
+  }
+
+  const persist = () => {
+    fs.mkdirSync(dataDir, { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Array.from(links.values()), null, 2));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  return {
+    get: (shortCode) => links.get(shortCode),
+    list: () => Array.from(links.values()),
+    upsert: (shortCode, { codeId, destination }) => {
+      const now = new Date().toISOString();
+      const existing = links.get(shortCode);
+      const link: DynamicLink = {
+        shortCode,
+        codeId,
+        destination,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      links.set(shortCode, link);
+      persist();
+      return link;
+    },
+    remove: (shortCode) => {
+      const deleted = links.delete(shortCode);
+      if (deleted) persist();
+      return deleted;
+    },
+  };
+};
@@ -0,0 +1,215 @@
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { SHORT_CODE_PATTERN } from '../constants';
+import { GeoIpLookup } from './geoip';
+import { LinkStore } from './linkStore';
+import { ScanStore } from './scanStore';
+
+export interface RedirectServerOptions {
+  links: LinkStore;
+  scans: ScanStore;
+  geoIp: GeoIpLookup;
+  visitorSalt: string;
+  // Honour X-Forwarded-For when running behind a proxy (also handy for testing locations locally).
+  trustProxy: boolean;
+  // The studio's origin; only it may call the API from a browser, since scans include user agents and referrers.
+  editorOrigin: string;
+  // Bearer token the studio sends on /api/* requests. Without one the API only answers this machine.
+  apiToken?: string;
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: http.ServerResponse, status: number, message: string) => {
+  sendJson(res, status, { error: message });
+};
+
+const readJsonBody = (req: http.IncomingMessage, limitBytes = 64 * 1024): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limitBytes) {
+        reject(new Error('Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(new Error('Request body must be valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const parseTimeParam = (value: string | null) => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+};
+
+const clientIp = (req: http.IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? '';
+};
+
+const isLoopback = (address: string | undefined) =>
+  address === '::1' || /^(::ffff:)?127\./.test(address ?? '');
+
+// Redirects stay public; the API can repoint or delete printed codes and exposes scan details.
+const checkApiAccess = (req: http.IncomingMessage, apiToken: string | undefined): { status: number; message: string } | null => {
+  if (!apiToken) {
+    return isLoopback(req.socket.remoteAddress)
+      ? null
+      : { status: 403, message: 'The API only answers requests from this machine. Set REDIRECT_API_TOKEN to allow other hosts.' };
+  }
+  const expected = Buffer.from(`Bearer ${apiToken}`);
+  const received = Buffer.from(req.headers.authorization ?? '');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected)
+    ? null
+    : { status: 401, message: 'Missing or invalid API token.' };
+};
+
+export const createRedirectServer = ({ links, scans, geoIp, visitorSalt, trustProxy, editorOrigin, apiToken }: RedirectServerOptions) =>
+  http.createServer(async (req, res) => {
+    // The studio runs on a different port, so it needs CORS; no other site may read the API.
+    res.setHeader('Access-Control-Allow-Origin', editorOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+    let segments: string[];
+    try {
+      segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      // A stray "%" in a scanned or hand-typed URL must not take the service down.
+      sendError(res, 400, 'The request path is not valid percent-encoding.');
+      return;
+    }
+
+    if (segments[0] === 'api') {
+      const denied = checkApiAccess(req, apiToken);
+      if (denied) {
+        sendError(res, denied.status, denied.message);
+        return;
+      }
+    }
+
+    try {
+      if (req.method === 'GET' && segments[0] === 'r' && segments.length === 2) {
+        const link = links.get(segments[1]);
+        if (!link) {
+          res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+          res.end('This QR code is not registered.');
+          return;
+        }
+        const ip = clientIp(req, trustProxy);
+        const userAgent = req.headers['user-agent'] ?? '';
+        scans.record({
+          id: crypto.randomUUID(),
+          codeId: link.codeId,
+          shortCode: link.shortCode,
+          timestamp: new Date().toISOString(),
+          userAgent,
+          referrer: req.headers.referer ?? '',
+          visitorId: crypto.createHash('sha256').update(`${visitorSalt}|${ip}|${userAgent}`).digest('hex').slice(0, 16),
+          destination: link.destination,
+          location: geoIp.lookup(ip),
+        });
+        // Never let browsers cache the redirect, otherwise destination updates would not apply.
+        res.writeHead(302, { Location: link.destination, 'Cache-Control': 'no-store' });
+        res.end();
+        return;
+      }
+
+      if (req.method === 'GET' && pathname === '/health') {
+        sendJson(res, 200, { status: 'ok' });
+        return;
+      }
+
+      if (req.method === 'GET' && pathname === '/api/scans') {
+        sendJson(res, 200, scans.query({
+          codeId: searchParams.get('codeId') ?? undefined,
+          from: parseTimeParam(searchParams.get('from')),
+          to: parseTimeParam(searchParams.get('to')),
+        }));
+        return;
+      }
+
+      if (segments[0] === 'api' && segments[1] === 'links') {
+        const shortCode = segments[2];
+        if (segments.length === 2 && req.method === 'GET') {
+          sendJson(res, 200, links.list());
+          return;
+        }
+        if (segments.length !== 3 || !SHORT_CODE_PATTERN.test(shortCode)) {
+          sendError(res, 400, 'Short codes must be 4–32 letters, digits, "-" or "_".');
+          return;
+        }
+        if (req.method === 'GET') {
+          const link = links.get(shortCode);
+          if (link) sendJson(res, 200, link);
+          else sendError(res, 404, `No link registered for "${shortCode}".`);
+          return;
+        }
+        if (req.method === 'PUT') {
+          const body = await readJsonBody(req) as { codeId?: unknown; destination?: unknown };
+          if (typeof body.codeId !== 'string' || !body.codeId) {
+            sendError(res, 400, '"codeId" is required.');
+            return;
+          }
+          if (!isHttpUrl(body.destination)) {
+            sendError(res, 400, '"destination" must be an absolute http(s) URL.');
+            return;
+          }
+          const existing = links.get(shortCode);
+          if (existing && existing.codeId !== body.codeId) {
+            sendError(res, 409, `Short code "${shortCode}" already belongs to another QR code.`);
+            return;
+          }
+          sendJson(res, 200, links.upsert(shortCode, { codeId: body.codeId, destination: body.destination }));
+          return;
+        }
+        if (req.method === 'DELETE') {
+          if (links.remove(shortCode)) {
+            res.writeHead(204);
+            res.end();
+          } else {
+            sendError(res, 404, `No link registered for "${shortCode}".`);
+          }
+          return;
+        }
+      }
+
+      sendError(res, 404, 'Not found.');
+    } catch (error) {
+      sendError(res, 400, error instanceof Error ? error.message : 'Bad request.');
+    }
+  });
@@ -0,0 +1,53 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ScanEvent } from '../types';
+
+export interface ScanQuery {
+  codeId?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface ScanStore {
+  record: (event: ScanEvent) => void;
+  query: (filter: ScanQuery) => ScanEvent[];
+}
+
+// Scan events are appended as JSON lines so a crash can at worst lose the last partial line.
+export const createScanStore = (dataDir: string): ScanStore => {
+  const filePath = path.join(dataDir, 'scans.jsonl');
+  const events: ScanEvent[] = [];
+
+  try {
+    fs.readFileSync(filePath, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .forEach(line => {
+        try {
+          events.push(JSON.parse(line) as ScanEvent);
+        } catch {
+          // Skip truncated lines rather than refusing to start.
+        }
+      });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Could not read ${filePath}:`, error);
+    }
+  }
+
+  return {
+    record: (event) => {
+      events.push(event);
+      fs.mkdirSync(dataDir, { recursive: true });
+      fs.appendFileSync(filePath, `${JSON.stringify(event)}\n`);
+    },
+    query: ({ codeId, from, to }) =>
+      events.filter(event => {
+        if (codeId && event.codeId !== codeId) return false;
+        const time = Date.parse(event.timestamp);
+        if (from !== undefined && time < from) return false;
+        if (to !== undefined && time >= to) return false;
+        return true;
+      }),
+  };
+};
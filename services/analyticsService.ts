@@ -0,0 +1,20 @@
+import { ScanEvent } from '../types';
+import { apiHeaders, REDIRECT_BASE_URL } from './redirectService';
+
+export const fetchScanEvents = async (
+  { codeId, from, to }: { codeId: string; from: Date; to: Date },
+  signal?: AbortSignal,
+): Promise<ScanEvent[]> => {
+  const query = new URLSearchParams({ codeId, from: from.toISOString(), to: to.toISOString() });
+  let response: Response;
+  try {
+    response = await fetch(`${REDIRECT_BASE_URL}/api/scans?${query}`, { headers: apiHeaders(), signal });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new Error(`Redirect service at ${REDIRECT_BASE_URL} is unreachable. Start it with \`npm run redirect\`.`);
+  }
+  if (!response.ok) {
+    throw new Error(`Redirect service responded with ${response.status}.`);
+  }
+  return response.json() as Promise<ScanEvent[]>;
+};
@@ -0,0 +1,248 @@
+import { QRCodeConfig, QRCodeRevision } from '../types';
+import { dataUrlToBytes, isDataUrl, sha256Hex } from '../utils/dataUrl';
+import { RevisionsByCode } from '../utils/revisions';
+
+const DB_NAME = 'qr-code-studio';
+const DB_VERSION = 1;
+const CODES = 'codes';
+const REVISIONS = 'revisions';
+const LOGOS = 'logos';
+const META = 'meta';
+const ORDER_KEY = 'library-order';
+
+// The keys the library lived under before it moved to IndexedDB.
+export const LEGACY_LIBRARY_KEY = 'qr-codes-library';
+export const LEGACY_REVISIONS_KEY = 'qr-code-revisions';
+
+// Logos are stored once per distinct image and referenced by content hash, so a logo shared by
+// hundreds of codes and their revisions costs its size only once.
+type StoredCode = Omit<QRCodeConfig, 'image'> & { image?: string; logoHash?: string };
+type StoredRevision = Omit<QRCodeRevision, 'config'> & { config: StoredCode };
+interface StoredRevisionList { codeId: string; revisions: StoredRevision[] }
+interface StoredLogo { hash: string; blob: Blob }
+
+export interface LibraryChanges {
+  // Replace drops everything stored first; used to resync after a failed write.
+  replace?: boolean;
+  putCodes?: QRCodeConfig[];
+  removeCodeIds?: string[];
+  order?: string[];
+  putRevisions?: RevisionsByCode;
+  removeRevisionIds?: string[];
+}
+
+export interface LibraryRepository {
+  load: () => Promise<{ codes: QRCodeConfig[]; revisions: RevisionsByCode }>;
+  write: (changes: LibraryChanges) => Promise<void>;
+  // Moves a library left in localStorage by older versions into the database. Resolves to whether anything was moved.
+  migrateFromLocalStorage: () => Promise<boolean>;
+}
+
+export const QUOTA_EXCEEDED_MESSAGE = 'Browser storage is full, so your latest library changes were not saved. Delete unused codes or logos to free up space.';
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const toStorageError = (error: unknown) => {
+  if (isQuotaError(error)) return new Error(QUOTA_EXCEEDED_MESSAGE);
+  return error instanceof Error ? error : new Error(`Library storage failed: ${String(error)}`);
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('The transaction was aborted.', 'AbortError'));
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not support IndexedDB, so the library cannot be saved.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(CODES, { keyPath: 'id' });
+      db.createObjectStore(REVISIONS, { keyPath: 'codeId' });
+      db.createObjectStore(LOGOS, { keyPath: 'hash' });
+      db.createObjectStore(META);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Close other QR Code Studio tabs so the library can be upgraded.'));
+  });
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const createLibraryRepository = (): LibraryRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => {
+    dbPromise ??= openDatabase().catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+    return dbPromise;
+  };
+
+  // Data URL ↔ hash, so unchanged logos are neither re-hashed on save nor re-read on load.
+  const hashByDataUrl = new Map<string, string>();
+  const dataUrlByHash = new Map<string, string>();
+
+  const remember = (hash: string, dataUrl: string) => {
+    hashByDataUrl.set(dataUrl, hash);
+    dataUrlByHash.set(hash, dataUrl);
+  };
+
+  const forget = (hash: string) => {
+    const dataUrl = dataUrlByHash.get(hash);
+    if (dataUrl) hashByDataUrl.delete(dataUrl);
+    dataUrlByHash.delete(hash);
+  };
+
+  // Hashing is async, so it happens before the transaction opens; IndexedDB commits a transaction left idle across it.
+  const prepareLogos = async (configs: QRCodeConfig[]) => {
+    const logos = new Map<string, Blob>();
+    for (const { image } of configs) {
+      if (!image || !isDataUrl(image) || hashByDataUrl.has(image)) continue;
+      const { mimeType, bytes } = dataUrlToBytes(image);
+      const hash = await sha256Hex(bytes);
+      remember(hash, image);
+      logos.set(hash, new Blob([bytes], { type: mimeType }));
+    }
+    return logos;
+  };
+
+  const toStored = ({ image, ...config }: QRCodeConfig): StoredCode => {
+    const logoHash = image ? hashByDataUrl.get(image) : undefined;
+    return logoHash ? { ...config, logoHash } : { ...config, image };
+  };
+
+  const fromStored = ({ logoHash, ...config }: StoredCode): QRCodeConfig =>
+    logoHash ? { ...config, image: dataUrlByHash.get(logoHash) } : config;
+
+  const toStoredRevisions = (codeId: string, revisions: QRCodeRevision[]): StoredRevisionList => ({
+    codeId,
+    revisions: revisions.map(revision => ({ ...revision, config: toStored(revision.config) })),
+  });
+
+  const load = async () => {
+    const database = await db();
+    const transaction = database.transaction([CODES, REVISIONS, LOGOS, META], 'readonly');
+    const [codes, revisionLists, logos, order] = await Promise.all([
+      requestResult(transaction.objectStore(CODES).getAll() as IDBRequest<StoredCode[]>),
+      requestResult(transaction.objectStore(REVISIONS).getAll() as IDBRequest<StoredRevisionList[]>),
+      requestResult(transaction.objectStore(LOGOS).getAll() as IDBRequest<StoredLogo[]>),
+      requestResult(transaction.objectStore(META).get(ORDER_KEY) as IDBRequest<string[] | undefined>),
+    ]);
+    for (const logo of logos) {
+      if (!dataUrlByHash.has(logo.hash)) remember(logo.hash, await blobToDataUrl(logo.blob));
+    }
+    const position = new Map((order ?? []).map((id, index) => [id, index]));
+    const sorted = [...codes].sort((a, b) => (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER));
+    return {
+      codes: sorted.map(fromStored),
+      revisions: Object.fromEntries(
+        revisionLists.map(({ codeId, revisions }) => [codeId, revisions.map(revision => ({ ...revision, config: fromStored(revision.config) }))])
+      ),
+    };
+  };
+
+  const write = async (changes: LibraryChanges) => {
+    const revisionEntries = Object.entries(changes.putRevisions ?? {});
+    const newLogos = await prepareLogos([
+      ...(changes.putCodes ?? []),
+      ...revisionEntries.flatMap(([, revisions]) => revisions.map(revision => revision.config)),
+    ]);
+    try {
+      const database = await db();
+      const transaction = database.transaction([CODES, REVISIONS, LOGOS, META], 'readwrite');
+      const done = transactionDone(transaction);
+      // Awaited at the end; this only keeps an early failure from also reporting an unhandled rejection.
+      done.catch(() => undefined);
+      const codes = transaction.objectStore(CODES);
+      const revisions = transaction.objectStore(REVISIONS);
+      const logos = transaction.objectStore(LOGOS);
+      if (changes.replace) {
+        codes.clear();
+        revisions.clear();
+      }
+      newLogos.forEach((blob, hash) => logos.put({ hash, blob } satisfies StoredLogo));
+      changes.putCodes?.forEach(code => codes.put(toStored(code)));
+      changes.removeCodeIds?.forEach(id => codes.delete(id));
+      revisionEntries.forEach(([codeId, list]) => revisions.put(toStoredRevisions(codeId, list)));
+      changes.removeRevisionIds?.forEach(id => revisions.delete(id));
+      if (changes.order) transaction.objectStore(META).put(changes.order, ORDER_KEY);
+
+      // Drop logos nothing refers to any more, in the same transaction so a failed write keeps them.
+      const [storedCodes, storedRevisions, logoHashes] = await Promise.all([
+        requestResult(codes.getAll() as IDBRequest<StoredCode[]>),
+        requestResult(revisions.getAll() as IDBRequest<StoredRevisionList[]>),
+        requestResult(logos.getAllKeys()),
+      ]);
+      const used = new Set([
+        ...storedCodes.map(code => code.logoHash),
+        ...storedRevisions.flatMap(list => list.revisions.map(revision => revision.config.logoHash)),
+      ]);
+      logoHashes.forEach(hash => {
+        if (!used.has(hash as string)) {
+          logos.delete(hash);
+          forget(hash as string);
+        }
+      });
+      await done;
+    } catch (error) {
+      // The logos never made it to disk, so forget them and hash again next time.
+      newLogos.forEach((_, hash) => forget(hash));
+      throw toStorageError(error);
+    }
+  };
+
+  const migrateFromLocalStorage = async () => {
+    const rawCodes = localStorage.getItem(LEGACY_LIBRARY_KEY);
+    const rawRevisions = localStorage.getItem(LEGACY_REVISIONS_KEY);
+    if (rawCodes === null && rawRevisions === null) return false;
+
+    // An unreadable entry is left in place rather than deleted, so nothing is lost that could still be recovered by hand.
+    const unreadable = new Set<string>();
+    const parse = <T,>(key: string, raw: string | null, fallback: T): T => {
+      if (raw === null) return fallback;
+      try {
+        return JSON.parse(raw) as T;
+      } catch (error) {
+        console.error(`Could not migrate ${key}:`, error);
+        unreadable.add(key);
+        return fallback;
+      }
+    };
+    const parsedCodes = parse<unknown>(LEGACY_LIBRARY_KEY, rawCodes, []);
+    const legacyCodes = Array.isArray(parsedCodes) ? (parsedCodes as QRCodeConfig[]) : [];
+    const legacyRevisions = parse<RevisionsByCode>(LEGACY_REVISIONS_KEY, rawRevisions, {});
+    const existing = await load();
+    const existingIds = new Set(existing.codes.map(code => code.id));
+    await write({
+      putCodes: legacyCodes,
+      // Keep anything already in the database first; migrated codes follow in their old order.
+      order: [...existing.codes.map(code => code.id), ...legacyCodes.map(code => code.id).filter(id => !existingIds.has(id))],
+      putRevisions: legacyRevisions,
+    });
+    // Only clear the old copy once the database write has committed.
+    [LEGACY_LIBRARY_KEY, LEGACY_REVISIONS_KEY].filter(key => !unreadable.has(key)).forEach(key => localStorage.removeItem(key));
+    return true;
+  };
+
+  return { load, write, migrateFromLocalStorage };
+};
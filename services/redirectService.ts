@@ -0,0 +1,35 @@
+import { SHORT_CODE_LENGTH } from '../constants';
+
+export const REDIRECT_BASE_URL = (process.env.REDIRECT_BASE_URL || 'http://localhost:3001').replace(/\/+$/, '');
+const REDIRECT_API_TOKEN = process.env.REDIRECT_API_TOKEN || '';
+
+// The service only answers /api/* from its own machine unless it is given a token; send it when configured.
+export const apiHeaders = (headers: Record<string, string> = {}): Record<string, string> =>
+  REDIRECT_API_TOKEN ? { ...headers, Authorization: `Bearer ${REDIRECT_API_TOKEN}` } : headers;
+
+const SHORT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+
+// Ambiguous characters (0/O, 1/l/I) are left out so short URLs can be typed from print.
+export const generateShortCode = (length = SHORT_CODE_LENGTH) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, byte => SHORT_CODE_ALPHABET[byte % SHORT_CODE_ALPHABET.length]).join('');
+};
+
+export const buildShortUrl = (shortCode: string) => `${REDIRECT_BASE_URL}/r/${shortCode}`;
+
+export const upsertDynamicLink = async (link: { shortCode: string; codeId: string; destination: string }) => {
+  let response: Response;
+  try {
+    response = await fetch(`${REDIRECT_BASE_URL}/api/links/${encodeURIComponent(link.shortCode)}`, {
+      method: 'PUT',
+      headers: apiHeaders({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ codeId: link.codeId, destination: link.destination }),
+    });
+  } catch {
+    throw new Error(`Redirect service at ${REDIRECT_BASE_URL} is unreachable. Start it with \`npm run redirect\`.`);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error ?? `Redirect service responded with ${response.status}.`);
+  }
+};
@@ -1,28 +1,69 @@
-import type { Options as QRCodeStylingOptions } from 'qr-code-styling';
-
-// Declare the QRCodeStyling library loaded from CDN
-declare global {
-    var QRCodeStyling: new (options?: QRCodeStylingOptions) => any;
-    function jsQR(data: Uint8ClampedArray, width: number, height: number, options?: { inversionAttempts?: 'dontInvert' | 'onlyInvert' | 'both'; }): {
-        data: string;
-        location: {
-            topLeftCorner: { x: number, y: number },
-            topRightCorner: { x: number, y: number },
-            bottomLeftCorner: { x: number, y: number },
-            bottomRightCorner: { x: number, y: number },
-            topLeftFinderPattern: { x: number, y: number },
-            topRightFinderPattern: { x: number, y: number },
-            bottomLeftFinderPattern: { x: number, y: number },
-        }
-    } | null;
-}
-
 export type DotType = 'square' | 'dots' | 'rounded' | 'extra-rounded' | 'classy' | 'classy-rounded';
 export type CornerSquareType = 'square' | 'dot' | 'extra-rounded';
 export type CornerDotType = 'square' | 'dot';
 
-export type ContentType = 'url' | 'text' | 'wifi' | 'vcard' | 'email';
+export type ContentType = 'url' | 'text' | 'wifi' | 'vcard' | 'email' | 'sms' | 'phone' | 'geo' | 'event' | 'crypto';
 export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+export type Theme = 'dark' | 'light';
+
+export type UtmParams = {
+  source: string;
+  medium: string;
+  campaign: string;
+  term: string;
+  content: string;
+};
+
+export type WifiData = { ssid: string; password: string; encryption: string; isHidden: boolean };
+export type EmailData = { address: string; subject: string; body: string };
+export type VCardFormat = 'vcard3' | 'vcard4' | 'mecard';
+export type VCardPhoneType = 'cell' | 'work' | 'home' | 'fax';
+export type VCardPhone = { type: VCardPhoneType; number: string };
+export type VCardAddress = { street: string; city: string; region: string; postalCode: string; country: string };
+export type VCardSocial = { network: string; url: string };
+export type VCardData = {
+  format: VCardFormat;
+  firstName: string;
+  lastName: string;
+  org: string;
+  title: string;
+  phones: VCardPhone[];
+  email: string;
+  website: string;
+  address: VCardAddress;
+  socials: VCardSocial[];
+  note: string;
+  // Linked rather than embedded: even a tiny inline JPEG exceeds what a QR code can hold.
+  photoUrl: string;
+};
+export type SmsData = { phone: string; message: string };
+export type GeoData = { latitude: string; longitude: string };
+// start/end come straight from date (all-day) or datetime-local inputs, in the user's local time.
+export type EventData = { title: string; location: string; description: string; start: string; end: string; allDay: boolean };
+export type CryptoNetwork = 'bitcoin' | 'ethereum';
+export type CryptoData = { network: CryptoNetwork; address: string; amount: string; label: string; message: string; chainId: string };
+
+export type GradientType = 'linear' | 'radial';
+
+export interface GradientStop {
+  // 0–1 along the gradient axis (linear) or from center to edge (radial).
+  offset: number;
+  color: string;
+}
+
+export interface GradientFill {
+  type: GradientType;
+  // Degrees, clockwise; ignored for radial gradients.
+  rotation: number;
+  colorStops: GradientStop[];
+}
+
+export type FinderCorner = 'topLeft' | 'topRight' | 'bottomLeft';
+
+export interface FinderColors {
+  outer?: string;
+  inner?: string;
+}
 
 export interface QRCodeConfig {
   id: string;
@@ -32,10 +73,196 @@ export interface QRCodeConfig {
   isDynamic: boolean;
   fgColor: string;
   bgColor: string;
+  // Gradients override the flat color for their part of the code when set.
+  dotsGradient?: GradientFill;
+  cornersGradient?: GradientFill;
+  bgGradient?: GradientFill;
+  // Finder eye colors fall back to fgColor; per-corner entries override both for a single eye.
+  eyeOuterColor?: string;
+  eyeInnerColor?: string;
+  eyeCornerColors?: Partial<Record<FinderCorner, FinderColors>>;
   dotType: DotType;
   cornerSquareType: CornerSquareType;
   cornerDotType: CornerDotType;
   errorCorrectionLevel: ErrorCorrectionLevel;
   image?: string;
   rawUrl?: string;
+  // Dynamic codes encode a short URL on the redirect service; `destination` is where it points.
+  shortCode?: string;
+  destination?: string;
+  // Library organisation. Both are owned by the library, so re-saving from the editor keeps them.
+  folder?: string;
+  tags?: string[];
+  // ISO timestamps set on save; codes saved before they existed have neither.
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// A saved state of a library code. Every save appends one, so earlier styles and destinations can be restored.
+export interface QRCodeRevision {
+  id: string;
+  savedAt: string;
+  config: QRCodeConfig;
+}
+
+// The visual half of a config: what a style template carries. Content, naming and dynamic-link fields stay with the code.
+export type StyleSettings = Pick<
+  QRCodeConfig,
+  | 'fgColor'
+  | 'bgColor'
+  | 'dotsGradient'
+  | 'cornersGradient'
+  | 'bgGradient'
+  | 'eyeOuterColor'
+  | 'eyeInnerColor'
+  | 'eyeCornerColors'
+  | 'dotType'
+  | 'cornerSquareType'
+  | 'cornerDotType'
+  | 'errorCorrectionLevel'
+  | 'image'
+>;
+
+export interface StyleTemplate {
+  id: string;
+  name: string;
+  style: StyleSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  // Data URL, so the kit stays self-contained when shared.
+  image: string;
+}
+
+// Approved values a team's codes must stick to. An empty list leaves that category unrestricted.
+export interface BrandKit {
+  name: string;
+  colors: string[];
+  allowTransparentBackground: boolean;
+  logos: BrandLogo[];
+  dotTypes: DotType[];
+  cornerSquareTypes: CornerSquareType[];
+  cornerDotTypes: CornerDotType[];
+}
+
+export interface ScanLocation {
+  country: string;
+  city: string;
+  lat: number;
+  lng: number;
+}
+
+export interface ScanEvent {
+  id: string;
+  codeId: string;
+  shortCode: string;
+  timestamp: string;
+  userAgent: string;
+  referrer: string;
+  // Salted hash of IP + user agent; raw IP addresses are never stored.
+  visitorId: string;
+  destination: string;
+  location: ScanLocation | null;
+}
+
+export type HeatPoint = {
+  id: string;
+  label: string;
+  lat: number;
+  lng: number;
+  scans: number;
+  intensity: number;
+};
+
+export type FunnelStep = {
+  id: string;
+  label: string;
+  value: number;
+  description: string;
+};
+
+export interface AnalyticsData {
+  period: string;
+  totalScans: number;
+  uniqueVisitors: number;
+  retentionRate: number;
+  topLocations: HeatPoint[];
+  funnel: FunnelStep[];
+  roi: {
+    revenue: number;
+    spend: number;
+    roas: number;
+    costPerAcquisition: number;
+    costPerScan: number;
+  };
+  utmBreakdown: { id: string; label: string; scans: number; share: number }[];
+  timeSeries: TimeSeriesPoint[];
+  comparison: {
+    previousTotalScans: number;
+    previousUniqueVisitors: number;
+    // Relative change versus the previous period of equal length; null when there is nothing to compare to.
+    scansChange: number | null;
+    visitorsChange: number | null;
+  };
+}
+
+export type TimeSeriesPoint = {
+  start: string;
+  label: string;
+  scans: number;
+};
+
+export type AnalyticsRangePreset = '24h' | '7d' | '30d' | 'custom';
+
+export interface AnalyticsRange {
+  preset: AnalyticsRangePreset;
+  // Inclusive calendar dates (YYYY-MM-DD) used when preset is 'custom'.
+  customFrom: string;
+  customTo: string;
+}
+
+export interface SheetTemplate {
+  id: string;
+  label: string;
+  description: string;
+  pageWidthIn: number;
+  pageHeightIn: number;
+  // Present for die-cut label sheets; plain pages lay codes out in an automatic grid.
+  labels?: {
+    columns: number;
+    rows: number;
+    widthIn: number;
+    heightIn: number;
+    leftIn: number;
+    topIn: number;
+    pitchXIn: number;
+    pitchYIn: number;
+  };
+}
+
+export interface ExportSettings {
+  // 'physical' derives pixels from the readiness card's print size and the DPI below.
+  sizeMode: 'pixels' | 'physical';
+  pixelSize: number;
+  dpi: number;
+  quietZoneModules: number;
+}
+
+export type SelfTestVariantId = 'original' | 'blur' | 'downscale' | 'lowContrast';
+
+export interface SelfTestVariantResult {
+  id: SelfTestVariantId;
+  label: string;
+  passed: boolean;
+  // Decoded only after inverting; many older scanner apps never try that.
+  invertedOnly: boolean;
+}
+
+export interface SelfTestResult {
+  data: string;
+  variants: SelfTestVariantResult[];
 }
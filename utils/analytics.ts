@@ -0,0 +1,194 @@
+import { AnalyticsData, AnalyticsRange, FunnelStep, HeatPoint, ScanEvent, TimeSeriesPoint } from '../types';
+
+export interface ResolvedRange {
+  from: number;
+  to: number;
+  label: string;
+  bucket: 'hour' | 'day';
+}
+
+export interface AnalyticsOptions {
+  range: ResolvedRange;
+  spend?: number;
+  revenue?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_LOCATIONS = 5;
+const MAX_UTM_ROWS = 5;
+
+const PRESET_DAYS: Record<Exclude<AnalyticsRange['preset'], '24h' | 'custom'>, number> = { '7d': 7, '30d': 30 };
+
+const startOfLocalDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const parseLocalDate = (value: string) => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+};
+
+export const toDateInputValue = (time: number) => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Day-based presets start at local midnight so each bar in the chart covers a whole calendar day.
+export const resolveAnalyticsRange = (range: AnalyticsRange, now = Date.now()): ResolvedRange => {
+  if (range.preset === '24h') {
+    return { from: now - DAY_MS, to: now, label: 'Last 24 hours', bucket: 'hour' };
+  }
+  if (range.preset === 'custom') {
+    const start = parseLocalDate(range.customFrom);
+    const end = parseLocalDate(range.customTo);
+    if (start !== null && end !== null) {
+      const [first, last] = start <= end ? [start, end] : [end, start];
+      const to = startOfLocalDay(last + DAY_MS + HOUR_MS);
+      return {
+        from: first,
+        to,
+        label: `${new Date(first).toLocaleDateString()} – ${new Date(last).toLocaleDateString()}`,
+        bucket: to - first <= 2 * DAY_MS ? 'hour' : 'day',
+      };
+    }
+  }
+  const days = range.preset === 'custom' ? 30 : PRESET_DAYS[range.preset];
+  return {
+    from: startOfLocalDay(now) - (days - 1) * DAY_MS,
+    to: now,
+    label: `Last ${days} days`,
+    bucket: 'day',
+  };
+};
+
+export const previousPeriodStart = ({ from, to }: ResolvedRange) => from - (to - from);
+
+const safeDivide = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : 0);
+
+const utmLabel = (destination: string) => {
+  try {
+    const params = new URL(destination).searchParams;
+    const source = params.get('utm_source');
+    const medium = params.get('utm_medium');
+    if (!source && !medium) return 'direct / none';
+    return `${source || '(not set)'} / ${medium || '(not set)'}`;
+  } catch {
+    return 'direct / none';
+  }
+};
+
+const countBy = <T,>(items: T[], keyOf: (item: T) => string) => {
+  const counts = new Map<string, { item: T; count: number }>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    const entry = counts.get(key);
+    if (entry) entry.count += 1;
+    else counts.set(key, { item, count: 1 });
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1].count - a[1].count);
+};
+
+const relativeChange = (current: number, previous: number) =>
+  previous > 0 ? Number(((current - previous) / previous).toFixed(2)) : null;
+
+const buildTimeSeries = (events: ScanEvent[], { from, to, bucket }: ResolvedRange): TimeSeriesPoint[] => {
+  const points: TimeSeriesPoint[] = [];
+  const index = new Map<number, TimeSeriesPoint>();
+  const floor = (time: number) => (bucket === 'hour' ? Math.floor(time / HOUR_MS) * HOUR_MS : startOfLocalDay(time));
+  // Stepping to the next local midnight (rather than adding 24h) keeps days aligned across DST changes.
+  const next = (start: number) => (bucket === 'hour' ? start + HOUR_MS : startOfLocalDay(start + DAY_MS + HOUR_MS));
+  for (let start = floor(from); start < to; start = next(start)) {
+    const date = new Date(start);
+    const point = {
+      start: date.toISOString(),
+      label: bucket === 'hour'
+        ? date.toLocaleTimeString(undefined, { hour: 'numeric' })
+        : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      scans: 0,
+    };
+    points.push(point);
+    index.set(start, point);
+  }
+  events.forEach(event => {
+    const point = index.get(floor(Date.parse(event.timestamp)));
+    if (point) point.scans += 1;
+  });
+  return points;
+};
+
+const countVisitors = (events: ScanEvent[]) => new Set(events.map(event => event.visitorId)).size;
+
+// `events` may include the previous period as well; anything before `range.from` is used for comparison only.
+export const computeAnalytics = (allEvents: ScanEvent[], { range, spend = 0, revenue = 0 }: AnalyticsOptions): AnalyticsData => {
+  const previousFrom = previousPeriodStart(range);
+  const events: ScanEvent[] = [];
+  const previousEvents: ScanEvent[] = [];
+  allEvents.forEach(event => {
+    const time = Date.parse(event.timestamp);
+    if (time >= range.from && time < range.to) events.push(event);
+    else if (time >= previousFrom && time < range.from) previousEvents.push(event);
+  });
+
+  const totalScans = events.length;
+  const scansPerVisitor = countBy(events, event => event.visitorId);
+  const uniqueVisitors = scansPerVisitor.length;
+  const returningVisitors = scansPerVisitor.filter(([, entry]) => entry.count > 1).length;
+
+  const located = events.filter(event => event.location);
+  const locationCounts = countBy(located, event => `${event.location!.city}, ${event.location!.country}`).slice(0, MAX_LOCATIONS);
+  const busiestLocation = locationCounts[0]?.[1].count ?? 0;
+  const topLocations: HeatPoint[] = locationCounts.map(([label, { item, count }]) => ({
+    id: label,
+    label,
+    lat: item.location!.lat,
+    lng: item.location!.lng,
+    scans: count,
+    intensity: Number(safeDivide(count, busiestLocation).toFixed(2)),
+  }));
+
+  const funnel: FunnelStep[] = [
+    { id: 'scans', label: 'Scans', value: totalScans, description: 'Redirects served for this code.' },
+    { id: 'visitors', label: 'Unique Visitors', value: uniqueVisitors, description: 'Distinct devices, keyed by a salted IP + user agent hash.' },
+    { id: 'returning', label: 'Returning Visitors', value: returningVisitors, description: 'Devices that scanned more than once in this period.' },
+  ];
+
+  const utmBreakdown = countBy(events, event => utmLabel(event.destination))
+    .slice(0, MAX_UTM_ROWS)
+    .map(([label, { count }]) => ({
+      id: label,
+      label,
+      scans: count,
+      share: Number(safeDivide(count, totalScans).toFixed(2)),
+    }));
+
+  const previousUniqueVisitors = countVisitors(previousEvents);
+
+  return {
+    period: range.label,
+    totalScans,
+    uniqueVisitors,
+    retentionRate: Number(safeDivide(returningVisitors, uniqueVisitors).toFixed(2)),
+    topLocations,
+    funnel,
+    roi: {
+      revenue,
+      spend,
+      roas: Number(safeDivide(revenue, spend).toFixed(2)),
+      costPerAcquisition: Number(safeDivide(spend, uniqueVisitors).toFixed(2)),
+      costPerScan: Number(safeDivide(spend, totalScans).toFixed(2)),
+    },
+    utmBreakdown,
+    timeSeries: buildTimeSeries(events, range),
+    comparison: {
+      previousTotalScans: previousEvents.length,
+      previousUniqueVisitors,
+      scansChange: relativeChange(totalScans, previousEvents.length),
+      visitorsChange: relativeChange(uniqueVisitors, previousUniqueVisitors),
+    },
+  };
+};
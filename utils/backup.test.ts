@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_QR_CODE_CONFIG } from '../constants';
+import { QRCodeConfig } from '../types';
+import { planImport } from './backup';
+import { appendRevision } from './revisions';
+
+const code = (overrides: Partial<QRCodeConfig>): QRCodeConfig => ({ ...DEFAULT_QR_CODE_CONFIG, id: 'qr-1', name: 'Menu', ...overrides });
+
+const dynamic = (overrides: Partial<QRCodeConfig>) =>
+  code({ isDynamic: true, shortCode: 'menu1', data: 'https://qr.example/r/menu1', destination: 'https://example.com/menu', ...overrides });
+
+describe('planImport', () => {
+  it('keeps the local history when overwriting and adds the replaced and imported versions', () => {
+    const saved = code({ data: 'https://example.com/v2', updatedAt: '2026-01-02T00:00:00.000Z' });
+    const history = appendRevision({}, code({ data: 'https://example.com/v1', updatedAt: '2026-01-01T00:00:00.000Z' }));
+    const incoming = code({ data: 'https://example.com/backup', updatedAt: '2026-01-03T00:00:00.000Z' });
+    const plan = planImport({ codes: [saved], revisions: history }, { codes: [incoming], revisions: { 'qr-1': [] } }, 'overwrite');
+    assert.deepEqual(plan.codes, [incoming]);
+    assert.deepEqual(plan.revisions['qr-1'].map(revision => revision.config.data), ['https://example.com/v1', 'https://example.com/v2', 'https://example.com/backup']);
+    assert.equal(plan.replaced, 1);
+  });
+
+  it('registers every imported dynamic code whose short link may be unknown or outdated', () => {
+    const local = { codes: [dynamic({})], revisions: {} };
+    const incoming = [
+      dynamic({ destination: 'https://example.com/new-menu' }),
+      dynamic({ id: 'qr-2', shortCode: 'promo1', data: 'https://qr.example/r/promo1' }),
+      code({ id: 'qr-3' }),
+    ];
+    const overwritten = planImport(local, { codes: incoming, revisions: {} }, 'overwrite');
+    assert.deepEqual(overwritten.dynamicCodesToRegister.map(qr => qr.id), ['qr-1', 'qr-2']);
+    assert.equal(overwritten.dynamicCodesToRegister[0].destination, 'https://example.com/new-menu');
+
+    const copied = planImport(local, { codes: incoming, revisions: {} }, 'keep-both');
+    const [copy, added] = copied.dynamicCodesToRegister;
+    assert.notEqual(copy.id, 'qr-1');
+    assert.notEqual(copy.shortCode, 'menu1');
+    assert.equal(added.id, 'qr-2');
+
+    const skipped = planImport(local, { codes: incoming, revisions: {} }, 'skip');
+    assert.deepEqual(skipped.dynamicCodesToRegister.map(qr => qr.id), ['qr-2']);
+  });
+});
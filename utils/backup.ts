@@ -0,0 +1,330 @@
+import { BrandKit, ContentType, ExportSettings, QRCodeConfig, QRCodeRevision, StyleTemplate, Theme } from '../types';
+import { CONTENT_TYPE_LABELS } from '../constants';
+import { generateShortCode, buildShortUrl } from '../services/redirectService';
+import { parseBrandKitFile, serializeBrandKit } from './brandKit';
+import { bytesToDataUrl, dataUrlToBytes, isDataUrl, sha256Hex } from './dataUrl';
+import { copyName } from './library';
+import { appendRevision, RevisionsByCode } from './revisions';
+import { createStyleTemplate, mergeTemplates, parseTemplateFile, readStyle, serializeTemplates } from './styleTemplates';
+import { createZip, readZip } from './zip';
+
+export const BACKUP_FILE_FORMAT = 'qr-code-studio/backup';
+export const BACKUP_FILE_VERSION = 1;
+const ZIP_MANIFEST = 'backup.json';
+
+export interface BackupSettings {
+  theme: Theme;
+  exportSettings: ExportSettings;
+  brandKitEnforced: boolean;
+}
+
+// Everything a backup carries, in the shape the app holds it.
+export interface BackupData {
+  codes: QRCodeConfig[];
+  revisions: RevisionsByCode;
+  templates: StyleTemplate[];
+  defaultTemplateId: string | null;
+  brandKit: BrandKit | null;
+  settings: BackupSettings;
+}
+
+// Codes reference logos by content hash, so a logo shared across codes and revisions is written once.
+// JSON backups embed each logo as base64; ZIP backups store it as a file next to the manifest.
+type BackupLogo = { mimeType: string; data: string } | { mimeType: string; file: string };
+type BackupCode = Omit<QRCodeConfig, 'image'> & { image?: string; logo?: string };
+
+interface BackupFile {
+  format: typeof BACKUP_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  logos: Record<string, BackupLogo>;
+  codes: BackupCode[];
+  revisions: Record<string, (Omit<QRCodeRevision, 'config'> & { config: BackupCode })[]>;
+  // Embedded in their own file formats so they are validated exactly as a standalone import would be.
+  templates: unknown;
+  brandKit: unknown;
+  settings: BackupSettings;
+}
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'keep-both';
+
+export const CONFLICT_STRATEGIES: { value: ConflictStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep your version of codes that exist in both.' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace your version with the one from the backup.' },
+  { value: 'keep-both', label: 'Keep both', description: 'Import the backup version as a copy alongside yours.' },
+];
+
+export interface BackupImportOptions {
+  strategy: ConflictStrategy;
+  includeTemplates: boolean;
+  includeBrandKit: boolean;
+  includeSettings: boolean;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/svg+xml': 'svg', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+const buildBackupFile = async (data: BackupData, logoMode: 'inline' | 'file') => {
+  const logos: Record<string, BackupLogo> = {};
+  const files: { name: string; data: Uint8Array }[] = [];
+  const hashes = new Map<string, string>();
+
+  const toBackupCode = async ({ image, ...config }: QRCodeConfig): Promise<BackupCode> => {
+    if (!image || !isDataUrl(image)) return { ...config, image };
+    let hash = hashes.get(image);
+    if (!hash) {
+      const { mimeType, bytes } = dataUrlToBytes(image);
+      hash = await sha256Hex(bytes);
+      hashes.set(image, hash);
+      if (logoMode === 'inline') {
+        logos[hash] = { mimeType, data: image.slice(image.indexOf(',') + 1) };
+      } else {
+        const file = `logos/${hash}.${MIME_EXTENSIONS[mimeType] ?? 'bin'}`;
+        logos[hash] = { mimeType, file };
+        files.push({ name: file, data: bytes });
+      }
+    }
+    return { ...config, logo: hash };
+  };
+
+  const codes: BackupCode[] = [];
+  for (const code of data.codes) codes.push(await toBackupCode(code));
+  const revisions: BackupFile['revisions'] = {};
+  for (const [codeId, list] of Object.entries(data.revisions)) {
+    revisions[codeId] = [];
+    for (const revision of list) revisions[codeId].push({ ...revision, config: await toBackupCode(revision.config) });
+  }
+
+  const file: BackupFile = {
+    format: BACKUP_FILE_FORMAT,
+    version: BACKUP_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    logos,
+    codes,
+    revisions,
+    templates: JSON.parse(serializeTemplates(data.templates, data.defaultTemplateId)),
+    brandKit: data.brandKit ? JSON.parse(serializeBrandKit(data.brandKit)) : null,
+    settings: data.settings,
+  };
+  return { file, files };
+};
+
+export const createBackupJson = async (data: BackupData) => {
+  const { file } = await buildBackupFile(data, 'inline');
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+export const createBackupZip = async (data: BackupData) => {
+  const { file, files } = await buildBackupFile(data, 'file');
+  return createZip([{ name: ZIP_MANIFEST, data: new TextEncoder().encode(JSON.stringify(file, null, 2)) }, ...files]);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, field: string) => {
+  if (typeof value !== 'string') throw new Error(`${field} must be text.`);
+  return value;
+};
+
+const readOptionalString = (value: unknown, field: string) => (value === undefined || value === null ? undefined : readString(value, field));
+
+const readSettings = (value: unknown): BackupSettings => {
+  if (!isObject(value)) throw new Error('The backup has no settings.');
+  if (value.theme !== 'dark' && value.theme !== 'light') throw new Error('settings.theme must be "dark" or "light".');
+  const exportSettings = value.exportSettings;
+  if (
+    !isObject(exportSettings) ||
+    (exportSettings.sizeMode !== 'pixels' && exportSettings.sizeMode !== 'physical') ||
+    !['pixelSize', 'dpi', 'quietZoneModules'].every(key => typeof exportSettings[key] === 'number' && Number.isFinite(exportSettings[key]))
+  ) {
+    throw new Error('settings.exportSettings needs a size mode and numeric pixel size, DPI and quiet zone.');
+  }
+  return {
+    theme: value.theme,
+    exportSettings: {
+      sizeMode: exportSettings.sizeMode,
+      pixelSize: exportSettings.pixelSize as number,
+      dpi: exportSettings.dpi as number,
+      quietZoneModules: exportSettings.quietZoneModules as number,
+    },
+    brandKitEnforced: value.brandKitEnforced === true,
+  };
+};
+
+const readCode = (value: unknown, label: string, logos: Map<string, string>): QRCodeConfig => {
+  if (!isObject(value) || typeof value.id !== 'string' || !value.id) throw new Error(`${label} has no id.`);
+  if (!(typeof value.contentType === 'string' && value.contentType in CONTENT_TYPE_LABELS)) {
+    throw new Error(`${label}: contentType must be one of ${Object.keys(CONTENT_TYPE_LABELS).join(', ')}.`);
+  }
+  let image = value.image;
+  if (value.logo !== undefined) {
+    image = logos.get(String(value.logo));
+    if (!image) throw new Error(`${label} refers to logo ${String(value.logo)}, which is missing from the backup.`);
+  }
+  if (value.tags !== undefined && !(Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string'))) {
+    throw new Error(`${label}: tags must be a list of text.`);
+  }
+  return {
+    id: value.id,
+    name: readString(value.name, `${label}: name`),
+    data: readString(value.data, `${label}: data`),
+    contentType: value.contentType as ContentType,
+    isDynamic: value.isDynamic === true,
+    ...readStyle({ ...value, image }, label),
+    rawUrl: readOptionalString(value.rawUrl, `${label}: rawUrl`),
+    shortCode: readOptionalString(value.shortCode, `${label}: shortCode`),
+    destination: readOptionalString(value.destination, `${label}: destination`),
+    folder: readOptionalString(value.folder, `${label}: folder`),
+    tags: value.tags as string[] | undefined,
+    createdAt: readOptionalString(value.createdAt, `${label}: createdAt`),
+    updatedAt: readOptionalString(value.updatedAt, `${label}: updatedAt`),
+  };
+};
+
+// Validates a single code outside a backup, such as one handed to the render CLI. Its logo must be inline.
+export const parseCodeConfig = (value: unknown, label: string) => readCode(value, label, new Map());
+
+const readBackupFile = (raw: unknown, zipFiles: Map<string, Uint8Array> | null): BackupData => {
+  if (!isObject(raw) || raw.format !== BACKUP_FILE_FORMAT) throw new Error('This is not a QR Code Studio backup.');
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_FILE_VERSION) {
+    throw new Error(`Backup version ${String(raw.version)} is newer than this app supports (${BACKUP_FILE_VERSION}).`);
+  }
+  if (!isObject(raw.logos)) throw new Error('The backup has no logos table.');
+  if (!Array.isArray(raw.codes)) throw new Error('The backup has no codes list.');
+  if (!isObject(raw.revisions)) throw new Error('The backup has no revisions table.');
+
+  const logos = new Map<string, string>();
+  Object.entries(raw.logos).forEach(([hash, logo]) => {
+    if (!isObject(logo) || typeof logo.mimeType !== 'string' || !logo.mimeType.startsWith('image/')) {
+      throw new Error(`Logo ${hash} has no image type.`);
+    }
+    if (typeof logo.data === 'string') {
+      logos.set(hash, `data:${logo.mimeType};base64,${logo.data}`);
+    } else if (typeof logo.file === 'string') {
+      const bytes = zipFiles?.get(logo.file);
+      if (!bytes) throw new Error(`Logo file ${logo.file} is missing from the backup.`);
+      logos.set(hash, bytesToDataUrl(bytes, logo.mimeType));
+    } else {
+      throw new Error(`Logo ${hash} has neither embedded data nor a file.`);
+    }
+  });
+
+  const codes = raw.codes.map((code, index) => readCode(code, `Code ${index + 1}${isObject(code) && typeof code.name === 'string' ? ` ("${code.name}")` : ''}`, logos));
+  const ids = new Set<string>();
+  codes.forEach(code => {
+    if (ids.has(code.id)) throw new Error(`The backup lists code ${code.id} twice.`);
+    ids.add(code.id);
+  });
+
+  const revisions: RevisionsByCode = {};
+  Object.entries(raw.revisions).forEach(([codeId, list]) => {
+    if (!ids.has(codeId)) return;
+    if (!Array.isArray(list)) throw new Error(`Revisions for ${codeId} must be a list.`);
+    revisions[codeId] = list.map((revision, index) => {
+      const label = `Revision ${index + 1} of ${codeId}`;
+      if (!isObject(revision) || typeof revision.id !== 'string' || typeof revision.savedAt !== 'string') throw new Error(`${label} needs an id and savedAt.`);
+      return { id: revision.id, savedAt: revision.savedAt, config: readCode(revision.config, label, logos) };
+    });
+  });
+
+  const templates = parseTemplateFile(JSON.stringify(raw.templates));
+  return {
+    codes,
+    revisions,
+    templates: templates.templates,
+    defaultTemplateId: templates.defaultTemplateId,
+    brandKit: raw.brandKit === null || raw.brandKit === undefined ? null : parseBrandKitFile(JSON.stringify(raw.brandKit)),
+    settings: readSettings(raw.settings),
+  };
+};
+
+// Accepts either backup form; ZIPs are recognised by content, not file extension.
+export const parseBackup = async (file: Blob): Promise<BackupData> => {
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const isZip = head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04;
+  let text: string;
+  let zipFiles: Map<string, Uint8Array> | null = null;
+  if (isZip) {
+    const entries = await readZip(file);
+    zipFiles = new Map(entries.map(entry => [entry.name, entry.data]));
+    const manifest = zipFiles.get(ZIP_MANIFEST);
+    if (!manifest) throw new Error(`The archive has no ${ZIP_MANIFEST}, so it is not a QR Code Studio backup.`);
+    text = new TextDecoder().decode(manifest);
+  } else {
+    text = await file.text();
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The backup is not valid JSON.');
+  }
+  return readBackupFile(raw, zipFiles);
+};
+
+export interface ImportPlan {
+  codes: QRCodeConfig[];
+  revisions: RevisionsByCode;
+  added: number;
+  replaced: number;
+  skipped: number;
+  copied: number;
+  // Dynamic codes whose short link the redirect service may not know yet, or may still send to the old destination:
+  // added codes can come from another browser, overwritten ones carry the backup's destination, copies get fresh short codes.
+  dynamicCodesToRegister: QRCodeConfig[];
+}
+
+// Merges incoming codes into the library. Conflicts are matched by id and resolved with one strategy for all of them.
+export const planImport = (
+  local: { codes: QRCodeConfig[]; revisions: RevisionsByCode },
+  incoming: Pick<BackupData, 'codes' | 'revisions'>,
+  strategy: ConflictStrategy,
+): ImportPlan => {
+  const codes = [...local.codes];
+  let revisions = { ...local.revisions };
+  const plan = { added: 0, replaced: 0, skipped: 0, copied: 0, dynamicCodesToRegister: [] as QRCodeConfig[] };
+
+  incoming.codes.forEach((code, index) => {
+    const existingIndex = codes.findIndex(qr => qr.id === code.id);
+    if (existingIndex === -1) {
+      codes.push(code);
+      if (incoming.revisions[code.id]) revisions[code.id] = incoming.revisions[code.id];
+      if (code.isDynamic) plan.dynamicCodesToRegister.push(code);
+      plan.added++;
+    } else if (strategy === 'skip') {
+      plan.skipped++;
+    } else if (strategy === 'overwrite') {
+      // Overwriting is a save like any other: the local history stays, gaining the replaced version and the imported one.
+      revisions = appendRevision(appendRevision(revisions, codes[existingIndex]), code);
+      codes[existingIndex] = code;
+      if (code.isDynamic) plan.dynamicCodesToRegister.push(code);
+      plan.replaced++;
+    } else {
+      const id = `qr-${Date.now()}-${index}`;
+      const shortCode = code.isDynamic ? generateShortCode() : undefined;
+      const copy: QRCodeConfig = {
+        ...code,
+        id,
+        name: copyName(code.name, codes),
+        data: shortCode ? buildShortUrl(shortCode) : code.data,
+        shortCode,
+      };
+      codes.push(copy);
+      // The copy's history belongs to the original id; re-key it so the copy can still be restored.
+      if (incoming.revisions[code.id]) revisions[id] = incoming.revisions[code.id].map(revision => ({ ...revision, config: { ...revision.config, id, shortCode, data: copy.data } }));
+      if (shortCode) plan.dynamicCodesToRegister.push(copy);
+      plan.copied++;
+    }
+  });
+  return { codes, revisions, ...plan };
+};
+
+// Templates follow the same strategy as codes so one choice covers the whole import.
+export const mergeBackupTemplates = (existing: StyleTemplate[], incoming: StyleTemplate[], strategy: ConflictStrategy) => {
+  if (strategy === 'overwrite') return mergeTemplates(existing, incoming);
+  const existingIds = new Set(existing.map(template => template.id));
+  const fresh = incoming.filter(template => !existingIds.has(template.id));
+  const copies = strategy === 'keep-both'
+    ? incoming.filter(template => existingIds.has(template.id)).map(template => createStyleTemplate(`${template.name} (copy)`, template.style))
+    : [];
+  return [...existing, ...fresh, ...copies];
+};
@@ -0,0 +1,199 @@
+import { ContentType, CryptoNetwork } from '../types';
+import { EMPTY_VCARD_DATA } from '../constants';
+import {
+  buildCryptoPayload, buildEmailPayload, buildEventPayload, buildGeoPayload, buildPhonePayload, buildSmsPayload,
+  buildVCardPayload, buildWifiPayload, validateCryptoData, validateEventData, validateGeoData, validatePhoneNumber, validateSmsData,
+} from './payload';
+import { buildUrlWithUtm, normalizeUrl } from './url';
+
+export interface BatchField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases?: string[];
+}
+
+// Column name → field for each row. An empty string means the field is not mapped.
+export type BatchMapping = Record<string, string>;
+
+export interface BatchRow {
+  index: number;
+  name: string;
+  data: string;
+  error: string | null;
+}
+
+export const NAME_FIELD: BatchField = { key: 'name', label: 'File name', aliases: ['filename', 'label', 'title', 'id'] };
+
+export const BATCH_FIELDS: Record<ContentType, BatchField[]> = {
+  url: [
+    { key: 'url', label: 'URL', required: true, aliases: ['link', 'website', 'destination'] },
+    { key: 'utm_source', label: 'UTM source', aliases: ['source'] },
+    { key: 'utm_medium', label: 'UTM medium', aliases: ['medium'] },
+    { key: 'utm_campaign', label: 'UTM campaign', aliases: ['campaign'] },
+    { key: 'utm_term', label: 'UTM term', aliases: ['term'] },
+    { key: 'utm_content', label: 'UTM content', aliases: ['content'] },
+  ],
+  text: [
+    { key: 'text', label: 'Text', required: true, aliases: ['message', 'value'] },
+  ],
+  wifi: [
+    { key: 'ssid', label: 'SSID', required: true, aliases: ['network', 'networkname'] },
+    { key: 'password', label: 'Password', aliases: ['pass', 'key'] },
+    { key: 'encryption', label: 'Encryption', aliases: ['security', 'auth', 'type'] },
+    { key: 'hidden', label: 'Hidden', aliases: ['ishidden'] },
+  ],
+  vcard: [
+    { key: 'firstName', label: 'First name', aliases: ['first', 'givenname'] },
+    { key: 'lastName', label: 'Last name', aliases: ['last', 'surname', 'familyname'] },
+    { key: 'org', label: 'Organization', aliases: ['company', 'organization', 'organisation'] },
+    { key: 'title', label: 'Job title', aliases: ['jobtitle', 'position', 'role'] },
+    { key: 'phone', label: 'Mobile phone', aliases: ['tel', 'telephone', 'mobile', 'cell'] },
+    { key: 'workPhone', label: 'Work phone', aliases: ['work', 'office', 'officephone'] },
+    { key: 'email', label: 'Email', aliases: ['mail', 'emailaddress'] },
+    { key: 'website', label: 'Website', aliases: ['url', 'web', 'homepage'] },
+    { key: 'street', label: 'Street', aliases: ['address', 'streetaddress'] },
+    { key: 'city', label: 'City', aliases: ['town', 'locality'] },
+    { key: 'region', label: 'State / region', aliases: ['state', 'province', 'county'] },
+    { key: 'postalCode', label: 'Postal code', aliases: ['zip', 'zipcode', 'postcode'] },
+    { key: 'country', label: 'Country' },
+    { key: 'note', label: 'Note', aliases: ['notes'] },
+  ],
+  email: [
+    { key: 'address', label: 'Recipient', required: true, aliases: ['email', 'to', 'recipient', 'emailaddress'] },
+    { key: 'subject', label: 'Subject' },
+    { key: 'body', label: 'Body', aliases: ['message'] },
+  ],
+  sms: [
+    { key: 'phone', label: 'Phone', required: true, aliases: ['tel', 'telephone', 'mobile', 'number'] },
+    { key: 'message', label: 'Message', aliases: ['body', 'text'] },
+  ],
+  phone: [
+    { key: 'phone', label: 'Phone', required: true, aliases: ['tel', 'telephone', 'mobile', 'number'] },
+  ],
+  geo: [
+    { key: 'latitude', label: 'Latitude', required: true, aliases: ['lat'] },
+    { key: 'longitude', label: 'Longitude', required: true, aliases: ['lng', 'lon', 'long'] },
+  ],
+  event: [
+    { key: 'title', label: 'Title', required: true, aliases: ['summary', 'event', 'name'] },
+    { key: 'start', label: 'Start', required: true, aliases: ['starts', 'startdate', 'from', 'date'] },
+    { key: 'end', label: 'End', aliases: ['ends', 'enddate', 'to'] },
+    { key: 'location', label: 'Location', aliases: ['venue', 'place'] },
+    { key: 'description', label: 'Description', aliases: ['details', 'notes'] },
+  ],
+  crypto: [
+    { key: 'network', label: 'Network', aliases: ['chain', 'currency', 'coin'] },
+    { key: 'address', label: 'Address', required: true, aliases: ['wallet', 'walletaddress'] },
+    { key: 'amount', label: 'Amount', aliases: ['value'] },
+    { key: 'label', label: 'Label', aliases: ['payee'] },
+    { key: 'message', label: 'Message', aliases: ['memo', 'note'] },
+    { key: 'chainId', label: 'Chain ID', aliases: ['chainid'] },
+  ],
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessBatchMapping = (headers: string[], contentType: ContentType): BatchMapping => {
+  const fields = [NAME_FIELD, ...BATCH_FIELDS[contentType]];
+  return Object.fromEntries(fields.map(field => {
+    const candidates = [field.key, ...(field.aliases ?? [])].map(normalizeHeader);
+    const match = headers.find(header => candidates.includes(normalizeHeader(header)));
+    return [field.key, match ?? ''];
+  }));
+};
+
+const isTruthy = (value: string) => ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+
+const validated = <T>(input: T, validate: (input: T) => string | null, build: (input: T) => string) => {
+  const error = validate(input);
+  return error ? { data: '', error } : { data: build(input), error: null };
+};
+
+const buildRowPayload = (contentType: ContentType, value: (key: string) => string): { data: string; error: string | null } => {
+  switch (contentType) {
+    case 'url': {
+      const { normalized, error } = normalizeUrl(value('url'));
+      if (!normalized) return { data: '', error: error ?? 'URL is empty.' };
+      return {
+        data: buildUrlWithUtm(normalized, {
+          source: value('utm_source'),
+          medium: value('utm_medium'),
+          campaign: value('utm_campaign'),
+          term: value('utm_term'),
+          content: value('utm_content'),
+        }),
+        error: null,
+      };
+    }
+    case 'text':
+      return value('text') ? { data: value('text'), error: null } : { data: '', error: 'Text is empty.' };
+    case 'wifi':
+      if (!value('ssid')) return { data: '', error: 'SSID is empty.' };
+      return {
+        data: buildWifiPayload({
+          ssid: value('ssid'),
+          password: value('password'),
+          encryption: value('encryption') || 'WPA',
+          isHidden: isTruthy(value('hidden')),
+        }),
+        error: null,
+      };
+    case 'vcard':
+      if (!value('firstName') && !value('lastName') && !value('org')) {
+        return { data: '', error: 'A name or organization is required.' };
+      }
+      return {
+        data: buildVCardPayload({
+          ...EMPTY_VCARD_DATA,
+          firstName: value('firstName'),
+          lastName: value('lastName'),
+          org: value('org'),
+          title: value('title'),
+          phones: [
+            { type: 'cell', number: value('phone') },
+            { type: 'work', number: value('workPhone') },
+          ],
+          email: value('email'),
+          website: value('website'),
+          address: {
+            street: value('street'),
+            city: value('city'),
+            region: value('region'),
+            postalCode: value('postalCode'),
+            country: value('country'),
+          },
+          note: value('note'),
+        }),
+        error: null,
+      };
+    case 'email':
+      if (!value('address')) return { data: '', error: 'Recipient is empty.' };
+      return { data: buildEmailPayload({ address: value('address'), subject: value('subject'), body: value('body') }), error: null };
+    case 'sms':
+      return validated({ phone: value('phone'), message: value('message') }, validateSmsData, buildSmsPayload);
+    case 'phone':
+      return validated(value('phone'), validatePhoneNumber, buildPhonePayload);
+    case 'geo':
+      return validated({ latitude: value('latitude'), longitude: value('longitude') }, validateGeoData, buildGeoPayload);
+    case 'event': {
+      // A bare date (YYYY-MM-DD) in the start column means an all-day event.
+      const start = value('start');
+      const allDay = /^\d{4}-\d{2}-\d{2}$/.test(start.trim());
+      const data = { title: value('title'), start: start.trim(), end: value('end').trim(), location: value('location'), description: value('description'), allDay };
+      return validated(data, validateEventData, buildEventPayload);
+    }
+    case 'crypto': {
+      const network: CryptoNetwork = /^(eth|ethereum)$/i.test(value('network').trim()) || /^0x/i.test(value('address').trim()) ? 'ethereum' : 'bitcoin';
+      const data = { network, address: value('address'), amount: value('amount'), label: value('label'), message: value('message'), chainId: value('chainId') };
+      return validated(data, validateCryptoData, buildCryptoPayload);
+    }
+  }
+};
+
+export const buildBatchRows = (rows: Record<string, string>[], contentType: ContentType, mapping: BatchMapping): BatchRow[] =>
+  rows.map((row, index) => {
+    const value = (key: string) => (mapping[key] ? row[mapping[key]] ?? '' : '');
+    const { data, error } = buildRowPayload(contentType, value);
+    return { index, name: value('name') || `qr-${index + 1}`, data, error };
+  });
@@ -0,0 +1,115 @@
+import { BrandKit, QRCodeConfig } from '../types';
+import { CORNER_DOT_STYLES, CORNER_SQUARE_STYLES, DOT_STYLES } from '../constants';
+import { fillColors } from './gradient';
+import { FINDER_CORNERS } from './qrOptions';
+
+export const BRAND_KIT_FILE_FORMAT = 'qr-code-studio/brand-kit';
+export const BRAND_KIT_FILE_VERSION = 1;
+
+export const EMPTY_BRAND_KIT: BrandKit = {
+  name: 'Brand kit',
+  colors: [],
+  allowTransparentBackground: false,
+  logos: [],
+  dotTypes: [],
+  cornerSquareTypes: [],
+  cornerDotTypes: [],
+};
+
+const sameColor = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Every solid color the config paints with, including gradient stops and eye overrides.
+export const configColors = (config: QRCodeConfig) => {
+  const colors = [
+    ...fillColors(config.dotsGradient, config.fgColor),
+    ...(config.cornersGradient ? fillColors(config.cornersGradient, config.fgColor) : [config.eyeOuterColor ?? config.fgColor, config.eyeInnerColor ?? config.fgColor]),
+    ...FINDER_CORNERS.flatMap(({ id }) => [config.eyeCornerColors?.[id]?.outer, config.eyeCornerColors?.[id]?.inner]),
+    ...(config.bgGradient ? fillColors(config.bgGradient, config.bgColor) : [config.bgColor]),
+  ].filter((color): color is string => Boolean(color) && color !== 'transparent');
+  return colors.filter((color, index) => colors.findIndex(other => sameColor(other, color)) === index);
+};
+
+// Seeds a kit from a finished design so teams can lock in what they already use.
+export const brandKitFromConfig = (config: QRCodeConfig, name = EMPTY_BRAND_KIT.name): BrandKit => ({
+  name,
+  colors: configColors(config),
+  allowTransparentBackground: config.bgColor === 'transparent',
+  logos: config.image ? [{ id: `logo-${Date.now()}`, name: 'Logo', image: config.image }] : [],
+  dotTypes: [config.dotType],
+  cornerSquareTypes: [config.cornerSquareType],
+  cornerDotTypes: [config.cornerDotType],
+});
+
+// Narrows a style option list to what the kit allows; unrestricted categories keep every option.
+export const kitOptions = <T extends string, O extends { value: T }>(options: O[], allowed: T[] | undefined) =>
+  allowed && allowed.length > 0 ? options.filter(option => allowed.includes(option.value)) : options;
+
+export const isKitColor = (kit: BrandKit, color: string) => kit.colors.length === 0 || kit.colors.some(approved => sameColor(approved, color));
+
+// Human-readable list of everything in the config the kit does not allow.
+export const findBrandKitDeviations = (config: QRCodeConfig, kit: BrandKit): string[] => {
+  const deviations: string[] = [];
+  const offPalette = configColors(config).filter(color => !isKitColor(kit, color));
+  if (offPalette.length > 0) deviations.push(`color${offPalette.length === 1 ? '' : 's'} ${offPalette.map(color => color.toUpperCase()).join(', ')}`);
+  if (config.bgColor === 'transparent' && !config.bgGradient && !kit.allowTransparentBackground) deviations.push('transparent background');
+  if (config.image && kit.logos.length > 0 && !kit.logos.some(logo => logo.image === config.image)) deviations.push('logo');
+  if (kit.dotTypes.length > 0 && !kit.dotTypes.includes(config.dotType)) deviations.push(`dot style "${config.dotType}"`);
+  if (kit.cornerSquareTypes.length > 0 && !kit.cornerSquareTypes.includes(config.cornerSquareType)) deviations.push(`outer eye style "${config.cornerSquareType}"`);
+  if (kit.cornerDotTypes.length > 0 && !kit.cornerDotTypes.includes(config.cornerDotType)) deviations.push(`inner eye style "${config.cornerDotType}"`);
+  return deviations;
+};
+
+export const serializeBrandKit = (kit: BrandKit) =>
+  JSON.stringify({ format: BRAND_KIT_FILE_FORMAT, version: BRAND_KIT_FILE_VERSION, kit }, null, 2);
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readList = <T extends string>(value: unknown, options: { value: T }[], field: string): T[] => {
+  if (!Array.isArray(value)) throw new Error(`${field} must be a list.`);
+  return value.map(item => {
+    const match = options.find(option => option.value === item);
+    if (!match) throw new Error(`${field} contains unknown style "${String(item)}".`);
+    return match.value;
+  });
+};
+
+// Validates an exported brand kit file. Throws with a message naming the first bad field.
+export const parseBrandKitFile = (text: string): BrandKit => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isObject(raw) || raw.format !== BRAND_KIT_FILE_FORMAT || !isObject(raw.kit)) {
+    throw new Error('This is not a QR Code Studio brand kit file.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BRAND_KIT_FILE_VERSION) {
+    throw new Error(`Brand kit file version ${String(raw.version)} is newer than this app supports (${BRAND_KIT_FILE_VERSION}).`);
+  }
+  const { kit } = raw;
+  if (!Array.isArray(kit.colors) || !kit.colors.every(color => typeof color === 'string' && HEX_COLOR.test(color))) {
+    throw new Error('Brand kit colors must be a list of #RRGGBB values.');
+  }
+  if (!Array.isArray(kit.logos)) throw new Error('Brand kit logos must be a list.');
+  const logos = kit.logos.map((logo, index) => {
+    if (!isObject(logo) || typeof logo.image !== 'string' || !logo.image.startsWith('data:image/')) {
+      throw new Error(`Brand kit logo ${index + 1} must be an embedded data:image URL.`);
+    }
+    return {
+      id: typeof logo.id === 'string' && logo.id ? logo.id : `logo-${Date.now()}-${index}`,
+      name: typeof logo.name === 'string' && logo.name ? logo.name : `Logo ${index + 1}`,
+      image: logo.image,
+    };
+  });
+  return {
+    name: typeof kit.name === 'string' && kit.name.trim() ? kit.name.trim() : EMPTY_BRAND_KIT.name,
+    colors: kit.colors as string[],
+    allowTransparentBackground: kit.allowTransparentBackground === true,
+    logos,
+    dotTypes: readList(kit.dotTypes, DOT_STYLES, 'dotTypes'),
+    cornerSquareTypes: readList(kit.cornerSquareTypes, CORNER_SQUARE_STYLES, 'cornerSquareTypes'),
+    cornerDotTypes: readList(kit.cornerDotTypes, CORNER_DOT_STYLES, 'cornerDotTypes'),
+  };
+};
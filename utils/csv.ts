@@ -0,0 +1,62 @@
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+// RFC 4180 parser: quoted fields may contain delimiters, newlines and doubled quotes ("").
+// Spreadsheet exports in European locales use ';', so the delimiter is sniffed from the header row.
+export const parseCsv = (input: string): ParsedCsv => {
+  const text = input.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(columns => columns.some(value => value.trim() !== ''));
+  const [headerRow = [], ...dataRows] = nonEmpty;
+  const headers = headerRow.map((header, index) => header.trim() || `Column ${index + 1}`);
+  const rows = dataRows.map(columns =>
+    Object.fromEntries(headers.map((header, index) => [header, (columns[index] ?? '').trim()]))
+  );
+  return { headers, rows };
+};
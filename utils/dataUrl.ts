@@ -0,0 +1,30 @@
+// Helpers for the base64 data URLs logos are kept in while the app runs.
+
+export const isDataUrl = (value: string) => value.startsWith('data:');
+
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(dataUrl);
+  if (!match) throw new Error('Not a data URL.');
+  const [, mimeType, params, payload] = match;
+  if (!params.split(';').includes('base64')) {
+    return { mimeType: mimeType || 'text/plain', bytes: new TextEncoder().encode(decodeURIComponent(payload)) };
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { mimeType: mimeType || 'application/octet-stream', bytes };
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = '';
+  // Chunked so large logos do not overflow the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+export const sha256Hex = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
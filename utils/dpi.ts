@@ -0,0 +1,82 @@
+import { crc32 } from './zip';
+
+// Canvas encoders never record a resolution, so print tools fall back to 72 or 96 DPI and scale the code.
+// These helpers patch the density into the encoded file without re-encoding any pixels.
+
+const INCHES_PER_METER = 39.3701;
+const PNG_SIGNATURE_LENGTH = 8;
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+const createPhysChunk = (dpi: number) => {
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+  // length(4) + type(4) + data(9) + crc(4)
+  const chunk = new Uint8Array(21);
+  writeUint32(chunk, 0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  writeUint32(chunk, 8, pixelsPerMeter);
+  writeUint32(chunk, 12, pixelsPerMeter);
+  chunk[16] = 1; // unit: metre
+  writeUint32(chunk, 17, crc32(chunk.subarray(4, 17)));
+  return chunk;
+};
+
+// pHYs must appear before the first IDAT; we place it straight after IHDR and drop any existing one.
+export const setPngDpi = (png: Uint8Array, dpi: number): Uint8Array => {
+  const parts: Uint8Array[] = [png.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 8 <= png.length) {
+    const length = readUint32(png, offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (type !== 'pHYs') parts.push(png.subarray(offset, end));
+    if (type === 'IHDR') parts.push(createPhysChunk(dpi));
+    offset = end;
+  }
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+};
+
+// Browsers emit a JFIF APP0 segment right after SOI; rewrite its density fields, or insert one if missing.
+export const setJpegDpi = (jpeg: Uint8Array, dpi: number): Uint8Array => {
+  const density = Math.min(0xffff, Math.round(dpi));
+  const isJfif = jpeg[2] === 0xff && jpeg[3] === 0xe0
+    && String.fromCharCode(...jpeg.subarray(6, 11)) === 'JFIF\0';
+  if (isJfif) {
+    const output = jpeg.slice();
+    output[13] = 1; // units: dots per inch
+    output[14] = density >> 8;
+    output[15] = density & 0xff;
+    output[16] = density >> 8;
+    output[17] = density & 0xff;
+    return output;
+  }
+  const app0 = new Uint8Array([
+    0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x01,
+    density >> 8, density & 0xff, density >> 8, density & 0xff, 0x00, 0x00,
+  ]);
+  const output = new Uint8Array(jpeg.length + app0.length);
+  output.set(jpeg.subarray(0, 2));
+  output.set(app0, 2);
+  output.set(jpeg.subarray(2), 2 + app0.length);
+  return output;
+};
+
+export const withDpi = async (blob: Blob, extension: 'png' | 'jpeg', dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const patched = extension === 'png' ? setPngDpi(bytes, dpi) : setJpegDpi(bytes, dpi);
+  return new Blob([patched], { type: blob.type || `image/${extension}` });
+};
@@ -0,0 +1,99 @@
+import { ErrorCorrectionLevel } from '../types';
+import { assessPrintDensity } from './qrCapacity';
+import { moduleCountForVersion, selectVersion } from './qrEncoder';
+import { logoHiddenModules, RECOVERY_CAPACITY } from './qrRenderer';
+
+const LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+// Without a logo nothing is covered, but printed codes still pick up scuffs and glare.
+const BASELINE_LEVEL: ErrorCorrectionLevel = 'M';
+// Share of the symbol a logo needs to read as a logo rather than a speck: roughly a quarter of its width.
+export const MIN_LOGO_SHARE = 0.08;
+
+export interface ErrorCorrectionOption {
+  level: ErrorCorrectionLevel;
+  // Null when the payload does not fit at this level.
+  version: number | null;
+  // Share of the symbol the logo clears at this level; the renderer keeps it at or below 40% of the recovery budget.
+  logoShare: number;
+  recoveryBudget: number;
+  printable: boolean;
+}
+
+export interface ErrorCorrectionChoice {
+  level: ErrorCorrectionLevel;
+  // One or two sentences for the Error Correction panel.
+  reason: string;
+  options: ErrorCorrectionOption[];
+}
+
+const percent = (share: number) => `${Number((share * 100).toFixed(1))}%`;
+
+// Picks the lowest level that gives the logo room within its recovery budget while the version still prints.
+// Lower levels mean fewer modules, so each prints larger; higher levels let the logo cover more of the code.
+export const chooseErrorCorrection = ({ payload, hasLogo, printSizeIn, scanDistanceFt, quietZoneModules }: {
+  payload: string;
+  hasLogo: boolean;
+  printSizeIn: number;
+  scanDistanceFt: number;
+  quietZoneModules: number;
+}): ErrorCorrectionChoice => {
+  const options = LEVELS.map((level): ErrorCorrectionOption => {
+    const version = selectVersion(payload, level);
+    const modules = version === null ? 0 : moduleCountForVersion(version);
+    const hidden = hasLogo && modules > 0 ? logoHiddenModules(modules, level) : 0;
+    return {
+      level,
+      version,
+      logoShare: modules > 0 ? (hidden * hidden) / (modules * modules) : 0,
+      recoveryBudget: RECOVERY_CAPACITY[level],
+      printable: version !== null && !assessPrintDensity({ modules, quietZoneModules, printSizeIn, scanDistanceFt }).limitsPrinting,
+    };
+  });
+  const fitting = options.filter(option => option.version !== null);
+  const printable = fitting.filter(option => option.printable);
+
+  if (fitting.length === 0) {
+    return { level: 'L', reason: 'The content is too long for any level, so Low is used. Shorten it or use a dynamic short link.', options };
+  }
+
+  if (!hasLogo) {
+    const baseline = options[LEVELS.indexOf(BASELINE_LEVEL)];
+    if (baseline.printable) {
+      return { level: BASELINE_LEVEL, reason: 'No logo covers the code, so Medium is enough: it still recovers from about 15% damage such as scuffs or glare.', options };
+    }
+    const lowest = printable[0] ?? fitting[0];
+    return {
+      level: lowest.level,
+      reason: lowest.printable
+        ? `Medium would need a version too dense for ${printSizeIn}" at ${scanDistanceFt}ft, so level ${lowest.level} keeps the modules large enough to scan.`
+        : `Every level is too dense for ${printSizeIn}" at ${scanDistanceFt}ft, so level ${lowest.level} keeps the modules as large as possible; see Scan Readiness.`,
+      options,
+    };
+  }
+
+  // When nothing prints at this size, the Scan Readiness panel already says so; still give the logo its room.
+  const candidates = printable.length > 0 ? printable : fitting;
+  const densityNote = printable.length === 0 ? ` Every level is too dense for ${printSizeIn}" at ${scanDistanceFt}ft; see Scan Readiness.` : '';
+  const legible = candidates.find(option => option.logoShare >= MIN_LOGO_SHARE);
+  if (legible) {
+    return {
+      level: legible.level,
+      reason: `The logo covers ${percent(legible.logoShare)} of the code, safely inside the ${percent(legible.recoveryBudget)} that level ${legible.level} can recover`
+        + (legible === candidates[0] ? '.' : `; lower levels would shrink it below ${percent(MIN_LOGO_SHARE)}.`)
+        + densityNote,
+      options,
+    };
+  }
+  // No level gives the logo its full size: keep the largest logo, preferring the lower level on a tie.
+  const largest = candidates.reduce((best, option) => (option.logoShare > best.logoShare ? option : best));
+  const denserWouldFit = printable.length > 0 && fitting.some(option => !option.printable && option.logoShare >= MIN_LOGO_SHARE);
+  return {
+    level: largest.level,
+    reason: fitting.length === 1
+      ? `Only level ${largest.level} fits this much content, which leaves the logo ${percent(largest.logoShare)} of the code.${densityNote}`
+      : denserWouldFit
+      ? `Higher levels would make the code too dense for ${printSizeIn}" at ${scanDistanceFt}ft, so the logo is drawn smaller (${percent(largest.logoShare)} of the code) to stay within level ${largest.level}'s budget.`
+      : `The code is too small to give the logo ${percent(MIN_LOGO_SHARE)} of its area, so level ${largest.level} gives it the most room: ${percent(largest.logoShare)}.${densityNote}`,
+    options,
+  };
+};
@@ -0,0 +1,33 @@
+import { GradientFill, GradientType } from '../types';
+
+// More stops add little visually and make the worst-case contrast harder to keep in range.
+export const MAX_GRADIENT_STOPS = 5;
+export const MIN_GRADIENT_STOPS = 2;
+
+export const createGradient = (type: GradientType, from: string, to: string): GradientFill => ({
+  type,
+  rotation: 0,
+  colorStops: [
+    { offset: 0, color: from },
+    { offset: 1, color: to },
+  ],
+});
+
+// SVG stops must ascend, but the editor lets users reorder them freely.
+export const sortedStops = (fill: GradientFill) => [...fill.colorStops].sort((a, b) => a.offset - b.offset);
+
+// Every color a part of the code can take; the flat color when no gradient is set.
+export const fillColors = (fill: GradientFill | undefined, fallback: string) =>
+  fill && fill.colorStops.length > 0 ? fill.colorStops.map(stop => stop.color) : [fallback];
+
+// CSS equivalent for swatches and style previews. The renderer's 0° runs left to right, CSS's runs bottom to top.
+export const toCssGradient = (fill: GradientFill) => {
+  const stops = sortedStops(fill).map(stop => `${stop.color} ${Math.round(stop.offset * 100)}%`).join(', ');
+  return fill.type === 'radial' ? `radial-gradient(circle, ${stops})` : `linear-gradient(${fill.rotation + 90}deg, ${stops})`;
+};
+
+// The color at the outer edge of the fill, used to pad a quiet zone around it. Radial gradients end at the last stop.
+export const gradientEdgeColor = (fill: GradientFill) => {
+  const stops = sortedStops(fill);
+  return (fill.type === 'radial' ? stops[stops.length - 1] : stops[0]).color;
+};
@@ -0,0 +1,99 @@
+import jsQR from 'jsqr';
+
+// Reads QR codes out of screenshots, photos, exported files and PDF flyers.
+
+// jsQR is linear in pixel count; phone photos are 12+ MP, and codes stay readable well below this.
+const MAX_DECODE_EDGE = 1600;
+// Tried after the full-size pass fails: heavy JPEG noise and moiré often decode better when averaged down.
+const FALLBACK_EDGES = [800, 400];
+
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/bmp', 'image/svg+xml'];
+export const SUPPORTED_DECODE_TYPES = [...SUPPORTED_IMAGE_TYPES, 'application/pdf'];
+
+export const isPdf = (file: Blob) => file.type === 'application/pdf' || (file instanceof File && /\.pdf$/i.test(file.name));
+
+type LoadedImage = { source: CanvasImageSource; width: number; height: number; release: () => void };
+
+// Only the first page is scanned: flyers and posters carry their code on the front.
+const loadPdfPage = async (file: Blob): Promise<LoadedImage> => {
+  // pdf.js is several hundred kilobytes, so it is only fetched once a PDF is dropped.
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  const loadingTask = pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) });
+  try {
+    const pdf = await loadingTask.promise;
+    const page = await pdf.getPage(1);
+    // Render straight at the decode resolution; vector codes stay sharp at any scale.
+    const unscaled = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: MAX_DECODE_EDGE / Math.max(unscaled.width, unscaled.height) });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(viewport.width));
+    canvas.height = Math.max(1, Math.round(viewport.height));
+    await page.render({ canvas, viewport }).promise;
+    return { source: canvas, width: canvas.width, height: canvas.height, release: () => void loadingTask.destroy() };
+  } catch (err) {
+    void loadingTask.destroy();
+    if (err instanceof Error && err.name === 'PasswordException') {
+      throw new Error('This PDF is password-protected. Open it, take a screenshot of the code and paste or upload that instead.');
+    }
+    throw err instanceof Error && err.name === 'InvalidPDFException' ? new Error('The PDF could not be read. It may be damaged or not a PDF.') : err;
+  }
+};
+
+const loadImage = async (file: Blob): Promise<LoadedImage> => {
+  if (isPdf(file)) return loadPdfPage(file);
+  // createImageBitmap rejects SVG in most browsers, so go through an <img> for it.
+  if (file.type !== 'image/svg+xml') {
+    const bitmap = await createImageBitmap(file);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { source: image, width: image.naturalWidth || 1024, height: image.naturalHeight || 1024, release: () => URL.revokeObjectURL(url) };
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+};
+
+const rasterize = (source: CanvasImageSource, width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D is not available for decoding.');
+  // Transparent PNGs would otherwise read as black-on-black.
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Resolves with the decoded text, or null if the image (or the PDF's first page) has no readable code.
+export const decodeQrFromImage = async (file: Blob): Promise<string | null> => {
+  if (file.type && !file.type.startsWith('image/') && !isPdf(file)) {
+    throw new Error(`Unsupported file type "${file.type}". Use a PNG, JPEG, WebP, GIF or SVG image, or a PDF.`);
+  }
+  const { source, width, height, release } = await loadImage(file);
+  try {
+    for (const edge of [MAX_DECODE_EDGE, ...FALLBACK_EDGES]) {
+      if (edge !== MAX_DECODE_EDGE && edge >= Math.max(width, height)) continue;
+      const image = rasterize(source, width, height, edge);
+      // attemptBoth also finds light-on-dark codes, which are common in dark-mode screenshots.
+      const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' });
+      if (result) return result.data;
+    }
+    return null;
+  } finally {
+    release();
+  }
+};
@@ -0,0 +1,94 @@
+import { ContentType, QRCodeConfig } from '../types';
+import { CONTENT_TYPE_LABELS } from '../constants';
+
+export type LibrarySort = 'updated' | 'created' | 'name' | 'type';
+
+export const LIBRARY_SORTS: { value: LibrarySort; label: string }[] = [
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'created', label: 'Recently created' },
+  { value: 'name', label: 'Name' },
+  { value: 'type', label: 'Type' },
+];
+
+export interface LibraryFilters {
+  query: string;
+  // null shows every folder; '' shows only codes outside any folder.
+  folder: string | null;
+  tag: string | null;
+  contentType: ContentType | null;
+  dynamic: 'all' | 'dynamic' | 'static';
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = { query: '', folder: null, tag: null, contentType: null, dynamic: 'all' };
+
+const sameText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+
+// Splits "launch, Print ,launch" into ["launch", "Print"]: trimmed, non-empty and unique ignoring case.
+export const parseTags = (text: string) =>
+  text
+    .split(',')
+    .map(tag => tag.trim())
+    .filter((tag, index, tags) => tag && tags.findIndex(other => sameText(other, tag)) === index);
+
+export const addTags = (existing: string[] | undefined, added: string[]) =>
+  parseTags([...(existing ?? []), ...added].join(','));
+
+export const normalizeFolder = (folder: string) => folder.trim().replace(/\s+/g, ' ') || undefined;
+
+const uniqueSorted = (values: string[]) =>
+  values
+    .filter((value, index) => values.findIndex(other => sameText(other, value)) === index)
+    .sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+
+export const libraryFolders = (codes: QRCodeConfig[]) => uniqueSorted(codes.flatMap(qr => (qr.folder ? [qr.folder] : [])));
+
+export const libraryTags = (codes: QRCodeConfig[]) => uniqueSorted(codes.flatMap(qr => qr.tags ?? []));
+
+// Case- and accent-insensitive, so "cafe" finds "Café".
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Every word must appear somewhere in the code's text, so "lunch menu" finds "Menu — Lunch".
+const searchText = (qr: QRCodeConfig) =>
+  fold([qr.name, qr.data, qr.destination, qr.rawUrl, qr.folder, ...(qr.tags ?? [])].filter(Boolean).join('\n'));
+
+export const filterLibrary = (codes: QRCodeConfig[], filters: LibraryFilters) => {
+  const terms = fold(filters.query).split(/\s+/).filter(Boolean);
+  return codes.filter(qr => {
+    if (filters.folder !== null && !sameText(qr.folder ?? '', filters.folder)) return false;
+    if (filters.tag !== null && !(qr.tags ?? []).some(tag => sameText(tag, filters.tag as string))) return false;
+    if (filters.contentType !== null && qr.contentType !== filters.contentType) return false;
+    if (filters.dynamic !== 'all' && qr.isDynamic !== (filters.dynamic === 'dynamic')) return false;
+    if (terms.length === 0) return true;
+    const text = searchText(qr);
+    return terms.every(term => text.includes(term));
+  });
+};
+
+export const hasActiveFilters = (filters: LibraryFilters) =>
+  filters.query.trim() !== '' || filters.folder !== null || filters.tag !== null || filters.contentType !== null || filters.dynamic !== 'all';
+
+const byName = (a: QRCodeConfig, b: QRCodeConfig) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+
+// Codes saved before timestamps existed fall back to their library position, which is creation order.
+export const sortLibrary = (codes: QRCodeConfig[], sort: LibrarySort) => {
+  const position = new Map(codes.map((qr, index) => [qr.id, index]));
+  const newestFirst = (key: 'createdAt' | 'updatedAt') => (a: QRCodeConfig, b: QRCodeConfig) =>
+    (b[key] ?? b.createdAt ?? '').localeCompare(a[key] ?? a.createdAt ?? '') || (position.get(b.id) ?? 0) - (position.get(a.id) ?? 0);
+  const compare = {
+    updated: newestFirst('updatedAt'),
+    created: newestFirst('createdAt'),
+    name: byName,
+    type: (a: QRCodeConfig, b: QRCodeConfig) => CONTENT_TYPE_LABELS[a.contentType].localeCompare(CONTENT_TYPE_LABELS[b.contentType]) || byName(a, b),
+  }[sort];
+  return [...codes].sort(compare);
+};
+
+// "Menu" → "Menu (copy)", then "Menu (copy 2)" and so on, skipping names already in the library.
+export const copyName = (name: string, codes: QRCodeConfig[]) => {
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, '');
+  const taken = new Set(codes.map(qr => qr.name.toLowerCase()));
+  for (let n = 1; ; n++) {
+    const candidate = `${base} (copy${n === 1 ? '' : ` ${n}`})`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+};
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { EMPTY_VCARD_DATA } from '../constants';
+import { VCardData, WifiData } from '../types';
+import { buildEventPayload, buildVCardPayload, buildWifiPayload } from './payload';
+import { detectPayload } from './payloadDetect';
+
+const SPECIALS = 'a;b,c:d"e\\f';
+
+const wifi = (overrides: Partial<WifiData>): WifiData => ({ ssid: '', password: '', encryption: 'WPA', isHidden: false, ...overrides });
+
+const vCard = (overrides: Partial<VCardData>): VCardData => ({ ...EMPTY_VCARD_DATA, ...overrides });
+
+const lines = (payload: string) => payload.split('\r\n');
+
+describe('buildWifiPayload', () => {
+  it('escapes reserved characters in the SSID and password', () => {
+    assert.equal(
+      buildWifiPayload(wifi({ ssid: SPECIALS, password: 'p;a:s,s"\\' })),
+      'WIFI:T:WPA;S:a\\;b\\,c\\:d\\"e\\\\f;P:p\\;a\\:s\\,s\\"\\\\;;',
+    );
+  });
+
+  it('quotes hex-looking SSIDs and passwords so scanners keep them as text', () => {
+    assert.equal(
+      buildWifiPayload(wifi({ ssid: 'CAFE1234', password: 'deadbeef' })),
+      'WIFI:T:WPA;S:"CAFE1234";P:"deadbeef";;',
+    );
+    assert.equal(buildWifiPayload(wifi({ ssid: 'ABC', password: 'secret' })), 'WIFI:T:WPA;S:ABC;P:secret;;');
+  });
+
+  it('drops the password for open networks and flags hidden ones', () => {
+    assert.equal(
+      buildWifiPayload({ ssid: 'Guest', password: 'ignored', encryption: 'none', isHidden: true }),
+      'WIFI:T:nopass;S:Guest;H:true;;',
+    );
+  });
+
+  it('round-trips through the detector', () => {
+    const data = { ssid: 'BEEF', password: `${SPECIALS}\nnext`, encryption: 'WPA', isHidden: false };
+    assert.deepEqual(detectPayload(buildWifiPayload(data)), { type: 'wifi', data });
+  });
+});
+
+describe('buildVCardPayload', () => {
+  const person = vCard({
+    firstName: 'Ann, Jr.',
+    lastName: 'O;Brien',
+    org: 'Acme\\Co',
+    note: 'Line one\nLine two: "quoted"',
+    phones: [{ type: 'work', number: '+1 555 0100' }],
+  });
+
+  it('escapes vCard 3.0 text values and separates lines with CRLF', () => {
+    assert.deepEqual(lines(buildVCardPayload(person)), [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:O\\;Brien;Ann\\, Jr.;;;',
+      'FN:Ann\\, Jr. O\\;Brien',
+      'ORG:Acme\\\\Co',
+      'TEL;TYPE=WORK,VOICE:+1 555 0100',
+      'NOTE:Line one\\nLine two: "quoted"',
+      'END:VCARD',
+    ]);
+  });
+
+  it('writes vCard 4.0 parameters in lower case and quoted', () => {
+    const payload = lines(buildVCardPayload({ ...person, format: 'vcard4' }));
+    assert.equal(payload[1], 'VERSION:4.0');
+    assert.ok(payload.includes('TEL;TYPE="work,voice":+1 555 0100'));
+    assert.ok(payload.includes('NOTE:Line one\\nLine two: "quoted"'));
+  });
+
+  it('escapes MeCard values and folds newlines into spaces', () => {
+    assert.equal(
+      buildVCardPayload({ ...person, format: 'mecard' }),
+      'MECARD:N:O\\;Brien,Ann\\, Jr.;ORG:Acme\\\\Co;TEL:+1 555 0100;NOTE:Line one Line two\\: \\"quoted\\";;',
+    );
+  });
+
+  it('names company-only cards after the organization', () => {
+    const company = vCard({ org: 'Smith, Jones & Co; Ltd', phones: [] });
+    assert.deepEqual(lines(buildVCardPayload(company)), [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:;;;;',
+      'FN:Smith\\, Jones & Co\\; Ltd',
+      'ORG:Smith\\, Jones & Co\\; Ltd',
+      'END:VCARD',
+    ]);
+    assert.equal(buildVCardPayload({ ...company, format: 'mecard' }), 'MECARD:N:Smith\\, Jones & Co\\; Ltd;ORG:Smith\\, Jones & Co\\; Ltd;;');
+  });
+
+  it('round-trips vCard 3.0 and 4.0 through the detector', () => {
+    (['vcard3', 'vcard4'] as const).forEach(format => {
+      const detected = detectPayload(buildVCardPayload({ ...person, format }));
+      assert.equal(detected.type, 'vcard');
+      if (detected.type !== 'vcard') return;
+      assert.equal(detected.data.format, format);
+      assert.equal(detected.data.firstName, person.firstName);
+      assert.equal(detected.data.lastName, person.lastName);
+      assert.equal(detected.data.org, person.org);
+      assert.equal(detected.data.note, person.note);
+    });
+  });
+});
+
+describe('buildEventPayload', () => {
+  const event = {
+    title: 'Quarterly planning; budget, hiring and the roadmap for the rest of the year',
+    location: 'Café Zürich, Bahnhofstrasse 1, 8001 Zürich — upstairs room with the long table',
+    description: `Agenda:\n${'Review every open item and agree on owners. '.repeat(4)}`,
+    start: '2026-05-04',
+    end: '',
+    allDay: true,
+  };
+  const octets = (line: string) => new TextEncoder().encode(line).length;
+
+  it('folds content lines longer than 75 octets with CRLF and a space', () => {
+    const payload = buildEventPayload(event);
+    const physical = payload.split('\r\n');
+    physical.forEach(line => assert.ok(octets(line) <= 75, `${octets(line)} octets: ${line}`));
+    assert.ok(physical.some(line => line.startsWith(' ')));
+    const unfolded = payload.replace(/\r\n /g, '').split('\r\n');
+    assert.ok(unfolded.includes('SUMMARY:Quarterly planning\\; budget\\, hiring and the roadmap for the rest of the year'));
+    assert.ok(unfolded.includes('LOCATION:Café Zürich\\, Bahnhofstrasse 1\\, 8001 Zürich — upstairs room with the long table'));
+  });
+
+  it('never splits a multi-byte character across lines', () => {
+    const physical = buildEventPayload({ ...event, title: 'ü'.repeat(80), location: '', description: '' }).split('\r\n');
+    assert.deepEqual(physical.slice(3, 6), [`SUMMARY:${'ü'.repeat(33)}`, ` ${'ü'.repeat(37)}`, ` ${'ü'.repeat(10)}`]);
+  });
+
+  it('leaves short lines unfolded', () => {
+    assert.ok(buildEventPayload({ ...event, title: 'Lunch', location: '', description: '' }).includes('\r\nSUMMARY:Lunch\r\n'));
+  });
+
+  it('round-trips long fields through the detector', () => {
+    const detected = detectPayload(buildEventPayload(event));
+    assert.equal(detected.type, 'event');
+    if (detected.type !== 'event') return;
+    assert.equal(detected.data.title, event.title);
+    assert.equal(detected.data.location, event.location);
+    assert.equal(detected.data.description, event.description);
+  });
+});
@@ -0,0 +1,215 @@
+import { CryptoData, EmailData, EventData, GeoData, SmsData, VCardAddress, VCardData, VCardPhoneType, WifiData } from '../types';
+import {
+  escapeIcsText, escapeMeCardValue, escapeVCardText, escapeWifiValue, foldContentLine, joinContentLines, normalizeWifiAuthentication, quoteIfHexLike,
+} from './payloadEncoding';
+
+const encodeWifiValue = (value: string) => quoteIfHexLike(escapeWifiValue(value));
+
+export const buildWifiPayload = ({ ssid, password, encryption, isHidden }: WifiData) => {
+  const authentication = normalizeWifiAuthentication(encryption);
+  const fields = [`T:${authentication}`, `S:${encodeWifiValue(ssid)}`];
+  if (authentication !== 'nopass') fields.push(`P:${encodeWifiValue(password)}`);
+  if (isHidden) fields.push('H:true');
+  return `WIFI:${fields.join(';')};;`;
+};
+
+export const buildEmailPayload = ({ address, subject, body }: EmailData) =>
+  `mailto:${address}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+const PHONE_TYPE_LABELS: Record<VCardPhoneType, { v3: string; v4: string }> = {
+  cell: { v3: 'CELL', v4: 'cell' },
+  work: { v3: 'WORK,VOICE', v4: 'work,voice' },
+  home: { v3: 'HOME,VOICE', v4: 'home,voice' },
+  fax: { v3: 'WORK,FAX', v4: 'work,fax' },
+};
+
+const hasAddress = ({ street, city, region, postalCode, country }: VCardAddress) =>
+  [street, city, region, postalCode, country].some(part => part.trim());
+
+const vCardFullName = ({ firstName, lastName, org }: VCardData) =>
+  [firstName, lastName].map(part => part.trim()).filter(Boolean).join(' ') || org.trim();
+
+const buildVCard = (data: VCardData, version: '3.0' | '4.0') => {
+  const isV4 = version === '4.0';
+  const text = (value: string) => escapeVCardText(value.trim());
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `N:${text(data.lastName)};${text(data.firstName)};;;`,
+    // FN is mandatory; fall back to the organization for company cards.
+    `FN:${text(vCardFullName(data))}`,
+  ];
+  if (data.org.trim()) lines.push(`ORG:${text(data.org)}`);
+  if (data.title.trim()) lines.push(`TITLE:${text(data.title)}`);
+  data.phones.filter(phone => phone.number.trim()).forEach(phone => {
+    const label = PHONE_TYPE_LABELS[phone.type];
+    lines.push(isV4 ? `TEL;TYPE="${label.v4}":${text(phone.number)}` : `TEL;TYPE=${label.v3}:${text(phone.number)}`);
+  });
+  if (data.email.trim()) lines.push(isV4 ? `EMAIL:${text(data.email)}` : `EMAIL;TYPE=INTERNET:${text(data.email)}`);
+  if (hasAddress(data.address)) {
+    const { street, city, region, postalCode, country } = data.address;
+    lines.push(`ADR;TYPE=${isV4 ? 'work' : 'WORK'}:;;${[street, city, region, postalCode, country].map(text).join(';')}`);
+  }
+  if (data.website.trim()) lines.push(`URL:${text(data.website)}`);
+  // No standard property exists for social profiles; X-SOCIALPROFILE is what iOS and Android contacts import.
+  data.socials.filter(social => social.url.trim()).forEach(social => {
+    const network = social.network.trim().toLowerCase().replace(/[^a-z0-9-]/g, '');
+    lines.push(`X-SOCIALPROFILE${network ? `;TYPE=${network}` : ''}:${text(social.url)}`);
+  });
+  if (data.note.trim()) lines.push(`NOTE:${text(data.note)}`);
+  if (data.photoUrl.trim()) lines.push(isV4 ? `PHOTO:${data.photoUrl.trim()}` : `PHOTO;VALUE=URI:${data.photoUrl.trim()}`);
+  lines.push('END:VCARD');
+  return joinContentLines(lines);
+};
+
+// MeCard has no title, social or photo fields; titles fold into ORG and profiles become extra URLs.
+const buildMeCard = (data: VCardData) => {
+  const value = (input: string) => escapeMeCardValue(input.trim());
+  const fields: string[] = [];
+  const name = [data.lastName, data.firstName].map(part => part.trim()).filter(Boolean).map(value).join(',');
+  fields.push(`N:${name || value(data.org)}`);
+  const org = [data.org.trim(), data.title.trim()].filter(Boolean).join(' - ');
+  if (org) fields.push(`ORG:${value(org)}`);
+  data.phones.filter(phone => phone.number.trim()).forEach(phone => fields.push(`TEL:${value(phone.number)}`));
+  if (data.email.trim()) fields.push(`EMAIL:${value(data.email)}`);
+  if (hasAddress(data.address)) {
+    const { street, city, region, postalCode, country } = data.address;
+    const locality = [region.trim(), postalCode.trim()].filter(Boolean).join(' ');
+    fields.push(`ADR:${value([street, city, locality, country].map(part => part.trim()).filter(Boolean).join(', '))}`);
+  }
+  [data.website, ...data.socials.map(social => social.url)]
+    .filter(url => url.trim())
+    .forEach(url => fields.push(`URL:${value(url)}`));
+  if (data.note.trim()) fields.push(`NOTE:${value(data.note)}`);
+  return `MECARD:${fields.join(';')};;`;
+};
+
+export const buildVCardPayload = (data: VCardData) => {
+  switch (data.format) {
+    case 'vcard4': return buildVCard(data, '4.0');
+    case 'mecard': return buildMeCard(data);
+    default: return buildVCard(data, '3.0');
+  }
+};
+
+// Keep a leading + for international numbers; scanners dial or text exactly what is encoded.
+export const normalizePhoneNumber = (value: string) => {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/[^\d]/g, '');
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+};
+
+export const validatePhoneNumber = (value: string): string | null => {
+  if (!value.trim()) return 'Enter a phone number.';
+  if (/[^\d\s()+.-]/.test(value.trim())) return 'Phone numbers may only contain digits, spaces, dashes, dots, parentheses and a leading +.';
+  const digits = normalizePhoneNumber(value).replace('+', '');
+  if (digits.length < 3 || digits.length > 15) return 'Phone numbers need between 3 and 15 digits (E.164).';
+  return null;
+};
+
+export const buildPhonePayload = (phone: string) => `tel:${normalizePhoneNumber(phone)}`;
+
+// RFC 5724 form; iOS and Android both prefill the body from ?body=.
+export const buildSmsPayload = ({ phone, message }: SmsData) => {
+  const body = message ? `?body=${encodeURIComponent(message)}` : '';
+  return `sms:${normalizePhoneNumber(phone)}${body}`;
+};
+
+export const validateSmsData = ({ phone }: SmsData) => validatePhoneNumber(phone);
+
+const parseCoordinate = (value: string) => (value.trim() === '' ? NaN : Number(value.trim()));
+
+export const validateGeoData = ({ latitude, longitude }: GeoData): string | null => {
+  const lat = parseCoordinate(latitude);
+  const lng = parseCoordinate(longitude);
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90) return 'Latitude must be a number between -90 and 90.';
+  if (!Number.isFinite(lng) || lng < -180 || lng > 180) return 'Longitude must be a number between -180 and 180.';
+  return null;
+};
+
+// RFC 5870; six decimals is ~10 cm, more only lengthens the payload.
+export const buildGeoPayload = ({ latitude, longitude }: GeoData) =>
+  `geo:${Number(parseCoordinate(latitude).toFixed(6))},${Number(parseCoordinate(longitude).toFixed(6))}`;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatIcsDate = (value: string) => value.slice(0, 10).replace(/-/g, '');
+
+// Timed events are converted to UTC so the scanner's calendar shows them in its own time zone.
+const formatIcsDateTime = (value: string) => {
+  const date = new Date(value);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const addDays = (dateValue: string, days: number) => {
+  const [year, month, day] = dateValue.slice(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+export const validateEventData = ({ title, start, end, allDay }: EventData): string | null => {
+  if (!title.trim()) return 'Give the event a title.';
+  if (!start || Number.isNaN(new Date(start).getTime())) return 'Choose a start date.';
+  if (end) {
+    if (Number.isNaN(new Date(end).getTime())) return 'The end date is not valid.';
+    const startTime = new Date(allDay ? start.slice(0, 10) : start).getTime();
+    const endTime = new Date(allDay ? end.slice(0, 10) : end).getTime();
+    if (endTime < startTime) return 'The event ends before it starts.';
+  }
+  return null;
+};
+
+export const buildEventPayload = ({ title, location, description, start, end, allDay }: EventData) => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', `SUMMARY:${escapeIcsText(title)}`];
+  if (allDay) {
+    // DTEND is exclusive for all-day events, so a single day ends on the following date.
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatIcsDate(addDays(end || start, 1))}`);
+  } else {
+    lines.push(`DTSTART:${formatIcsDateTime(start)}`);
+    if (end) lines.push(`DTEND:${formatIcsDateTime(end)}`);
+  }
+  if (location) lines.push(`LOCATION:${escapeIcsText(location)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return joinContentLines(lines.map(foldContentLine));
+};
+
+const BITCOIN_ADDRESS = /^(bc1[02-9ac-hj-np-z]{11,87}|[13][1-9A-HJ-NP-Za-km-z]{25,34})$/i;
+const ETHEREUM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const DECIMAL_AMOUNT = /^\d+(\.\d+)?$/;
+
+export const validateCryptoData = ({ network, address, amount, chainId }: CryptoData): string | null => {
+  const trimmed = address.trim();
+  if (!trimmed) return 'Enter a wallet address.';
+  if (network === 'bitcoin' && !BITCOIN_ADDRESS.test(trimmed)) return 'That does not look like a Bitcoin address (1…, 3… or bc1…).';
+  if (network === 'ethereum' && !ETHEREUM_ADDRESS.test(trimmed)) return 'Ethereum addresses are 0x followed by 40 hex characters.';
+  if (amount.trim() && !DECIMAL_AMOUNT.test(amount.trim())) return 'The amount must be a plain decimal number, e.g. 0.015.';
+  if (network === 'bitcoin' && amount.trim() && (amount.split('.')[1]?.length ?? 0) > 8) return 'Bitcoin amounts have at most 8 decimal places.';
+  if (network === 'ethereum' && amount.trim() && (amount.split('.')[1]?.length ?? 0) > 18) return 'Ether amounts have at most 18 decimal places.';
+  if (network === 'ethereum' && chainId.trim() && !/^\d+$/.test(chainId.trim())) return 'The chain ID must be a whole number.';
+  return null;
+};
+
+// EIP-681 values are integers in wei; convert with string arithmetic so no precision is lost.
+const etherToWei = (amount: string) => {
+  const [whole, fraction = ''] = amount.trim().split('.');
+  return `${whole}${fraction.padEnd(18, '0')}`.replace(/^0+(?=\d)/, '');
+};
+
+export const buildCryptoPayload = ({ network, address, amount, label, message, chainId }: CryptoData) => {
+  const trimmedAmount = amount.trim();
+  if (network === 'ethereum') {
+    const chain = chainId.trim() && chainId.trim() !== '1' ? `@${chainId.trim()}` : '';
+    const value = trimmedAmount ? `?value=${etherToWei(trimmedAmount)}` : '';
+    return `ethereum:${address.trim()}${chain}${value}`;
+  }
+  // BIP 21
+  const params = new URLSearchParams();
+  if (trimmedAmount) params.set('amount', trimmedAmount);
+  if (label.trim()) params.set('label', label.trim());
+  if (message.trim()) params.set('message', message.trim());
+  // URLSearchParams encodes spaces as "+", which BIP 21 wallets read literally.
+  const query = params.toString().replace(/\+/g, '%20');
+  return `bitcoin:${address.trim()}${query ? `?${query}` : ''}`;
+};
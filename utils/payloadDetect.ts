@@ -0,0 +1,256 @@
+import { CryptoData, EmailData, EventData, GeoData, SmsData, VCardData, VCardPhoneType, WifiData } from '../types';
+import { EMPTY_VCARD_DATA } from '../constants';
+import { splitUnescaped, unescapeBackslashes, unescapeVCardText } from './payloadEncoding';
+
+// A decoded payload mapped back onto the editor form that would produce it.
+export type DetectedPayload =
+  | { type: 'url'; data: string }
+  | { type: 'text'; data: string }
+  | { type: 'phone'; data: string }
+  | { type: 'wifi'; data: WifiData }
+  | { type: 'email'; data: EmailData }
+  | { type: 'vcard'; data: VCardData }
+  | { type: 'sms'; data: SmsData }
+  | { type: 'geo'; data: GeoData }
+  | { type: 'event'; data: EventData }
+  | { type: 'crypto'; data: CryptoData };
+
+const stripPrefix = (value: string, prefix: string) => value.slice(prefix.length);
+const startsWithIgnoreCase = (value: string, prefix: string) => value.slice(0, prefix.length).toUpperCase() === prefix.toUpperCase();
+
+// Path parts only: unlike query strings, "+" stays literal so phone numbers keep their country prefix.
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// "KEY:value;KEY:value;;" as used by WIFI:, MECARD: and MATMSG:.
+const parseFieldList = (body: string) => {
+  const fields: { key: string; value: string }[] = [];
+  splitUnescaped(body, ';').forEach(field => {
+    const separator = field.indexOf(':');
+    if (separator <= 0) return;
+    fields.push({ key: field.slice(0, separator).toUpperCase(), value: field.slice(separator + 1) });
+  });
+  return fields;
+};
+
+const parseWifi = (payload: string): WifiData => {
+  const fields = parseFieldList(stripPrefix(payload, 'WIFI:'));
+  const get = (key: string) => fields.find(field => field.key === key)?.value ?? '';
+  // Hex-looking values are wrapped in quotes by encoders; the quotes are not part of the value.
+  const value = (key: string) => unescapeBackslashes(get(key).replace(/^"(.*)"$/, '$1'));
+  return {
+    ssid: value('S'),
+    password: value('P'),
+    encryption: get('T') || 'nopass',
+    isHidden: get('H').toLowerCase() === 'true',
+  };
+};
+
+const parseMeCard = (payload: string): VCardData => {
+  const fields = parseFieldList(stripPrefix(payload, 'MECARD:'));
+  const all = (key: string) => fields.filter(field => field.key === key).map(field => unescapeBackslashes(field.value));
+  const [lastName = '', firstName = ''] = splitUnescaped(fields.find(field => field.key === 'N')?.value ?? '', ',').map(unescapeBackslashes);
+  const [website = '', ...otherUrls] = all('URL');
+  return {
+    ...EMPTY_VCARD_DATA,
+    format: 'mecard',
+    firstName,
+    lastName,
+    org: all('ORG')[0] ?? '',
+    phones: all('TEL').map(number => ({ type: 'cell', number })),
+    email: all('EMAIL')[0] ?? '',
+    website,
+    address: { ...EMPTY_VCARD_DATA.address, street: all('ADR')[0] ?? '' },
+    socials: otherUrls.map(url => ({ network: '', url })),
+    note: all('NOTE')[0] ?? '',
+  };
+};
+
+interface ContentLine {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+// Unfolds continuation lines (RFC 5545/6350 §3.2) and splits NAME;PARAMS:VALUE, ignoring ':' inside quoted params.
+const parseContentLines = (payload: string): ContentLine[] =>
+  payload
+    .replace(/\r\n[ \t]|\n[ \t]/g, '')
+    .split(/\r\n|\r|\n/)
+    .map(line => {
+      let inQuotes = false;
+      let separator = -1;
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+          separator = i;
+          break;
+        }
+      }
+      if (separator <= 0) return null;
+      const [name, ...params] = line.slice(0, separator).split(';');
+      return { name: name.toUpperCase(), params: params.map(param => param.toUpperCase()), value: line.slice(separator + 1) };
+    })
+    .filter((line): line is ContentLine => line !== null);
+
+const phoneTypeFromParams = (params: string[]): VCardPhoneType => {
+  const types = params.join(',').replace(/TYPE=|"/g, '').toLowerCase();
+  if (types.includes('fax')) return 'fax';
+  if (types.includes('cell') || types.includes('mobile')) return 'cell';
+  if (types.includes('home')) return 'home';
+  if (types.includes('work')) return 'work';
+  return 'cell';
+};
+
+const parseVCard = (payload: string): VCardData => {
+  const lines = parseContentLines(payload);
+  const first = (name: string) => lines.find(line => line.name === name);
+  const text = (name: string) => unescapeVCardText(first(name)?.value ?? '');
+  const [lastName = '', firstName = ''] = splitUnescaped(first('N')?.value ?? '', ';').map(unescapeVCardText);
+  const [, , street = '', city = '', region = '', postalCode = '', country = ''] = splitUnescaped(first('ADR')?.value ?? '', ';').map(unescapeVCardText);
+  const fullName = text('FN');
+  return {
+    ...EMPTY_VCARD_DATA,
+    format: first('VERSION')?.value.trim() === '4.0' ? 'vcard4' : 'vcard3',
+    // Cards with only FN still get a usable name.
+    firstName: firstName || (!lastName ? fullName : ''),
+    lastName,
+    org: unescapeVCardText(splitUnescaped(first('ORG')?.value ?? '', ';')[0]),
+    title: text('TITLE'),
+    phones: lines.filter(line => line.name === 'TEL').map(line => ({
+      type: phoneTypeFromParams(line.params),
+      number: unescapeVCardText(line.value.replace(/^tel:/i, '')),
+    })),
+    email: text('EMAIL'),
+    website: text('URL'),
+    address: { street, city, region, postalCode, country },
+    socials: lines.filter(line => line.name === 'X-SOCIALPROFILE').map(line => ({
+      network: (line.params.find(param => param.startsWith('TYPE='))?.slice(5) ?? '').toLowerCase(),
+      url: unescapeVCardText(line.value),
+    })),
+    note: text('NOTE'),
+    photoUrl: /^https?:/i.test(first('PHOTO')?.value ?? '') ? first('PHOTO')!.value : '',
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Converts iCalendar DATE / DATE-TIME values to what date and datetime-local inputs expect.
+const parseIcsDate = (value: string): { value: string; allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds = '00', utc] = match;
+  if (hours === undefined) return { value: `${year}-${month}-${day}`, allDay: true };
+  const date = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  return {
+    value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`,
+    allDay: false,
+  };
+};
+
+const previousDay = (dateValue: string) => {
+  const [year, month, day] = dateValue.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day - 1));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const parseEvent = (payload: string): EventData => {
+  const lines = parseContentLines(payload);
+  const text = (name: string) => unescapeVCardText(lines.find(line => line.name === name)?.value ?? '');
+  const start = parseIcsDate(lines.find(line => line.name === 'DTSTART')?.value ?? '');
+  const end = parseIcsDate(lines.find(line => line.name === 'DTEND')?.value ?? '');
+  const allDay = start?.allDay ?? false;
+  // All-day DTEND is exclusive; the form (and our encoder) use the inclusive last day.
+  const endValue = end ? (allDay ? previousDay(end.value) : end.value) : '';
+  return {
+    title: text('SUMMARY'),
+    location: text('LOCATION'),
+    description: text('DESCRIPTION'),
+    start: start?.value ?? '',
+    end: allDay && endValue === start?.value ? '' : endValue,
+    allDay,
+  };
+};
+
+const splitQuery = (value: string) => {
+  const index = value.indexOf('?');
+  return index === -1 ? { path: value, query: new URLSearchParams() } : { path: value.slice(0, index), query: new URLSearchParams(value.slice(index + 1)) };
+};
+
+const parseMailto = (payload: string): EmailData => {
+  const { path, query } = splitQuery(stripPrefix(payload, 'mailto:'));
+  return { address: safeDecode(path), subject: query.get('subject') ?? '', body: query.get('body') ?? '' };
+};
+
+const parseMatmsg = (payload: string): EmailData => {
+  const fields = parseFieldList(stripPrefix(payload, 'MATMSG:'));
+  const get = (key: string) => unescapeBackslashes(fields.find(field => field.key === key)?.value ?? '');
+  return { address: get('TO'), subject: get('SUB'), body: get('BODY') };
+};
+
+const parseSms = (payload: string): SmsData => {
+  if (startsWithIgnoreCase(payload, 'SMSTO:')) {
+    const [phone, ...message] = stripPrefix(payload, 'SMSTO:').split(':');
+    return { phone, message: message.join(':') };
+  }
+  const { path, query } = splitQuery(stripPrefix(payload, 'sms:'));
+  return { phone: safeDecode(path), message: query.get('body') ?? '' };
+};
+
+const parseGeo = (payload: string): GeoData | null => {
+  const match = /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/i.exec(payload);
+  return match ? { latitude: match[1], longitude: match[2] } : null;
+};
+
+// EIP-681 values are wei; show them as ether without going through floating point.
+const weiToEther = (wei: string) => {
+  const digits = wei.replace(/^0+/, '') || '0';
+  const whole = digits.length > 18 ? digits.slice(0, -18) : '0';
+  const fraction = digits.padStart(18, '0').slice(-18).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+};
+
+const parseCrypto = (payload: string): CryptoData | null => {
+  const empty: CryptoData = { network: 'bitcoin', address: '', amount: '', label: '', message: '', chainId: '' };
+  if (startsWithIgnoreCase(payload, 'bitcoin:')) {
+    const { path, query } = splitQuery(stripPrefix(payload, 'bitcoin:'));
+    return { ...empty, address: path, amount: query.get('amount') ?? '', label: query.get('label') ?? '', message: query.get('message') ?? '' };
+  }
+  const match = /^ethereum:(?:pay-)?(0x[0-9a-fA-F]{40})(?:@(\d+))?(?:\/[^?]*)?(?:\?(.*))?$/i.exec(payload);
+  if (!match) return null;
+  const value = new URLSearchParams(match[3] ?? '').get('value');
+  // Scientific notation (2.014e18) is allowed by EIP-681 but rare; only plain integers are converted.
+  const amount = value && /^\d+$/.test(value) ? weiToEther(value) : '';
+  return { ...empty, network: 'ethereum', address: match[1], chainId: match[2] ?? '', amount };
+};
+
+export const detectPayload = (payload: string): DetectedPayload => {
+  const trimmed = payload.trim();
+  if (startsWithIgnoreCase(trimmed, 'WIFI:')) return { type: 'wifi', data: parseWifi(trimmed) };
+  if (startsWithIgnoreCase(trimmed, 'MECARD:')) return { type: 'vcard', data: parseMeCard(trimmed) };
+  if (startsWithIgnoreCase(trimmed, 'BEGIN:VCARD')) return { type: 'vcard', data: parseVCard(trimmed) };
+  if (startsWithIgnoreCase(trimmed, 'BEGIN:VCALENDAR') || startsWithIgnoreCase(trimmed, 'BEGIN:VEVENT')) {
+    return { type: 'event', data: parseEvent(trimmed) };
+  }
+  if (startsWithIgnoreCase(trimmed, 'mailto:')) return { type: 'email', data: parseMailto(trimmed) };
+  if (startsWithIgnoreCase(trimmed, 'MATMSG:')) return { type: 'email', data: parseMatmsg(trimmed) };
+  if (startsWithIgnoreCase(trimmed, 'sms:') || startsWithIgnoreCase(trimmed, 'SMSTO:')) return { type: 'sms', data: parseSms(trimmed) };
+  if (startsWithIgnoreCase(trimmed, 'tel:')) return { type: 'phone', data: safeDecode(stripPrefix(trimmed, 'tel:')) };
+  if (startsWithIgnoreCase(trimmed, 'geo:')) {
+    const geo = parseGeo(trimmed);
+    if (geo) return { type: 'geo', data: geo };
+  }
+  if (startsWithIgnoreCase(trimmed, 'bitcoin:') || startsWithIgnoreCase(trimmed, 'ethereum:')) {
+    const crypto = parseCrypto(trimmed);
+    if (crypto) return { type: 'crypto', data: crypto };
+  }
+  if (/^https?:\/\/\S+$/i.test(trimmed)) return { type: 'url', data: trimmed };
+  return { type: 'text', data: payload };
+};
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  escapeMeCardValue, escapeVCardText, escapeWifiValue, normalizeWifiAuthentication, quoteIfHexLike, splitUnescaped, unescapeBackslashes, unescapeVCardText,
+} from './payloadEncoding';
+
+describe('escapeWifiValue', () => {
+  it('backslash-escapes every reserved character', () => {
+    assert.equal(escapeWifiValue('a;b,c:d"e\\f'), 'a\\;b\\,c\\:d\\"e\\\\f');
+  });
+
+  it('leaves newlines alone, since the WiFi format has no escape for them', () => {
+    assert.equal(escapeWifiValue('line\nbreak'), 'line\nbreak');
+  });
+});
+
+describe('quoteIfHexLike', () => {
+  it('quotes values scanners would read as raw hex', () => {
+    assert.equal(quoteIfHexLike('CAFE'), '"CAFE"');
+    assert.equal(quoteIfHexLike('0123456789abcdef'), '"0123456789abcdef"');
+  });
+
+  it('leaves odd-length and non-hex values unquoted', () => {
+    assert.equal(quoteIfHexLike('ABC'), 'ABC');
+    assert.equal(quoteIfHexLike('CAFEX1'), 'CAFEX1');
+    assert.equal(quoteIfHexLike(''), '');
+  });
+});
+
+describe('normalizeWifiAuthentication', () => {
+  it('maps what users type onto the three values scanners understand', () => {
+    assert.equal(normalizeWifiAuthentication('wpa2'), 'WPA');
+    assert.equal(normalizeWifiAuthentication('WPA3'), 'WPA');
+    assert.equal(normalizeWifiAuthentication('wep'), 'WEP');
+    assert.equal(normalizeWifiAuthentication(' none '), 'nopass');
+    assert.equal(normalizeWifiAuthentication(''), 'nopass');
+  });
+});
+
+describe('escapeVCardText', () => {
+  it('escapes backslashes before the separators it introduces', () => {
+    assert.equal(escapeVCardText('a\\b,c;d'), 'a\\\\b\\,c\\;d');
+  });
+
+  it('turns every newline style into \\n', () => {
+    assert.equal(escapeVCardText('one\r\ntwo\rthree\nfour'), 'one\\ntwo\\nthree\\nfour');
+  });
+
+  it('keeps colons and quotes, which are legal in TEXT values', () => {
+    assert.equal(escapeVCardText('Note: "hi"'), 'Note: "hi"');
+  });
+
+  it('round-trips through unescapeVCardText', () => {
+    const value = 'Suite 5; Floor 2, "East"\nBack\\door';
+    assert.equal(unescapeVCardText(escapeVCardText(value)), value);
+  });
+});
+
+describe('escapeMeCardValue', () => {
+  it('escapes reserved characters and folds newlines into spaces', () => {
+    assert.equal(escapeMeCardValue('a;b,c:d"e\\f\ng'), 'a\\;b\\,c\\:d\\"e\\\\f g');
+  });
+
+  it('round-trips through unescapeBackslashes apart from newlines', () => {
+    const value = 'Smith, Jones; Partners: "Law"\\Tax';
+    assert.equal(unescapeBackslashes(escapeMeCardValue(value)), value);
+  });
+});
+
+describe('splitUnescaped', () => {
+  it('splits only on separators without a preceding backslash', () => {
+    assert.deepEqual(splitUnescaped('a\\;b;c;;', ';'), ['a\\;b', 'c', '', '']);
+  });
+
+  it('treats an escaped backslash as closing the escape', () => {
+    assert.deepEqual(splitUnescaped('a\\\\;b', ';'), ['a\\\\', 'b']);
+  });
+});
@@ -0,0 +1,86 @@
+// Escaping rules for the structured text payloads scanners parse field by field.
+// Unescaped separators inside a value silently shift every following field, so all builders go through here.
+
+// ZXing WiFi format: \ ; , : and " are backslash-escaped.
+export const escapeWifiValue = (value: string) => value.replace(/([\\;,:"])/g, '\\$1');
+
+// A value made only of hex digits is read as a raw hex key/SSID by some scanners; quoting keeps it ASCII.
+export const quoteIfHexLike = (value: string) =>
+  /^[0-9A-Fa-f]+$/.test(value) && value.length % 2 === 0 ? `"${value}"` : value;
+
+export type WifiAuthentication = 'WPA' | 'WEP' | 'nopass';
+
+// Users type "WPA2", "wpa3", "none" or leave it blank; scanners only understand WPA, WEP and nopass.
+export const normalizeWifiAuthentication = (value: string): WifiAuthentication => {
+  const normalized = value.trim().toUpperCase();
+  if (normalized.startsWith('WEP')) return 'WEP';
+  if (normalized === '' || normalized === 'NONE' || normalized === 'NOPASS' || normalized === 'OPEN') return 'nopass';
+  return 'WPA';
+};
+
+// vCard TEXT values (RFC 2426 §5, RFC 6350 §3.4): backslash, comma, semicolon and newlines.
+export const escapeVCardText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+// iCalendar TEXT values (RFC 5545 §3.3.11) use the same rules as vCard.
+export const escapeIcsText = escapeVCardText;
+
+// MeCard reserves : ; , and backslash, and has no newline escape, so line breaks become spaces.
+export const escapeMeCardValue = (value: string) =>
+  value.replace(/\r\n|\r|\n/g, ' ').replace(/([\\;,:"])/g, '\\$1');
+
+// vCard and iCalendar both require CRLF line breaks between content lines.
+export const joinContentLines = (lines: string[]) => lines.join('\r\n');
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF and a space, never inside a UTF-8 character.
+const MAX_LINE_OCTETS = 75;
+
+export const foldContentLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with the folding space, which counts towards their 75 octets.
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// Inverse of the escapes above, for reading payloads decoded from existing codes.
+export const unescapeBackslashes = (value: string) => value.replace(/\\(.)/g, '$1');
+
+export const unescapeVCardText = (value: string) => value.replace(/\\([nN]|.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Splits on a separator that is not preceded by an escaping backslash, keeping escapes intact.
+export const splitUnescaped = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
@@ -0,0 +1,132 @@
+// Minimal PDF 1.4 writer: JPEG images, filled rectangles, hairlines and Helvetica text.
+// That is all a print sheet of QR codes needs, so we avoid pulling in a full PDF library.
+
+export const POINTS_PER_INCH = 72;
+
+export interface PdfPage {
+  // All coordinates are in points, measured from the top-left corner of the page.
+  image: (name: string, x: number, y: number, width: number, height: number) => void;
+  rect: (x: number, y: number, width: number, height: number, rgb: [number, number, number]) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, lineWidth?: number) => void;
+  text: (value: string, x: number, y: number, size: number, align?: 'left' | 'center') => void;
+}
+
+interface PageRecord {
+  width: number;
+  height: number;
+  ops: string[];
+  images: Set<string>;
+}
+
+interface ImageRecord {
+  name: string;
+  data: Uint8Array;
+  widthPx: number;
+  heightPx: number;
+}
+
+const format = (value: number) => Number(value.toFixed(3)).toString();
+
+// Helvetica in WinAnsiEncoding covers Latin-1; anything else is replaced rather than corrupting the stream.
+const escapeText = (value: string) =>
+  value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+// Average Helvetica advance is ~0.52em; good enough for centering short captions.
+export const estimateTextWidth = (value: string, size: number) => value.length * size * 0.52;
+
+export const createPdf = () => {
+  const pages: PageRecord[] = [];
+  const images: ImageRecord[] = [];
+
+  const addJpeg = (data: Uint8Array, widthPx: number, heightPx: number) => {
+    const name = `Im${images.length + 1}`;
+    images.push({ name, data, widthPx, heightPx });
+    return name;
+  };
+
+  const addPage = (width: number, height: number): PdfPage => {
+    const page: PageRecord = { width, height, ops: [], images: new Set() };
+    pages.push(page);
+    const flipY = (y: number) => height - y;
+    return {
+      image: (name, x, y, w, h) => {
+        page.images.add(name);
+        page.ops.push(`q ${format(w)} 0 0 ${format(h)} ${format(x)} ${format(flipY(y + h))} cm /${name} Do Q`);
+      },
+      rect: (x, y, w, h, [r, g, b]) => {
+        page.ops.push(`q ${format(r)} ${format(g)} ${format(b)} rg ${format(x)} ${format(flipY(y + h))} ${format(w)} ${format(h)} re f Q`);
+      },
+      line: (x1, y1, x2, y2, lineWidth = 0.25) => {
+        page.ops.push(`q 0 0 0 RG ${format(lineWidth)} w ${format(x1)} ${format(flipY(y1))} m ${format(x2)} ${format(flipY(y2))} l S Q`);
+      },
+      text: (value, x, y, size, align = 'left') => {
+        const left = align === 'center' ? x - estimateTextWidth(value, size) / 2 : x;
+        page.ops.push(`BT /F1 ${format(size)} Tf 0 0 0 rg ${format(left)} ${format(flipY(y))} Td (${escapeText(value)}) Tj ET`);
+      },
+    };
+  };
+
+  const toBlob = (): Blob => {
+    // Everything outside image streams is ASCII or Latin-1 (captions), so one byte per char.
+    const encodeLatin1 = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encodeLatin1(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const startObject = (id: number) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+    };
+
+    // Object ids: 1 catalog, 2 page tree, 3 font, then images, then a (page, contents) pair per page.
+    const imageIds = new Map(images.map((image, index) => [image.name, 4 + index]));
+    const firstPageId = 4 + images.length;
+    const pageIds = pages.map((_, index) => firstPageId + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+    startObject(3);
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+    images.forEach(image => {
+      startObject(imageIds.get(image.name)!);
+      write(`<< /Type /XObject /Subtype /Image /Width ${image.widthPx} /Height ${image.heightPx} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`);
+      write(image.data);
+      write('\nendstream\nendobj\n');
+    });
+
+    pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const xObjects = Array.from(page.images).map(name => `/${name} ${imageIds.get(name)} 0 R`).join(' ');
+      startObject(pageId);
+      write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(page.width)} ${format(page.height)}] /Resources << /Font << /F1 3 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+      const content = encodeLatin1(page.ops.join('\n'));
+      startObject(pageId + 1);
+      write(`<< /Length ${content.length} >>\nstream\n`);
+      write(content);
+      write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = firstPageId + pages.length * 2;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks, { type: 'application/pdf' });
+  };
+
+  return { addJpeg, addPage, toBlob };
+};
@@ -0,0 +1,184 @@
+import { QRCodeConfig, SheetTemplate } from '../types';
+import { gradientEdgeColor } from './gradient';
+import { createPdf, estimateTextWidth, POINTS_PER_INCH } from './pdf';
+import { renderQRCodeBlob } from './qrExport';
+import { resolveThemeColors } from './qrOptions';
+
+export interface PrintSheetOptions {
+  template: SheetTemplate;
+  codeSizeIn: number;
+  captions: boolean;
+  bleedIn: number;
+  cropMarks: boolean;
+}
+
+export interface SheetSlot {
+  // Trim box of the code, in inches from the top-left of the page.
+  x: number;
+  y: number;
+  size: number;
+  // Width available for the caption, centered under the code.
+  captionWidth: number;
+}
+
+export interface SheetLayout {
+  slots: SheetSlot[];
+  codeSizeIn: number;
+  warning: string | null;
+}
+
+export const PRINT_BLEED_IN = 0.125;
+// 300 DPI at the chosen size, capped so large posters do not produce enormous JPEGs.
+const PRINT_DPI = 300;
+const MAX_RENDER_PX = 2400;
+const PAGE_MARGIN_IN = 0.5;
+const CAPTION_SIZE_PT = 8;
+const CAPTION_GAP_IN = 0.06;
+const CAPTION_HEIGHT_IN = 0.22;
+const LABEL_PADDING_IN = 0.0625;
+const CROP_MARK_OFFSET_IN = 0.0625;
+const CROP_MARK_LENGTH_IN = 0.1875;
+
+const captionSpace = (captions: boolean) => (captions ? CAPTION_GAP_IN + CAPTION_HEIGHT_IN : 0);
+
+const layoutLabels = (labels: NonNullable<SheetTemplate['labels']>, options: PrintSheetOptions): SheetLayout => {
+  const caption = captionSpace(options.captions);
+  const fitted = Math.min(
+    options.codeSizeIn,
+    labels.widthIn - LABEL_PADDING_IN * 2,
+    labels.heightIn - LABEL_PADDING_IN * 2 - caption,
+  );
+  const size = Math.max(0, fitted);
+  const slots: SheetSlot[] = [];
+  for (let row = 0; row < labels.rows; row++) {
+    for (let column = 0; column < labels.columns; column++) {
+      const labelX = labels.leftIn + column * labels.pitchXIn;
+      const labelY = labels.topIn + row * labels.pitchYIn;
+      slots.push({
+        x: labelX + (labels.widthIn - size) / 2,
+        y: labelY + (labels.heightIn - size - caption) / 2,
+        size,
+        captionWidth: labels.widthIn - LABEL_PADDING_IN * 2,
+      });
+    }
+  }
+  let warning: string | null = null;
+  if (size < 0.4) {
+    warning = `Labels on ${options.template.label} are too small for a scannable code with these options.`;
+  } else if (size < options.codeSizeIn - 0.001) {
+    warning = `Codes shrink to ${size.toFixed(2)} in to fit the ${options.template.label} labels.`;
+  }
+  return { slots, codeSizeIn: size, warning };
+};
+
+const layoutGrid = (template: SheetTemplate, options: PrintSheetOptions): SheetLayout => {
+  const caption = captionSpace(options.captions);
+  const printableWidth = template.pageWidthIn - PAGE_MARGIN_IN * 2;
+  const printableHeight = template.pageHeightIn - PAGE_MARGIN_IN * 2;
+  const size = Math.min(options.codeSizeIn, printableWidth, printableHeight - caption);
+  // Gutters leave room for bleed on both neighbours plus crop marks that sit outside the bleed.
+  const marks = options.cropMarks ? (CROP_MARK_OFFSET_IN + CROP_MARK_LENGTH_IN) * 2 : 0;
+  const gutter = Math.max(0.25, options.bleedIn * 2 + marks);
+  const cellWidth = size + gutter;
+  const cellHeight = size + caption + gutter;
+  const columns = Math.max(1, Math.floor((printableWidth + gutter) / cellWidth));
+  const rows = Math.max(1, Math.floor((printableHeight + gutter) / cellHeight));
+  const left = (template.pageWidthIn - (columns * cellWidth - gutter)) / 2;
+  const top = (template.pageHeightIn - (rows * cellHeight - gutter)) / 2;
+
+  const slots: SheetSlot[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({ x: left + column * cellWidth, y: top + row * cellHeight, size, captionWidth: cellWidth - 0.05 });
+    }
+  }
+  const warning = size < options.codeSizeIn - 0.001
+    ? `Codes shrink to ${size.toFixed(2)} in to fit the printable area of ${template.label}.`
+    : null;
+  return { slots, codeSizeIn: size, warning };
+};
+
+export const layoutPrintSheet = (options: PrintSheetOptions): SheetLayout =>
+  options.template.labels ? layoutLabels(options.template.labels, options) : layoutGrid(options.template, options);
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return [1, 1, 1];
+  const value = parseInt(match[1], 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+};
+
+const truncateCaption = (value: string, widthPt: number) => {
+  if (estimateTextWidth(value, CAPTION_SIZE_PT) <= widthPt) return value;
+  let truncated = value;
+  while (truncated.length > 1 && estimateTextWidth(`${truncated}...`, CAPTION_SIZE_PT) > widthPt) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}...`;
+};
+
+export const buildPrintSheetPdf = async (
+  configs: QRCodeConfig[],
+  options: PrintSheetOptions,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  const layout = layoutPrintSheet(options);
+  if (layout.slots.length === 0 || layout.codeSizeIn <= 0) {
+    throw new Error(`Nothing fits on ${options.template.label} with these options.`);
+  }
+  const pdf = createPdf();
+  const renderPx = Math.min(MAX_RENDER_PX, Math.round(layout.codeSizeIn * PRINT_DPI));
+  const pt = (inches: number) => inches * POINTS_PER_INCH;
+
+  // Repeated codes (a full sheet of one design) share a single embedded image.
+  const imageNames = new Map<string, string>();
+  const uniqueIds = Array.from(new Set(configs.map(config => config.id)));
+  for (const config of configs) {
+    if (imageNames.has(config.id)) continue;
+    const blob = await renderQRCodeBlob(config, { extension: 'jpeg', size: renderPx, theme: 'light' });
+    imageNames.set(config.id, pdf.addJpeg(new Uint8Array(await blob.arrayBuffer()), renderPx, renderPx));
+    onProgress?.(imageNames.size, uniqueIds.length);
+  }
+
+  const perPage = layout.slots.length;
+  for (let start = 0; start < configs.length; start += perPage) {
+    const page = pdf.addPage(pt(options.template.pageWidthIn), pt(options.template.pageHeightIn));
+    configs.slice(start, start + perPage).forEach((config, index) => {
+      const slot = layout.slots[index];
+      const x = pt(slot.x);
+      const y = pt(slot.y);
+      const size = pt(slot.size);
+      const bleed = pt(options.bleedIn);
+      if (bleed > 0) {
+        // Bleed extends the code's background past the trim line so cutting tolerance never shows paper.
+        // Gradient backgrounds continue with their edge color rather than the unused flat one.
+        const bleedColor = config.bgGradient
+          ? gradientEdgeColor(config.bgGradient)
+          : resolveThemeColors(config.fgColor, config.bgColor, 'light').resolvedBgColor;
+        page.rect(x - bleed, y - bleed, size + bleed * 2, size + bleed * 2, hexToRgb(bleedColor));
+      }
+      page.image(imageNames.get(config.id)!, x, y, size, size);
+      if (options.cropMarks) {
+        const offset = pt(options.bleedIn + CROP_MARK_OFFSET_IN);
+        const length = pt(CROP_MARK_LENGTH_IN);
+        const right = x + size;
+        const bottom = y + size;
+        page.line(x - offset - length, y, x - offset, y);
+        page.line(x, y - offset - length, x, y - offset);
+        page.line(right + offset, y, right + offset + length, y);
+        page.line(right, y - offset - length, right, y - offset);
+        page.line(x - offset - length, bottom, x - offset, bottom);
+        page.line(x, bottom + offset, x, bottom + offset + length);
+        page.line(right + offset, bottom, right + offset + length, bottom);
+        page.line(right, bottom + offset, right, bottom + offset + length);
+      }
+      if (options.captions && config.name) {
+        // Captions sit below the bleed so they are not printed over the extended background.
+        const captionTop = y + size + bleed + pt(CAPTION_GAP_IN);
+        page.text(truncateCaption(config.name, pt(slot.captionWidth)), x + size / 2, captionTop + CAPTION_SIZE_PT, CAPTION_SIZE_PT, 'center');
+      }
+    });
+  }
+  return pdf.toBlob();
+};
+
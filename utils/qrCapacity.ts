@@ -0,0 +1,75 @@
+import { ErrorCorrectionLevel } from '../types';
+import { dataCodewords, detectEncodingMode, MAX_VERSION, moduleCountForVersion, payloadBitLength, QrEncodingMode, selectVersion } from './qrEncoder';
+
+export interface QrCapacityEstimate {
+  mode: QrEncodingMode;
+  characters: number;
+  bytes: number;
+  // Smallest version that fits, or null when the payload exceeds version 40 at this level.
+  version: number | null;
+  modules: number | null;
+  // Data codewords the payload fills, mode and length header included, against what the version holds at this level.
+  // Past version 40 both describe version 40.
+  usedBytes: number;
+  capacityBytes: number;
+}
+
+export const ENCODING_MODE_LABELS: Record<QrEncodingMode, string> = {
+  numeric: 'Numeric',
+  alphanumeric: 'Alphanumeric',
+  byte: 'Byte (UTF-8)',
+  kanji: 'Kanji',
+};
+
+// Sizes the payload with the same mode and version selection the encoder uses, without building the matrix.
+export const estimateQrCapacity = (payload: string, level: ErrorCorrectionLevel): QrCapacityEstimate => {
+  const characters = Array.from(payload).length;
+  // Byte mode is UTF-8, so accented names and emoji cost two to four bytes each.
+  const bytes = new TextEncoder().encode(payload).length;
+  const version = selectVersion(payload, level);
+  const sizedVersion = version ?? MAX_VERSION;
+  return {
+    mode: detectEncodingMode(payload),
+    characters,
+    bytes,
+    version,
+    modules: version === null ? null : moduleCountForVersion(version),
+    usedBytes: Math.ceil(payloadBitLength(payload, sizedVersion) / 8),
+    capacityBytes: dataCodewords(sizedVersion, level),
+  };
+};
+
+// Below this, ink spread and close-up phone focus start merging modules whatever the distance.
+export const MIN_PRINT_MODULE_MM = 0.4;
+// The 10:1 distance rule is calibrated on a version 2 code with its 4-module quiet zone: 33 modules across.
+const REFERENCE_MODULES = 33;
+const MM_PER_INCH = 25.4;
+
+export interface PrintDensity {
+  moduleMm: number;
+  requiredModuleMm: number;
+  // Narrowest print, quiet zone included, that gives every module the required size.
+  minPrintSizeIn: number;
+  // Farthest distance the modules stay legible from at this print size; 0 when they are too small even up close.
+  maxScanDistanceFt: number;
+  isTooDense: boolean;
+  // Too dense, and by more than the 10:1 rule already asks for: a smaller version would print where this one cannot.
+  limitsPrinting: boolean;
+}
+
+// Denser versions put more modules into the same print width, so they need more room than the 10:1 rule alone suggests.
+export const assessPrintDensity = ({ modules, quietZoneModules, printSizeIn, scanDistanceFt }: {
+  modules: number;
+  quietZoneModules: number;
+  printSizeIn: number;
+  scanDistanceFt: number;
+}): PrintDensity => {
+  const modulesAcross = modules + quietZoneModules * 2;
+  const moduleMm = (printSizeIn * MM_PER_INCH) / modulesAcross;
+  const requiredModuleMm = Math.max(MIN_PRINT_MODULE_MM, (scanDistanceFt * 12 * MM_PER_INCH) / 10 / REFERENCE_MODULES);
+  const minPrintSizeIn = (requiredModuleMm * modulesAcross) / MM_PER_INCH;
+  const maxScanDistanceFt = moduleMm < MIN_PRINT_MODULE_MM ? 0 : (moduleMm * REFERENCE_MODULES * 10) / MM_PER_INCH / 12;
+  const isTooDense = printSizeIn > 0 && moduleMm < requiredModuleMm;
+  const limitsPrinting = isTooDense && minPrintSizeIn > (scanDistanceFt * 12) / 10;
+  return { moduleMm, requiredModuleMm, minPrintSizeIn, maxScanDistanceFt, isTooDense, limitsPrinting };
+};
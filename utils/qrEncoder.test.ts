@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import jsQR from 'jsqr';
+import { ErrorCorrectionLevel } from '../types';
+import { detectEncodingMode, encodeQR, MAX_VERSION, moduleCountForVersion, QrEncodingMode, QrMatrix, selectVersion } from './qrEncoder';
+
+const LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+const ALPHABETS: Record<QrEncodingMode, string[]> = {
+  numeric: Array.from('0123456789'),
+  alphanumeric: Array.from('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 $%*+-./:'),
+  byte: Array.from('hello, wörld! 🌍'),
+  kanji: Array.from('漢字日本語テスト'),
+};
+
+const fill = (mode: QrEncodingMode, length: number) =>
+  Array.from({ length }, (_, i) => ALPHABETS[mode][i % ALPHABETS[mode].length]).join('');
+
+// The longest payload of this mode that still fits the version, so every codeword carries data.
+const fillVersion = (mode: QrEncodingMode, version: number, level: ErrorCorrectionLevel) => {
+  let low = 1;
+  let high = 8000;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const fitted = selectVersion(fill(mode, mid), level);
+    if (fitted !== null && fitted <= version) low = mid;
+    else high = mid - 1;
+  }
+  return fill(mode, low);
+};
+
+// Draws the matrix with a 4-module quiet zone, as a scanner would see it, and reads it back.
+const decode = ({ size, modules }: QrMatrix) => {
+  const scale = 3;
+  const width = (size + 8) * scale;
+  const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!modules[y][x]) continue;
+      for (let dy = 0; dy < scale; dy++) {
+        const row = ((y + 4) * scale + dy) * width;
+        for (let dx = 0; dx < scale; dx++) {
+          const offset = (row + (x + 4) * scale + dx) * 4;
+          pixels[offset] = pixels[offset + 1] = pixels[offset + 2] = 0;
+        }
+      }
+    }
+  }
+  return jsQR(pixels, width, width);
+};
+
+const assertRoundTrip = (payload: string, level: ErrorCorrectionLevel) => {
+  const matrix = encodeQR(payload, level);
+  assert.equal(matrix.size, moduleCountForVersion(matrix.version));
+  const result = decode(matrix);
+  assert.ok(result, `version ${matrix.version}-${level} ${matrix.mode} did not decode`);
+  assert.equal(result.version, matrix.version);
+  assert.equal(result.data, payload);
+  return matrix;
+};
+
+describe('detectEncodingMode', () => {
+  it('picks the densest mode the whole payload allows', () => {
+    assert.equal(detectEncodingMode('0123456789'), 'numeric');
+    assert.equal(detectEncodingMode('HTTPS://EXAMPLE.COM/A1'), 'alphanumeric');
+    assert.equal(detectEncodingMode('https://example.com'), 'byte');
+    assert.equal(detectEncodingMode('漢字テスト'), 'kanji');
+    assert.equal(detectEncodingMode('漢字 test'), 'byte');
+  });
+});
+
+describe('encodeQR', () => {
+  LEVELS.forEach(level => {
+    it(`round-trips full versions from 1 to ${MAX_VERSION} at level ${level}`, () => {
+      // 7 is the first version with version bits; 10 and 27 widen the character count.
+      [1, 2, 6, 7, 9, 10, 26, 27, MAX_VERSION].forEach(version => {
+        const matrix = assertRoundTrip(fillVersion('byte', version, level), level);
+        assert.equal(matrix.version, version);
+      });
+    });
+  });
+
+  (Object.keys(ALPHABETS) as QrEncodingMode[]).forEach(mode => {
+    it(`round-trips ${mode} mode at every level`, () => {
+      LEVELS.forEach(level => {
+        [1, 9, 10].forEach(version => {
+          const matrix = assertRoundTrip(fillVersion(mode, version, level), level);
+          assert.equal(matrix.mode, mode);
+          assert.equal(matrix.version, version);
+        });
+      });
+    });
+  });
+
+  it('round-trips a typical URL at every level', () => {
+    LEVELS.forEach(level => assertRoundTrip('https://example.com/menu?table=12', level));
+  });
+
+  it('rejects content longer than version 40 holds', () => {
+    assert.equal(selectVersion(fill('byte', 3000), 'L'), null);
+    assert.throws(() => encodeQR(fill('byte', 3000), 'L'), /too long for a QR code at error correction level L/);
+  });
+});
@@ -0,0 +1,452 @@
+import { ErrorCorrectionLevel } from '../types';
+
+// A QR Code Model 2 encoder following ISO/IEC 18004: one segment in the densest mode the payload allows,
+// the smallest version that fits, Reed–Solomon error correction and the lowest-penalty mask.
+
+export type QrEncodingMode = 'numeric' | 'alphanumeric' | 'byte' | 'kanji';
+
+export interface QrMatrix {
+  version: number;
+  // Modules per side, quiet zone excluded.
+  size: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  mode: QrEncodingMode;
+  mask: number;
+  // Row-major: modules[y][x] is true for a dark module.
+  modules: boolean[][];
+}
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+const LEVEL_INDEX: Record<ErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+// The two format bits each level is written with; not in L, M, Q, H order.
+const LEVEL_FORMAT_BITS: Record<ErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// ISO/IEC 18004 Table 9, indexed [level][version]; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+const MODE_INDICATOR: Record<QrEncodingMode, number> = { numeric: 0x1, alphanumeric: 0x2, byte: 0x4, kanji: 0x8 };
+
+// Kanji mode stores Shift JIS double-byte characters in 13 bits, against 24 for the same character as UTF-8.
+// The code table comes from the platform's Shift JIS decoder rather than a 7,000-entry copy; where there is
+// no decoder the table stays empty and such text falls back to byte mode.
+let shiftJisCodes: Map<string, number> | null = null;
+
+const getShiftJisCodes = () => {
+  if (shiftJisCodes) return shiftJisCodes;
+  shiftJisCodes = new Map();
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder('shift_jis', { fatal: true });
+  } catch {
+    return shiftJisCodes;
+  }
+  for (const [from, to] of [[0x8140, 0x9ffc], [0xe040, 0xebbf]]) {
+    for (let code = from; code <= to; code++) {
+      const low = code & 0xff;
+      if (low < 0x40 || low === 0x7f || low > 0xfc) continue;
+      try {
+        const char = decoder.decode(new Uint8Array([code >> 8, low]));
+        if (char.length === 1 && !shiftJisCodes.has(char)) shiftJisCodes.set(char, code);
+      } catch {
+        // Unassigned code point.
+      }
+    }
+  }
+  return shiftJisCodes;
+};
+
+
+export const moduleCountForVersion = (version: number) => version * 4 + 17;
+
+export const detectEncodingMode = (payload: string): QrEncodingMode => {
+  if (/^[0-9]*$/.test(payload)) return 'numeric';
+  if (/^[0-9A-Z $%*+\-./:]*$/.test(payload)) return 'alphanumeric';
+  // Every kanji-mode character is outside ASCII, so plain text never pays for building the table.
+  if (/^[^\x00-\x7f]+$/.test(payload)) {
+    const codes = getShiftJisCodes();
+    if (Array.from(payload).every(char => codes.has(char))) return 'kanji';
+  }
+  return 'byte';
+};
+
+export const characterCountBits = (mode: QrEncodingMode, version: number) => {
+  const band = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  if (mode === 'numeric') return [10, 12, 14][band];
+  if (mode === 'alphanumeric') return [9, 11, 13][band];
+  if (mode === 'kanji') return [8, 10, 12][band];
+  return [8, 16, 16][band];
+};
+
+// Modules left for data and error correction once every function pattern is placed.
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+export const dataCodewords = (version: number, level: ErrorCorrectionLevel) => {
+  const index = LEVEL_INDEX[level];
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[index][version] * ERROR_CORRECTION_BLOCKS[index][version];
+};
+
+class BitBuffer {
+  bits: number[] = [];
+
+  append(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) this.bits.push((value >>> i) & 1);
+  }
+}
+
+const encodePayload = (payload: string, mode: QrEncodingMode) => {
+  const buffer = new BitBuffer();
+  if (mode === 'numeric') {
+    for (let i = 0; i < payload.length; i += 3) {
+      const group = payload.slice(i, i + 3);
+      buffer.append(Number(group), group.length * 3 + 1);
+    }
+    return { bits: buffer.bits, count: payload.length };
+  }
+  if (mode === 'alphanumeric') {
+    for (let i = 0; i < payload.length; i += 2) {
+      const first = ALPHANUMERIC_CHARSET.indexOf(payload[i]);
+      if (i + 1 < payload.length) buffer.append(first * 45 + ALPHANUMERIC_CHARSET.indexOf(payload[i + 1]), 11);
+      else buffer.append(first, 6);
+    }
+    return { bits: buffer.bits, count: payload.length };
+  }
+  if (mode === 'kanji') {
+    const codes = getShiftJisCodes();
+    const chars = Array.from(payload);
+    chars.forEach(char => {
+      const code = codes.get(char) as number;
+      const offset = code - (code <= 0x9ffc ? 0x8140 : 0xc140);
+      buffer.append((offset >> 8) * 0xc0 + (offset & 0xff), 13);
+    });
+    return { bits: buffer.bits, count: chars.length };
+  }
+  // Byte mode carries UTF-8, which every current scanner assumes when no ECI is given.
+  const bytes = new TextEncoder().encode(payload);
+  bytes.forEach(byte => buffer.append(byte, 8));
+  return { bits: buffer.bits, count: bytes.length };
+};
+
+// Bits the payload needs at a version, header included.
+export const payloadBitLength = (payload: string, version: number) => {
+  const mode = detectEncodingMode(payload);
+  return 4 + characterCountBits(mode, version) + encodePayload(payload, mode).bits.length;
+};
+
+// Smallest version the payload fits at this level, or null when it exceeds version 40.
+export const selectVersion = (payload: string, level: ErrorCorrectionLevel, minVersion = MIN_VERSION) => {
+  const mode = detectEncodingMode(payload);
+  const { bits, count } = encodePayload(payload, mode);
+  for (let version = minVersion; version <= MAX_VERSION; version++) {
+    if (count < 2 ** characterCountBits(mode, version) && 4 + characterCountBits(mode, version) + bits.length <= dataCodewords(version, level) * 8) {
+      return version;
+    }
+  }
+  return null;
+};
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves them.
+const addErrorCorrection = (data: number[], version: number, level: ErrorCorrectionLevel) => {
+  const index = LEVEL_INDEX[level];
+  const blockCount = ERROR_CORRECTION_BLOCKS[index][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[index][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Short blocks get a placeholder so every block interleaves by the same index.
+    if (i < shortBlockCount) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const alignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = moduleCountForVersion(version) - 7; result.length < count; position -= step) result.splice(1, 0, position);
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const bit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+class QrSymbol {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = moduleCountForVersion(version);
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(level: ErrorCorrectionLevel) {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((y, i) => {
+      positions.forEach((x, j) => {
+        // The three corners already hold finder patterns.
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      });
+    });
+
+    // Reserve the format areas now; the real bits are written once the mask is chosen.
+    this.drawFormatBits(level, 0);
+    this.drawVersionBits();
+  }
+
+  drawFinder(centerX: number, centerY: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  drawFormatBits(level: ErrorCorrectionLevel, mask: number) {
+    const data = (LEVEL_FORMAT_BITS[level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(bits, i));
+    this.setFunction(8, 7, bit(bits, 6));
+    this.setFunction(8, 8, bit(bits, 7));
+    this.setFunction(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(bits, i));
+    // Always dark.
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  drawVersionBits() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, bit(bits, i));
+      this.setFunction(b, a, bit(bits, i));
+    }
+  }
+
+  // Fills the data area in the two-column zigzag from the bottom-right corner.
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      // The vertical timing pattern takes column 6.
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = bit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  // XOR is its own inverse, so applying a mask twice removes it.
+  applyMask(mask: number) {
+    const test = MASKS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && test(x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  // The four penalty rules from ISO/IEC 18004 §7.8.3; lower scores are easier to read.
+  penalty() {
+    const { size, modules } = this;
+    let score = 0;
+    const line = (index: number, vertical: boolean) => Array.from({ length: size }, (_, i) => (vertical ? modules[i][index] : modules[index][i]));
+
+    for (let index = 0; index < size; index++) {
+      for (const vertical of [false, true]) {
+        const cells = line(index, vertical);
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+          if (i < size && cells[i] === cells[i - 1]) {
+            run++;
+          } else {
+            if (run >= 5) score += run - 2;
+            run = 1;
+          }
+        }
+        // Finder-like 1:1:3:1:1 runs with four light modules on either side.
+        const text = cells.map(dark => (dark ? '1' : '0')).join('');
+        for (const pattern of ['10111010000', '00001011101']) {
+          for (let from = text.indexOf(pattern); from !== -1; from = text.indexOf(pattern, from + 1)) score += 40;
+        }
+      }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+      }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += 10 * (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1);
+    return score;
+  }
+}
+
+export const encodeQR = (payload: string, level: ErrorCorrectionLevel): QrMatrix => {
+  const version = selectVersion(payload, level);
+  if (version === null) {
+    throw new Error(`The content is too long for a QR code at error correction level ${level}. Shorten it or lower the level.`);
+  }
+  const mode = detectEncodingMode(payload);
+  const { bits, count } = encodePayload(payload, mode);
+  const buffer = new BitBuffer();
+  buffer.append(MODE_INDICATOR[mode], 4);
+  buffer.append(count, characterCountBits(mode, version));
+  buffer.bits.push(...bits);
+
+  // Terminator, byte alignment, then the alternating pad codewords.
+  const capacityBits = dataCodewords(version, level) * 8;
+  buffer.append(0, Math.min(4, capacityBits - buffer.bits.length));
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+  for (let pad = 0xec; buffer.bits.length < capacityBits; pad ^= 0xec ^ 0x11) buffer.append(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < buffer.bits.length; i += 8) data.push(buffer.bits.slice(i, i + 8).reduce((byte, value) => (byte << 1) | value, 0));
+
+  const symbol = new QrSymbol(version);
+  symbol.drawFunctionPatterns(level);
+  symbol.drawCodewords(addErrorCorrection(data, version, level));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    symbol.applyMask(mask);
+    symbol.drawFormatBits(level, mask);
+    const penalty = symbol.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    symbol.applyMask(mask);
+  }
+  symbol.applyMask(bestMask);
+  symbol.drawFormatBits(level, bestMask);
+
+  return { version, size: symbol.size, errorCorrectionLevel: level, mode, mask: bestMask, modules: symbol.modules };
+};
@@ -0,0 +1,68 @@
+import { ExportSettings, QRCodeConfig, Theme } from '../types';
+import { renderQRCodeSvg } from './qrRenderer';
+
+export type ExportExtension = 'svg' | 'png' | 'jpeg';
+
+export const MIN_EXPORT_PX = 64;
+// Browsers refuse to allocate canvases much beyond this, and nothing printable needs more.
+export const MAX_EXPORT_PX = 8000;
+
+// The whole image, quiet zone included, is what lands on paper, so physical size maps straight to pixels.
+export const resolveExportPixelSize = (settings: ExportSettings, printSizeIn: number) => {
+  const size = settings.sizeMode === 'physical' ? printSizeIn * settings.dpi : settings.pixelSize;
+  return Math.min(MAX_EXPORT_PX, Math.max(MIN_EXPORT_PX, Math.round(size || 0)));
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The rendered code could not be loaded for rasterizing.'));
+    image.src = url;
+  });
+
+// Raster formats draw the SVG onto a canvas, so every format shows exactly the same modules.
+const rasterize = async (svg: string, size: number, type: string) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available for exporting.');
+    context.drawImage(image, 0, 0, size, size);
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const renderQRCodeBlob = async (
+  config: QRCodeConfig,
+  { extension, size = 1024, theme = 'light', quietZoneModules = 0 }: {
+    extension: ExportExtension;
+    size?: number;
+    theme?: Theme;
+    quietZoneModules?: number;
+  },
+): Promise<Blob> => {
+  const svg = renderQRCodeSvg(config, { size, theme, quietZoneModules });
+  const blob = extension === 'svg' ? new Blob([svg], { type: 'image/svg+xml' }) : await rasterize(svg, size, `image/${extension}`);
+  if (!blob) {
+    throw new Error(`Could not render "${config.name}" as ${extension.toUpperCase()}.`);
+  }
+  return blob;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started before the URL disappears.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,27 @@
+import { FinderColors, FinderCorner, QRCodeConfig, Theme } from '../types';
+
+// Transparent backgrounds are rendered against a theme-appropriate solid so the code keeps contrast.
+export const resolveThemeColors = (fgColor: string, bgColor: string, theme: Theme) => {
+  if (bgColor === 'transparent') {
+    return theme === 'light'
+      ? { resolvedFgColor: '#000000', resolvedBgColor: '#FFFFFF' }
+      : { resolvedFgColor: '#FFFFFF', resolvedBgColor: '#000000' };
+  }
+  return { resolvedFgColor: fgColor, resolvedBgColor: bgColor };
+};
+
+export const FINDER_CORNERS: { id: FinderCorner; label: string }[] = [
+  { id: 'topLeft', label: 'Top left' },
+  { id: 'topRight', label: 'Top right' },
+  { id: 'bottomLeft', label: 'Bottom left' },
+];
+
+// The solid colors each finder eye renders with. Corners under a gradient report its stops via fillColors instead.
+export const resolveFinderColors = (config: QRCodeConfig, theme: Theme): Record<FinderCorner, Required<FinderColors>> => {
+  const { resolvedFgColor } = resolveThemeColors(config.fgColor, config.bgColor, theme);
+  const resolve = (corner: FinderCorner) => ({
+    outer: config.eyeCornerColors?.[corner]?.outer ?? config.eyeOuterColor ?? resolvedFgColor,
+    inner: config.eyeCornerColors?.[corner]?.inner ?? config.eyeInnerColor ?? resolvedFgColor,
+  });
+  return { topLeft: resolve('topLeft'), topRight: resolve('topRight'), bottomLeft: resolve('bottomLeft') };
+};
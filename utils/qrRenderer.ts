@@ -0,0 +1,173 @@
+import { CornerDotType, CornerSquareType, DotType, ErrorCorrectionLevel, FinderCorner, GradientFill, QRCodeConfig, Theme } from '../types';
+import { sortedStops } from './gradient';
+import { encodeQR } from './qrEncoder';
+import { FINDER_CORNERS, resolveThemeColors } from './qrOptions';
+
+export interface QrRenderOptions {
+  // Width and height of the image in pixels, quiet zone included.
+  size?: number;
+  theme?: Theme;
+  quietZoneModules?: number;
+  // Keeps gradient ids unique when several codes are inlined into one page, which share an id namespace.
+  idPrefix?: string;
+}
+
+const FINDER_SIZE = 7;
+// The logo may cover at most this share of what the error correction level can recover.
+const LOGO_SIZE = 0.4;
+const LOGO_MARGIN_MODULES = 0.4;
+// Share of codewords each level can restore.
+export const RECOVERY_CAPACITY: Record<ErrorCorrectionLevel, number> = { L: 0.07, M: 0.15, Q: 0.25, H: 0.3 };
+
+// Side, in modules, of the centred square a logo clears. Odd so it stays centred on the grid, and clear of the finders.
+export const logoHiddenModules = (moduleCount: number, level: ErrorCorrectionLevel) => {
+  const maxHidden = Math.floor(LOGO_SIZE * RECOVERY_CAPACITY[level] * moduleCount * moduleCount);
+  if (maxHidden <= 0) return 0;
+  let side = Math.min(Math.max(1, Math.floor(Math.sqrt(maxHidden))), moduleCount - FINDER_SIZE * 2);
+  if (side % 2 === 0) side--;
+  return Math.max(0, side);
+};
+
+const format = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A unit square with a radius per corner, clockwise from the top left.
+const roundedSquare = (x: number, y: number, [tl, tr, br, bl]: number[]) => {
+  const arc = (radius: number, toX: number, toY: number) => (radius > 0 ? `A${format(radius)} ${format(radius)} 0 0 1 ${format(toX)} ${format(toY)}` : '');
+  return `M${format(x + tl)} ${y}H${format(x + 1 - tr)}${arc(tr, x + 1, y + tr)}V${format(y + 1 - br)}${arc(br, x + 1 - br, y + 1)}H${format(x + bl)}${arc(bl, x, y + 1 - bl)}V${format(y + tl)}${arc(tl, x + tl, y)}Z`;
+};
+
+const circle = (cx: number, cy: number, r: number) =>
+  `M${format(cx - r)} ${format(cy)}a${format(r)} ${format(r)} 0 1 0 ${format(r * 2)} 0a${format(r)} ${format(r)} 0 1 0 ${format(-r * 2)} 0Z`;
+
+// A square of `side` modules with every corner rounded by `radius`.
+const roundedBox = (x: number, y: number, side: number, radius: number) =>
+  `M${format(x + radius)} ${format(y)}h${format(side - radius * 2)}a${format(radius)} ${format(radius)} 0 0 1 ${format(radius)} ${format(radius)}`
+  + `v${format(side - radius * 2)}a${format(radius)} ${format(radius)} 0 0 1 ${format(-radius)} ${format(radius)}`
+  + `h${format(radius * 2 - side)}a${format(radius)} ${format(radius)} 0 0 1 ${format(-radius)} ${format(-radius)}`
+  + `v${format(radius * 2 - side)}a${format(radius)} ${format(radius)} 0 0 1 ${format(radius)} ${format(-radius)}Z`;
+
+// Corners round where both sides meeting at them face an empty module, so connected dots read as one shape.
+const dotPath = (type: DotType, x: number, y: number, isDark: (dx: number, dy: number) => boolean) => {
+  if (type === 'square') return `M${x} ${y}h1v1h-1Z`;
+  if (type === 'dots') return circle(x + 0.5, y + 0.5, 0.5);
+  const top = !isDark(0, -1);
+  const right = !isDark(1, 0);
+  const bottom = !isDark(0, 1);
+  const left = !isDark(-1, 0);
+  const classy = type === 'classy' || type === 'classy-rounded';
+  // Classy styles only ever round the top-left and bottom-right corners.
+  const open = [left && top, !classy && top && right, right && bottom, !classy && bottom && left];
+  const count = open.filter(Boolean).length;
+  const radius = (type === 'extra-rounded' || type === 'classy-rounded') && count === 1 ? 1 : 0.5;
+  return roundedSquare(x, y, open.map(isOpen => (isOpen ? radius : 0)));
+};
+
+const finderOuterPath = (type: CornerSquareType, x: number, y: number) => {
+  if (type === 'dot') return circle(x + 3.5, y + 3.5, 3.5) + circle(x + 3.5, y + 3.5, 2.5);
+  if (type === 'extra-rounded') return roundedBox(x, y, 7, 2.5) + roundedBox(x + 1, y + 1, 5, 1.5);
+  return `M${x} ${y}h7v7h-7ZM${x + 1} ${y + 1}v5h5v-5Z`;
+};
+
+const finderInnerPath = (type: CornerDotType, x: number, y: number) =>
+  type === 'dot' ? circle(x + 3.5, y + 3.5, 1.5) : `M${x + 2} ${y + 2}h3v3h-3Z`;
+
+// Linear gradients sweep the box edge to edge along their angle, with 0° running left to right.
+const gradientDefinition = (id: string, fill: GradientFill, x: number, y: number, side: number, extraRotation = 0) => {
+  const stops = sortedStops(fill)
+    .map(stop => `<stop offset="${format(stop.offset * 100)}%" stop-color="${escapeXml(stop.color)}"/>`)
+    .join('');
+  const cx = x + side / 2;
+  const cy = y + side / 2;
+  if (fill.type === 'radial') {
+    return `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${format(cx)}" cy="${format(cy)}" r="${format(side / 2)}">${stops}</radialGradient>`;
+  }
+  const rotation = ((fill.rotation * Math.PI) / 180 + extraRotation) % (2 * Math.PI);
+  const turn = (rotation + 2 * Math.PI) % (2 * Math.PI);
+  const half = side / 2;
+  let [x1, y1, x2, y2] = [cx, cy, cx, cy];
+  if (turn <= 0.25 * Math.PI || turn > 1.75 * Math.PI) {
+    [x1, y1, x2, y2] = [cx - half, cy - half * Math.tan(rotation), cx + half, cy + half * Math.tan(rotation)];
+  } else if (turn <= 0.75 * Math.PI) {
+    [x1, y1, x2, y2] = [cx - half / Math.tan(rotation), cy - half, cx + half / Math.tan(rotation), cy + half];
+  } else if (turn <= 1.25 * Math.PI) {
+    [x1, y1, x2, y2] = [cx + half, cy + half * Math.tan(rotation), cx - half, cy - half * Math.tan(rotation)];
+  } else {
+    [x1, y1, x2, y2] = [cx + half / Math.tan(rotation), cy + half, cx - half / Math.tan(rotation), cy - half];
+  }
+  return `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${format(x1)}" y1="${format(y1)}" x2="${format(x2)}" y2="${format(y2)}">${stops}</linearGradient>`;
+};
+
+// Corner gradients turn with their finder so all three eyes match when the code is rotated.
+const FINDER_LAYOUT: Record<FinderCorner, { column: number; row: number; rotation: number }> = {
+  topLeft: { column: 0, row: 0, rotation: 0 },
+  topRight: { column: 1, row: 0, rotation: Math.PI / 2 },
+  bottomLeft: { column: 0, row: 1, rotation: -Math.PI / 2 },
+};
+
+// Draws the code as a standalone SVG document. The output depends only on the config and options.
+export const renderQRCodeSvg = (
+  config: QRCodeConfig,
+  { size = 256, theme = 'dark', quietZoneModules = 0, idPrefix = '' }: QrRenderOptions = {},
+) => {
+  const { data, fgColor, bgColor, dotsGradient, cornersGradient, bgGradient, eyeOuterColor, eyeInnerColor, eyeCornerColors, dotType, cornerSquareType, cornerDotType, image, errorCorrectionLevel } = config;
+  const { resolvedFgColor, resolvedBgColor } = resolveThemeColors(fgColor, bgColor, theme);
+  const { size: count, modules } = encodeQR(data, errorCorrectionLevel);
+  const margin = quietZoneModules;
+  const total = count + margin * 2;
+  const defs: string[] = [];
+  const shapes: string[] = [];
+
+  const paint = (name: string, fill: GradientFill | undefined, color: string, x = 0, y = 0, side = total, rotation = 0) => {
+    if (!fill) return escapeXml(color);
+    const id = `qr${idPrefix.replace(/[^a-zA-Z0-9_-]/g, '')}-${name}`;
+    defs.push(gradientDefinition(id, fill, x, y, side, rotation));
+    return `url(#${id})`;
+  };
+
+  shapes.push(`<rect x="0" y="0" width="${total}" height="${total}" fill="${paint('background', bgGradient, resolvedBgColor)}"/>`);
+
+  const hidden = image ? logoHiddenModules(count, errorCorrectionLevel) : 0;
+  const hiddenStart = (count - hidden) / 2;
+  const isInFinder = (x: number, y: number) =>
+    (x < FINDER_SIZE && y < FINDER_SIZE) || (x >= count - FINDER_SIZE && y < FINDER_SIZE) || (x < FINDER_SIZE && y >= count - FINDER_SIZE);
+  const isUnderLogo = (x: number, y: number) => hidden > 0 && x >= hiddenStart && x < hiddenStart + hidden && y >= hiddenStart && y < hiddenStart + hidden;
+  const isDot = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < count && y < count && modules[y][x] && !isInFinder(x, y) && !isUnderLogo(x, y);
+
+  const dots: string[] = [];
+  for (let y = 0; y < count; y++) {
+    for (let x = 0; x < count; x++) {
+      if (isDot(x, y)) dots.push(dotPath(dotType, x + margin, y + margin, (dx, dy) => isDot(x + dx, y + dy)));
+    }
+  }
+  if (dots.length > 0) shapes.push(`<path fill="${paint('dots', dotsGradient, resolvedFgColor)}" d="${dots.join('')}"/>`);
+
+  FINDER_CORNERS.forEach(({ id }) => {
+    const { column, row, rotation } = FINDER_LAYOUT[id];
+    const x = margin + column * (count - FINDER_SIZE);
+    const y = margin + row * (count - FINDER_SIZE);
+    const overrides = eyeCornerColors?.[id];
+    const outer = overrides?.outer
+      ? escapeXml(overrides.outer)
+      : paint(`${id}-outer`, cornersGradient, eyeOuterColor ?? resolvedFgColor, x, y, FINDER_SIZE, rotation);
+    const inner = overrides?.inner
+      ? escapeXml(overrides.inner)
+      : paint(`${id}-inner`, cornersGradient, eyeInnerColor ?? resolvedFgColor, x, y, FINDER_SIZE, rotation);
+    shapes.push(`<path fill="${outer}" fill-rule="evenodd" d="${finderOuterPath(cornerSquareType, x, y)}"/>`);
+    shapes.push(`<path fill="${inner}" d="${finderInnerPath(cornerDotType, x, y)}"/>`);
+  });
+
+  if (image && hidden > 0) {
+    const logoSide = hidden - LOGO_MARGIN_MODULES * 2;
+    const logoStart = margin + hiddenStart + LOGO_MARGIN_MODULES;
+    shapes.push(`<image href="${escapeXml(image)}" x="${format(logoStart)}" y="${format(logoStart)}" width="${format(logoSide)}" height="${format(logoSide)}" preserveAspectRatio="xMidYMid meet"/>`);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${total} ${total}">`
+    + (defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '')
+    + shapes.join('')
+    + '</svg>';
+};
@@ -0,0 +1,88 @@
+import { FinderColors, FinderCorner, GradientFill, QRCodeConfig, QRCodeRevision } from '../types';
+import { FINDER_CORNERS } from './qrOptions';
+
+// Every revision is a full snapshot, so cap the history rather than let it grow with each save.
+export const MAX_REVISIONS_PER_CODE = 25;
+
+export type RevisionsByCode = Record<string, QRCodeRevision[]>;
+
+export interface ConfigChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Bookkeeping fields change on every save or in the library without the code itself changing.
+const IGNORED_KEYS: (keyof QRCodeConfig)[] = ['id', 'folder', 'tags', 'createdAt', 'updatedAt'];
+
+const DIFF_FIELDS: { key: keyof QRCodeConfig; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'contentType', label: 'Type' },
+  { key: 'data', label: 'Encoded content' },
+  { key: 'destination', label: 'Destination' },
+  { key: 'isDynamic', label: 'Dynamic' },
+  { key: 'fgColor', label: 'Foreground' },
+  { key: 'bgColor', label: 'Background' },
+  { key: 'dotsGradient', label: 'Dots gradient' },
+  { key: 'cornersGradient', label: 'Eyes gradient' },
+  { key: 'bgGradient', label: 'Background gradient' },
+  { key: 'eyeOuterColor', label: 'Outer eye color' },
+  { key: 'eyeInnerColor', label: 'Inner eye color' },
+  { key: 'eyeCornerColors', label: 'Per-corner eye colors' },
+  { key: 'dotType', label: 'Dot style' },
+  { key: 'cornerSquareType', label: 'Outer eye style' },
+  { key: 'cornerDotType', label: 'Inner eye style' },
+  { key: 'errorCorrectionLevel', label: 'Error correction' },
+  { key: 'image', label: 'Logo' },
+];
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export const sameRevisionContent = (a: QRCodeConfig, b: QRCodeConfig) =>
+  (Object.keys({ ...a, ...b }) as (keyof QRCodeConfig)[])
+    .filter(key => !IGNORED_KEYS.includes(key))
+    .every(key => sameValue(a[key], b[key]));
+
+const formatGradient = (fill: GradientFill) => `${fill.type} ${fill.colorStops.map(stop => stop.color.toUpperCase()).join(' → ')}`;
+
+const formatCornerColors = (colors: Partial<Record<FinderCorner, FinderColors>>) =>
+  FINDER_CORNERS.flatMap(({ id, label }) => {
+    const corner = colors[id];
+    if (!corner) return [];
+    return [`${label}: ${[corner.outer, corner.inner].map(color => color?.toUpperCase() ?? 'default').join(' / ')}`];
+  }).join('; ');
+
+const formatValue = (key: keyof QRCodeConfig, value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (key === 'image') return 'Custom logo';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (key === 'dotsGradient' || key === 'cornersGradient' || key === 'bgGradient') return formatGradient(value as GradientFill);
+  if (key === 'eyeCornerColors') return formatCornerColors(value as Partial<Record<FinderCorner, FinderColors>>);
+  const text = String(value);
+  return /^#[0-9a-f]{6}$/i.test(text) ? text.toUpperCase() : text;
+};
+
+// Field-by-field changes between two snapshots, in the order the editor presents them.
+export const diffConfigs = (before: QRCodeConfig, after: QRCodeConfig): ConfigChange[] =>
+  DIFF_FIELDS.filter(({ key }) => !sameValue(before[key], after[key])).map(({ key, label }) => ({
+    label,
+    before: formatValue(key, before[key]),
+    after: key === 'image' && before.image && after.image ? 'Different logo' : formatValue(key, after[key]),
+  }));
+
+// Appends a snapshot unless it matches the latest one, keeping the newest MAX_REVISIONS_PER_CODE.
+export const appendRevision = (history: RevisionsByCode, config: QRCodeConfig, savedAt = config.updatedAt ?? new Date().toISOString()): RevisionsByCode => {
+  const revisions = history[config.id] ?? [];
+  const latest = revisions[revisions.length - 1];
+  if (latest && sameRevisionContent(latest.config, config)) return history;
+  const revision: QRCodeRevision = { id: `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, savedAt, config };
+  return { ...history, [config.id]: [...revisions, revision].slice(-MAX_REVISIONS_PER_CODE) };
+};
+
+// Drops the history of codes that are no longer in the library.
+export const pruneRevisions = (history: RevisionsByCode, codes: QRCodeConfig[]): RevisionsByCode => {
+  const ids = new Set(codes.map(qr => qr.id));
+  const stale = Object.keys(history).filter(id => !ids.has(id));
+  if (stale.length === 0) return history;
+  return Object.fromEntries(Object.entries(history).filter(([id]) => ids.has(id)));
+};
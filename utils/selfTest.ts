@@ -0,0 +1,105 @@
+import jsQR from 'jsqr';
+import { SelfTestResult, SelfTestVariantId, SelfTestVariantResult } from '../types';
+
+// Simulated capture conditions. Each is intentionally mild: a code that fails these fails in the field.
+export const SELF_TEST_VARIANTS: { id: SelfTestVariantId; label: string; hint: string }[] = [
+  { id: 'original', label: 'Original', hint: 'The rendered code as exported.' },
+  { id: 'blur', label: 'Blur', hint: 'Soft focus or ink spread, about a third of a module.' },
+  { id: 'downscale', label: 'Downscale', hint: 'Small print or long distance, about 1.5 pixels per module.' },
+  { id: 'lowContrast', label: 'Low contrast', hint: 'Glare, faded print or a dim screen.' },
+];
+
+// Four modules of quiet zone; the preview renders edge-to-edge, but real prints have surroundings.
+const QUIET_ZONE_MODULES = 4;
+const BLUR_MODULE_FRACTION = 0.35;
+const DOWNSCALE_PX_PER_MODULE = 1.5;
+const LOW_CONTRAST_FACTOR = 0.3;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D is not available for the self-test.');
+  return { canvas, context };
+};
+
+// Separable box blur on RGBA data; ctx.filter would be simpler but Safari ignores it.
+const boxBlur = (image: ImageData, radius: number) => {
+  if (radius < 1) return image;
+  const { width, height, data } = image;
+  const pass = (source: Uint8ClampedArray, horizontal: boolean) => {
+    const output = new Uint8ClampedArray(source.length);
+    const outer = horizontal ? height : width;
+    const inner = horizontal ? width : height;
+    for (let o = 0; o < outer; o++) {
+      for (let channel = 0; channel < 4; channel++) {
+        let sum = 0;
+        const index = (i: number) => {
+          const clamped = Math.min(inner - 1, Math.max(0, i));
+          return ((horizontal ? o * width + clamped : clamped * width + o) * 4) + channel;
+        };
+        for (let i = -radius; i <= radius; i++) sum += source[index(i)];
+        for (let i = 0; i < inner; i++) {
+          output[index(i)] = sum / (radius * 2 + 1);
+          sum += source[index(i + radius + 1)] - source[index(i - radius)];
+        }
+      }
+    }
+    return output;
+  };
+  return new ImageData(pass(pass(data, true), false), width, height);
+};
+
+// Squash luminance toward a light grey, like glare washing out a print.
+const reduceContrast = (image: ImageData) => {
+  const data = new Uint8ClampedArray(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      data[i + channel] = 150 + (data[i + channel] - 128) * LOW_CONTRAST_FACTOR;
+    }
+  }
+  return new ImageData(data, image.width, image.height);
+};
+
+const decode = (image: ImageData, expected: string): Omit<SelfTestVariantResult, 'id' | 'label'> => {
+  const direct = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+  if (direct?.data === expected) return { passed: true, invertedOnly: false };
+  const inverted = jsQR(image.data, image.width, image.height, { inversionAttempts: 'onlyInvert' });
+  return { passed: inverted?.data === expected, invertedOnly: inverted?.data === expected };
+};
+
+export const runSelfTest = async (
+  source: Blob,
+  { expected, moduleCount, backgroundColor }: { expected: string; moduleCount: number; backgroundColor: string },
+): Promise<SelfTestResult> => {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const modulePx = bitmap.width / Math.max(1, moduleCount);
+    const padding = modulePx * QUIET_ZONE_MODULES;
+
+    const render = (scale: number) => {
+      const size = (bitmap.width + padding * 2) * scale;
+      const { context } = createCanvas(size, size);
+      context.fillStyle = backgroundColor;
+      context.fillRect(0, 0, size, size);
+      context.imageSmoothingEnabled = true;
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, padding * scale, padding * scale, bitmap.width * scale, bitmap.height * scale);
+      return context.getImageData(0, 0, Math.round(size), Math.round(size));
+    };
+
+    const original = render(1);
+    const images: Record<SelfTestVariantId, () => ImageData> = {
+      original: () => original,
+      blur: () => boxBlur(original, Math.round(modulePx * BLUR_MODULE_FRACTION)),
+      downscale: () => render(Math.min(1, DOWNSCALE_PX_PER_MODULE / modulePx)),
+      lowContrast: () => reduceContrast(original),
+    };
+
+    const variants = SELF_TEST_VARIANTS.map(({ id, label }) => ({ id, label, ...decode(images[id](), expected) }));
+    return { data: expected, variants };
+  } finally {
+    bitmap.close();
+  }
+};
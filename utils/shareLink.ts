@@ -0,0 +1,164 @@
+import { BrandKit, ContentType, CryptoData, EmailData, EventData, GeoData, SmsData, StyleSettings, UtmParams, VCardData, WifiData } from '../types';
+import {
+  CONTENT_TYPE_LABELS,
+  EMPTY_CRYPTO_DATA,
+  EMPTY_EMAIL_DATA,
+  EMPTY_EVENT_DATA,
+  EMPTY_GEO_DATA,
+  EMPTY_SMS_DATA,
+  EMPTY_VCARD_DATA,
+  EMPTY_WIFI_DATA,
+} from '../constants';
+import { readStyle } from './styleTemplates';
+
+// Bump when the payload shape changes, and add an upgrade from the previous version below.
+export const SHARE_LINK_VERSION = 1;
+const HASH_KEY = 'design';
+
+// The form behind each content type. Only the active one travels in a link.
+export type SharedContent =
+  | { type: 'url'; baseUrl: string; autoUtm: boolean; utm: UtmParams }
+  | { type: 'text'; text: string }
+  | { type: 'phone'; phone: string }
+  | { type: 'wifi'; wifi: WifiData }
+  | { type: 'email'; email: EmailData }
+  | { type: 'vcard'; vcard: VCardData }
+  | { type: 'sms'; sms: SmsData }
+  | { type: 'geo'; geo: GeoData }
+  | { type: 'event'; event: EventData }
+  | { type: 'crypto'; crypto: CryptoData };
+
+export interface SharedDesign {
+  name: string;
+  content: SharedContent;
+  // Without the logo: uploaded images would make the link far too long to paste anywhere.
+  style: Omit<StyleSettings, 'image'>;
+  // Logos travel by reference to a brand kit logo, which resolves for anyone sharing the kit.
+  brandLogo?: { id: string; name: string };
+}
+
+// Links only carry a logo that recipients can look up themselves; anything else is left out and reported.
+export const toSharedDesign = (name: string, content: SharedContent, { image, ...style }: StyleSettings, brandKit: BrandKit | null) => {
+  const logo = image ? brandKit?.logos.find(entry => entry.image === image) : undefined;
+  const design: SharedDesign = { name, content, style, ...(logo ? { brandLogo: { id: logo.id, name: logo.name } } : {}) };
+  return { design, logoOmitted: Boolean(image) && !logo };
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+// Deflated JSON in base64url keeps a typical design to a few hundred characters.
+export const encodeShareLink = async (design: SharedDesign) => {
+  if (typeof CompressionStream === 'undefined') throw new Error('This browser cannot create share links.');
+  const bytes = await pipe(new TextEncoder().encode(JSON.stringify(design)), new CompressionStream('deflate-raw'));
+  return `${HASH_KEY}=${SHARE_LINK_VERSION}.${toBase64Url(bytes)}`;
+};
+
+export const buildShareUrl = (hash: string, location: { origin: string; pathname: string; search: string }) =>
+  `${location.origin}${location.pathname}${location.search}#${hash}`;
+
+// Returns the encoded design from a location hash, or null when the hash is not a share link.
+export const readShareLinkHash = (hash: string) => new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Copies the fields that match the shape of `fallback`, keeping its values for anything missing or mistyped.
+// Lenient on purpose: a field added to a form later simply starts empty when an older link is opened.
+const conform = <T,>(value: unknown, fallback: T): T => {
+  if (Array.isArray(fallback)) {
+    if (!Array.isArray(value)) return fallback;
+    const item = fallback[0] ?? {};
+    return value.filter(isObject).map(entry => conform(entry, item)) as T;
+  }
+  if (isObject(fallback)) {
+    const source = isObject(value) ? value : {};
+    return Object.fromEntries(Object.entries(fallback).map(([key, fallbackValue]) => [key, conform(source[key], fallbackValue)])) as T;
+  }
+  return typeof value === typeof fallback ? (value as T) : fallback;
+};
+
+const oneOf = <T extends string>(value: T, allowed: readonly T[], fallback: T) => (allowed.includes(value) ? value : fallback);
+
+const EMPTY_UTM_PARAMS: UtmParams = { source: '', medium: '', campaign: '', term: '', content: '' };
+
+const readContent = (raw: unknown): SharedContent => {
+  if (!isObject(raw) || typeof raw.type !== 'string' || !(raw.type in CONTENT_TYPE_LABELS)) {
+    throw new Error('This share link has no content type.');
+  }
+  const type = raw.type as ContentType;
+  switch (type) {
+    case 'url': return { type, baseUrl: conform(raw.baseUrl, ''), autoUtm: conform(raw.autoUtm, true), utm: conform(raw.utm, EMPTY_UTM_PARAMS) };
+    case 'text': return { type, text: conform(raw.text, '') };
+    case 'phone': return { type, phone: conform(raw.phone, '') };
+    case 'wifi': return { type, wifi: conform(raw.wifi, EMPTY_WIFI_DATA) };
+    case 'email': return { type, email: conform(raw.email, EMPTY_EMAIL_DATA) };
+    case 'vcard': {
+      const vcard = conform(raw.vcard, EMPTY_VCARD_DATA);
+      // Socials start empty, so there is no sample entry to shape them by.
+      const socials = isObject(raw.vcard) && Array.isArray(raw.vcard.socials) ? raw.vcard.socials : [];
+      return {
+        type,
+        vcard: {
+          ...vcard,
+          socials: socials.filter(isObject).map(social => conform(social, { network: '', url: '' })),
+          format: oneOf(vcard.format, ['vcard3', 'vcard4', 'mecard'], EMPTY_VCARD_DATA.format),
+          phones: vcard.phones.map(phone => ({ ...phone, type: oneOf(phone.type, ['cell', 'work', 'home', 'fax'], 'cell') })),
+        },
+      };
+    }
+    case 'sms': return { type, sms: conform(raw.sms, EMPTY_SMS_DATA) };
+    case 'geo': return { type, geo: conform(raw.geo, EMPTY_GEO_DATA) };
+    case 'event': return { type, event: conform(raw.event, EMPTY_EVENT_DATA) };
+    case 'crypto': {
+      const crypto = conform(raw.crypto, EMPTY_CRYPTO_DATA);
+      return { type, crypto: { ...crypto, network: oneOf(crypto.network, ['bitcoin', 'ethereum'], EMPTY_CRYPTO_DATA.network) } };
+    }
+  }
+};
+
+// Upgrades a payload from version N to N + 1. Links already shared never change, so every step stays here.
+const UPGRADES: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const decodeShareLink = async (encoded: string): Promise<SharedDesign> => {
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(encoded);
+  if (!match) throw new Error('This share link is incomplete. Ask for the link again.');
+  const version = Number(match[1]);
+  if (version > SHARE_LINK_VERSION) throw new Error('This share link was made with a newer version of QR Code Studio. Reload the page to update.');
+  if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot open share links.');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(await pipe(fromBase64Url(match[2]), new DecompressionStream('deflate-raw'))));
+  } catch {
+    throw new Error('This share link is damaged. It may have been cut off when it was copied.');
+  }
+  if (!isObject(raw)) throw new Error('This share link is damaged.');
+  for (let step = version; step < SHARE_LINK_VERSION; step++) {
+    const upgrade = UPGRADES[step];
+    if (!upgrade) throw new Error(`Share links from version ${version} are no longer supported.`);
+    raw = upgrade(raw as Record<string, unknown>);
+  }
+
+  const payload = raw as Record<string, unknown>;
+  const { image: _image, ...style } = readStyle({ ...(isObject(payload.style) ? payload.style : {}), image: undefined }, 'Shared design');
+  const brandLogo = isObject(payload.brandLogo) && typeof payload.brandLogo.id === 'string'
+    ? { id: payload.brandLogo.id, name: typeof payload.brandLogo.name === 'string' ? payload.brandLogo.name : 'logo' }
+    : undefined;
+  return {
+    name: typeof payload.name === 'string' && payload.name.trim() ? payload.name : 'Shared QR Code',
+    content: readContent(payload.content),
+    style,
+    ...(brandLogo ? { brandLogo } : {}),
+  };
+};
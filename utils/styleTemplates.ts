@@ -0,0 +1,163 @@
+import { FinderColors, FinderCorner, GradientFill, QRCodeConfig, StyleSettings, StyleTemplate } from '../types';
+import { CORNER_DOT_STYLES, CORNER_SQUARE_STYLES, DOT_STYLES, ERROR_CORRECTION_LEVELS } from '../constants';
+import { FINDER_CORNERS } from './qrOptions';
+
+export const TEMPLATE_FILE_FORMAT = 'qr-code-studio/templates';
+export const TEMPLATE_FILE_VERSION = 1;
+
+export interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  defaultTemplateId: string | null;
+  templates: StyleTemplate[];
+}
+
+const STYLE_KEYS: (keyof StyleSettings)[] = [
+  'fgColor',
+  'bgColor',
+  'dotsGradient',
+  'cornersGradient',
+  'bgGradient',
+  'eyeOuterColor',
+  'eyeInnerColor',
+  'eyeCornerColors',
+  'dotType',
+  'cornerSquareType',
+  'cornerDotType',
+  'errorCorrectionLevel',
+  'image',
+];
+
+export const pickStyle = (config: QRCodeConfig): StyleSettings =>
+  Object.fromEntries(STYLE_KEYS.map(key => [key, config[key]])) as StyleSettings;
+
+// JSON drops undefined keys, so spell every style key out; otherwise applying a template would keep the previous gradient or eye colors.
+export const toStylePatch = (style: StyleSettings): Partial<QRCodeConfig> =>
+  Object.fromEntries(STYLE_KEYS.map(key => [key, style[key]]));
+
+const newTemplateId = () => `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createStyleTemplate = (name: string, style: StyleSettings): StyleTemplate => {
+  const now = new Date().toISOString();
+  return { id: newTemplateId(), name, style, createdAt: now, updatedAt: now };
+};
+
+export const serializeTemplates = (templates: StyleTemplate[], defaultTemplateId: string | null) => {
+  const file: TemplateFile = { format: TEMPLATE_FILE_FORMAT, version: TEMPLATE_FILE_VERSION, defaultTemplateId, templates };
+  return JSON.stringify(file, null, 2);
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readColor = (value: unknown, field: string, { allowTransparent = false } = {}) => {
+  if (typeof value === 'string' && (HEX_COLOR.test(value) || (allowTransparent && value === 'transparent'))) return value;
+  throw new Error(`${field} must be a #RRGGBB color${allowTransparent ? ' or "transparent"' : ''}.`);
+};
+
+const readOptionalColor = (value: unknown, field: string) => (value === undefined || value === null ? undefined : readColor(value, field));
+
+const readOption = <T extends string>(value: unknown, options: { value: T }[], field: string): T => {
+  const match = options.find(option => option.value === value);
+  if (!match) throw new Error(`${field} must be one of ${options.map(option => option.value).join(', ')}.`);
+  return match.value;
+};
+
+const readGradient = (value: unknown, field: string): GradientFill | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value) || (value.type !== 'linear' && value.type !== 'radial') || !Array.isArray(value.colorStops) || value.colorStops.length < 2) {
+    throw new Error(`${field} must be a linear or radial gradient with at least two stops.`);
+  }
+  return {
+    type: value.type,
+    rotation: typeof value.rotation === 'number' && Number.isFinite(value.rotation) ? value.rotation : 0,
+    colorStops: value.colorStops.map((stop, index) => {
+      if (!isObject(stop) || typeof stop.offset !== 'number' || stop.offset < 0 || stop.offset > 1) {
+        throw new Error(`${field} stop ${index + 1} needs an offset between 0 and 1.`);
+      }
+      return { offset: stop.offset, color: readColor(stop.color, `${field} stop ${index + 1}`) };
+    }),
+  };
+};
+
+const readCornerColors = (value: unknown, field: string) => {
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) throw new Error(`${field} must be an object keyed by corner.`);
+  const result: Partial<Record<FinderCorner, FinderColors>> = {};
+  FINDER_CORNERS.forEach(({ id }) => {
+    const colors = value[id];
+    if (colors === undefined) return;
+    if (!isObject(colors)) throw new Error(`${field}.${id} must be an object.`);
+    result[id] = { outer: readOptionalColor(colors.outer, `${field}.${id}.outer`), inner: readOptionalColor(colors.inner, `${field}.${id}.inner`) };
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+// Logos travel inline; remote URLs would break the moment the host moves them.
+const readImage = (value: unknown, field: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string' && value.startsWith('data:image/')) return value;
+  throw new Error(`${field} must be an embedded data:image URL.`);
+};
+
+// Shared with library backups, whose codes carry the same style fields.
+export const readStyle = (value: unknown, label: string): StyleSettings => {
+  if (!isObject(value)) throw new Error(`${label} has no style.`);
+  return {
+    fgColor: readColor(value.fgColor, `${label}: fgColor`),
+    bgColor: readColor(value.bgColor, `${label}: bgColor`, { allowTransparent: true }),
+    dotsGradient: readGradient(value.dotsGradient, `${label}: dotsGradient`),
+    cornersGradient: readGradient(value.cornersGradient, `${label}: cornersGradient`),
+    bgGradient: readGradient(value.bgGradient, `${label}: bgGradient`),
+    eyeOuterColor: readOptionalColor(value.eyeOuterColor, `${label}: eyeOuterColor`),
+    eyeInnerColor: readOptionalColor(value.eyeInnerColor, `${label}: eyeInnerColor`),
+    eyeCornerColors: readCornerColors(value.eyeCornerColors, `${label}: eyeCornerColors`),
+    dotType: readOption(value.dotType, DOT_STYLES, `${label}: dotType`),
+    cornerSquareType: readOption(value.cornerSquareType, CORNER_SQUARE_STYLES, `${label}: cornerSquareType`),
+    cornerDotType: readOption(value.cornerDotType, CORNER_DOT_STYLES, `${label}: cornerDotType`),
+    errorCorrectionLevel: readOption(value.errorCorrectionLevel, ERROR_CORRECTION_LEVELS, `${label}: errorCorrectionLevel`),
+    image: readImage(value.image, `${label}: image`),
+  };
+};
+
+// Validates an exported templates file. Throws with a message naming the first bad field.
+export const parseTemplateFile = (text: string): TemplateFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isObject(raw) || raw.format !== TEMPLATE_FILE_FORMAT) {
+    throw new Error('This is not a QR Code Studio templates file.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > TEMPLATE_FILE_VERSION) {
+    throw new Error(`Templates file version ${String(raw.version)} is newer than this app supports (${TEMPLATE_FILE_VERSION}).`);
+  }
+  if (!Array.isArray(raw.templates)) throw new Error('The templates file has no templates list.');
+
+  const templates = raw.templates.map((entry, index): StyleTemplate => {
+    if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+      throw new Error(`Template ${index + 1} has no name.`);
+    }
+    const label = `Template "${entry.name}"`;
+    const now = new Date().toISOString();
+    return {
+      id: typeof entry.id === 'string' && entry.id ? entry.id : newTemplateId(),
+      name: entry.name.trim(),
+      style: readStyle(entry.style, label),
+      createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : now,
+      updatedAt: typeof entry.updatedAt === 'string' ? entry.updatedAt : now,
+    };
+  });
+  const defaultTemplateId = typeof raw.defaultTemplateId === 'string' && templates.some(template => template.id === raw.defaultTemplateId)
+    ? raw.defaultTemplateId
+    : null;
+  return { format: TEMPLATE_FILE_FORMAT, version: TEMPLATE_FILE_VERSION, defaultTemplateId, templates };
+};
+
+// Imported templates replace local ones with the same id, so re-importing an updated brand file updates in place.
+export const mergeTemplates = (existing: StyleTemplate[], incoming: StyleTemplate[]) => {
+  const incomingIds = new Set(incoming.map(template => template.id));
+  return [...existing.filter(template => !incomingIds.has(template.id)), ...incoming];
+};
@@ -0,0 +1,52 @@
+import { UtmParams } from '../types';
+
+const hasProtocol = (value: string) => /^[a-zA-Z][a-zA-Z\d+-.]*:/.test(value);
+const looksRelative = (value: string) => value.startsWith('/') || value.startsWith('./') || value.startsWith('../');
+
+export const normalizeUrl = (value: string): { normalized: string | null; error: string | null } => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return { normalized: null, error: null };
+  }
+  if (looksRelative(trimmed)) {
+    return {
+      normalized: null,
+      error: 'Provide an absolute URL including the protocol (e.g. https://example.com/page).'
+    };
+  }
+  const candidate = hasProtocol(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    new URL(candidate);
+    return { normalized: candidate, error: null };
+  } catch {
+    return {
+      normalized: null,
+      error: 'URL looks invalid — double-check the format.'
+    };
+  }
+};
+
+export const buildUrlWithUtm = (target: string, params: UtmParams) => {
+  const url = new URL(target);
+  (Object.entries(params) as [keyof typeof params, string][]).forEach(([key, paramValue]) => {
+    const queryKey = `utm_${key}`;
+    if (paramValue) {
+      url.searchParams.set(queryKey, paramValue);
+    } else {
+      url.searchParams.delete(queryKey);
+    }
+  });
+  return url.toString();
+};
+
+export const stripUtmParams = (value: string) => {
+  try {
+    const url = new URL(value);
+    ['source', 'medium', 'campaign', 'term', 'content'].forEach(key => {
+      url.searchParams.delete(`utm_${key}`);
+    });
+    return url.toString();
+  } catch {
+    return value;
+  }
+};
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.REDIRECT_BASE_URL': JSON.stringify(env.REDIRECT_BASE_URL || 'http://localhost:3001'),
+        'process.env.REDIRECT_API_TOKEN': JSON.stringify(env.REDIRECT_API_TOKEN || '')
       },
       resolve: {
         alias: {